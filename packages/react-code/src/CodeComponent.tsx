@@ -7,7 +7,7 @@
 
 import { useEffect, useRef, useState } from "react";
 import { SevalRuntime } from "./SevalRuntime";
-import type { IMinimalStore } from "./SevalRuntime";
+import type { IMinimalStore, SevalRuntimeOptions } from "./SevalRuntime";
 
 interface CodeRendererProps {
     id: string;
@@ -18,13 +18,14 @@ interface CodeRendererProps {
         emitAction: (payload: unknown) => void;
     };
     store: IMinimalStore;
+    runtimeOptions?: SevalRuntimeOptions;
 }
 
 /**
  * Code component renderer.
  * Loads Seval logic from component props and handles actions.
  */
-export function CodeRenderer({ id, component, context, store }: CodeRendererProps) {
+export function CodeRenderer({ id, component, context, store, runtimeOptions }: CodeRendererProps) {
     const runtimeRef = useRef<SevalRuntime | null>(null);
     const [error, setError] = useState<Error | null>(null);
 
@@ -32,14 +33,19 @@ export function CodeRenderer({ id, component, context, store }: CodeRendererProp
     if (error) throw error;
 
     useEffect(() => {
-        const runtime = new SevalRuntime(store, context.surfaceId);
+        // component is like: { Code: { lang: "seval", code: "..." } }
+        const codeProps = (
+            component as { Code?: { code?: string; filename?: string; module?: boolean } }
+        ).Code;
+        // Library modules ({ module: true }) are loaded by the code that imports them
+        if (codeProps?.module) return;
+
+        const runtime = new SevalRuntime(store, context.surfaceId, runtimeOptions);
         runtimeRef.current = runtime;
 
         // Load code from component props
-        // component is like: { Code: { lang: "seval", code: "..." } }
-        const codeProps = (component as { Code?: { code?: string } }).Code;
         if (codeProps?.code) {
-            runtime.loadCode(codeProps.code);
+            runtime.loadCode(codeProps.code, codeProps.filename ?? `${id}.seval`);
         }
 
         // Set up action handler for this surface
@@ -58,7 +64,7 @@ export function CodeRenderer({ id, component, context, store }: CodeRendererProp
         return () => {
             runtimeRef.current = null;
         };
-    }, [component, context.surfaceId, store]);
+    }, [id, component, context.surfaceId, store, runtimeOptions]);
 
     // Renders nothing - just handles logic
     return null;
@@ -67,10 +73,13 @@ export function CodeRenderer({ id, component, context, store }: CodeRendererProp
 /**
  * Create Code entry for ComponentRegistry.
  * Call this with store to get a registry object.
+ * Pass runtimeOptions to configure every SevalRuntime it creates.
  */
-export function createCodeRegistry(store: IMinimalStore) {
+export function createCodeRegistry(store: IMinimalStore, runtimeOptions?: SevalRuntimeOptions) {
     return {
         // biome-ignore lint/suspicious/noExplicitAny: Match ComponentRegistry's RendererFn type
-        Code: (props: any) => <CodeRenderer {...props} store={store} />,
+        Code: (props: any) => (
+            <CodeRenderer {...props} store={store} runtimeOptions={runtimeOptions} />
+        ),
     };
 }
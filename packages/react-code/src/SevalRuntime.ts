@@ -5,7 +5,24 @@
  * Uses TypeScript seval interpreter directly - no S-expression dependency.
  */
 
-import { type Environment, type Value, compileSeval, executeSeval } from "@seval-ui/seval";
+import {
+    type CompileOptions,
+    DEFAULT_EXECUTION_BUDGET,
+    Decimal,
+    type Environment,
+    type SevalErrorLocation,
+    SevalModules,
+    type SevalSchema,
+    type TypeDiagnostic,
+    type Value,
+    checkSeval,
+    compileSeval,
+    executeSeval,
+    formatDiagnostic,
+    formatSevalErrorLocation,
+    getSevalErrorLocation,
+    parseSeval,
+} from "@seval-ui/seval";
 
 /**
  * Minimal store interface that SevalRuntime needs
@@ -35,21 +52,65 @@ export interface IMinimalSurface {
     incrementVersion(): void;
 }
 
+/**
+ * Options for SevalRuntime
+ */
+export interface SevalRuntimeOptions {
+    /**
+     * Options passed to compileSeval (e.g. backend: "interpreter" for strict CSP pages).
+     * Actions run with DEFAULT_EXECUTION_BUDGET unless compileOptions.budget is set.
+     */
+    compileOptions?: CompileOptions;
+    /**
+     * Schemas of the surface's data model and of the context actions receive. When set,
+     * loadCode type checks the code before compiling it and reports mismatches as warnings
+     * (see typeDiagnostics); the code is loaded either way.
+     */
+    schema?: { dataModel?: SevalSchema; context?: SevalSchema };
+    /**
+     * Library modules code can import from, by name. Other modules are looked up as Code
+     * components of the surface with `module: true` whose id is the module name.
+     */
+    modules?: Record<string, string>;
+}
+
 export class SevalRuntime {
     private store: IMinimalStore;
     private surfaceId: string;
+    private options: SevalRuntimeOptions;
     private sevalEnv: Environment | null = null;
     public lastError: Error | null = null;
-
-    constructor(store: IMinimalStore, surfaceId: string) {
+    /** Seval source location of lastError, when it was thrown by Seval code */
+    public lastErrorLocation: SevalErrorLocation | null = null;
+    /** Type check results of the last loadCode, when a schema is set */
+    public typeDiagnostics: TypeDiagnostic[] = [];
+    /** Modules of this surface; each is compiled once and reused by every loadCode */
+    public readonly modules: SevalModules;
+
+    constructor(store: IMinimalStore, surfaceId: string, options: SevalRuntimeOptions = {}) {
         this.store = store;
         this.surfaceId = surfaceId;
+        this.options = options;
+        this.modules = new SevalModules({
+            modules: options.modules,
+            resolve: (name) => this.moduleSource(name),
+            compileOptions: { budget: DEFAULT_EXECUTION_BUDGET, ...options.compileOptions },
+        });
     }
 
     private handleError(error: unknown, context: string): never {
         const err = error instanceof Error ? error : new Error(String(error));
         this.lastError = err;
-        console.error(`[SevalRuntime] ${context}:`, error);
+        this.lastErrorLocation = getSevalErrorLocation(error) ?? null;
+        if (this.lastErrorLocation) {
+            // e.g. "calculator.seval:42:7 in action_equals" followed by the code frame
+            const where = formatSevalErrorLocation(this.lastErrorLocation);
+            console.error(
+                `[SevalRuntime] ${context} at ${where}: ${err.message}\n${this.lastErrorLocation.frame}`,
+            );
+        } else {
+            console.error(`[SevalRuntime] ${context}:`, error);
+        }
         throw err;
     }
 
@@ -77,7 +138,9 @@ export class SevalRuntime {
 
         console.log("[SevalRuntime] Found code component:", codeComp);
 
-        const codeComponent = codeComp.component as { Code?: { code?: string; lang?: string } };
+        const codeComponent = codeComp.component as {
+            Code?: { code?: string; lang?: string; filename?: string };
+        };
         const code = codeComponent.Code?.code;
 
         if (!code) {
@@ -89,7 +152,7 @@ export class SevalRuntime {
             `[SevalRuntime] Loading seval code (${code.length} chars):`,
             `${code.substring(0, 200)}...`,
         );
-        this.loadCode(code);
+        this.loadCode(code, codeComponent.Code?.filename ?? `${componentId}.seval`);
     }
 
     /**
@@ -113,21 +176,49 @@ export class SevalRuntime {
     /**
      * Load code directly with seval language
      * @param code - The seval code to load
+     * @param filename - Name used in runtime error locations (e.g. "calculator.seval")
      */
-    loadCode(code: string): void {
+    loadCode(code: string, filename?: string): void {
         console.log(
             "[SevalRuntime] loadCode called, sevalEnv before:",
             this.sevalEnv ? Object.keys(this.sevalEnv) : "null",
         );
         try {
+            if (this.options.schema) {
+                this.checkTypes(code, filename);
+            }
             console.log("[SevalRuntime] Compiling Seval...");
-            this.sevalEnv = compileSeval(code);
+            this.sevalEnv = compileSeval(code, {
+                filename,
+                budget: DEFAULT_EXECUTION_BUDGET,
+                ...this.options.compileOptions,
+                modules: this.modules,
+            });
             console.log("[SevalRuntime] After compile, sevalEnv keys:", Object.keys(this.sevalEnv));
         } catch (error) {
             this.handleError(error, "Error loading seval code");
         }
     }
 
+    /**
+     * Source of a library module shipped as a Code component:
+     * { id: name, component: { Code: { module: true, code: "..." } } }
+     */
+    private moduleSource(name: string): string | undefined {
+        const component = this.store.surfaces.get(this.surfaceId)?.getComponent(name)?.component as
+            | { Code?: { module?: boolean; code?: string } }
+            | undefined;
+        return component?.Code?.module ? component.Code.code : undefined;
+    }
+
+    private checkTypes(code: string, filename = "code.seval"): void {
+        const { program } = parseSeval(code);
+        this.typeDiagnostics = checkSeval(program, { ...this.options.schema, source: code });
+        for (const diagnostic of this.typeDiagnostics) {
+            console.warn(`[SevalRuntime] ${formatDiagnostic(diagnostic, filename)}`);
+        }
+    }
+
     /**
      * Handle an action from the UI by calling the action_xxx function
      */
@@ -373,6 +464,10 @@ export class SevalRuntime {
 
     /**
      * Convert seval Value to plain JS value
+     *
+     * Decimals (from arithmetic: "decimal") become the nearest number, so the data model only
+     * holds JSON values; reading a number back gives the same decimal for up to 15 significant
+     * digits. Use toFixed() or String() in Seval code to keep more digits as a string.
      */
     private valueToJS(value: Value): unknown {
         if (value === null) return null;
@@ -388,14 +483,36 @@ export class SevalRuntime {
                 const obj: Record<string, unknown> = {};
                 for (const pair of value) {
                     if (Array.isArray(pair) && pair.length === 2) {
-                        obj[pair[0] as string] = this.valueToJS(pair[1] as Value);
+                        obj[pair[0] as string] = this.decimalsToNumbers(pair[1]);
                     }
                 }
                 return obj;
             }
-            return value.map((v) => this.valueToJS(v as Value));
         }
-        return value;
+        return this.decimalsToNumbers(value);
+    }
+
+    /**
+     * Replace decimals with numbers, copying only the arrays and plain objects that hold them.
+     * Anything else (class instances, values already being converted) is kept as it is.
+     */
+    private decimalsToNumbers(value: unknown, converting = new Set<object>()): unknown {
+        if (value instanceof Decimal) return value.toNumber();
+        if (value === null || typeof value !== "object" || converting.has(value)) return value;
+        const proto = Object.getPrototypeOf(value);
+        if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) return value;
+
+        converting.add(value);
+        let changed = false;
+        const entries = Object.entries(value).map(([key, item]) => {
+            const converted = this.decimalsToNumbers(item, converting);
+            changed ||= converted !== item;
+            return [key, converted] as const;
+        });
+        converting.delete(value);
+
+        if (!changed) return value;
+        return Array.isArray(value) ? entries.map(([, item]) => item) : Object.fromEntries(entries);
     }
 }
 
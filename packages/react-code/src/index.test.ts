@@ -3,7 +3,7 @@
  */
 import { describe, expect, it } from "bun:test";
 import type { IMinimalStore, IMinimalSurface } from "./SevalRuntime";
-import { SevalRuntime, compileSeval, executeSeval } from "./index";
+import { SevalBudgetExceededError, SevalRuntime, compileSeval, executeSeval } from "./index";
 
 // Mock store and surface for testing
 function createMockStore(): { store: IMinimalStore; surface: IMinimalSurface } {
@@ -72,6 +72,198 @@ describe("SevalRuntime", () => {
         expect(surface.dataModel.display).toBe("42");
     });
 
+    it("runs actions with the interpreter backend", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test", {
+            compileOptions: { backend: "interpreter" },
+        });
+
+        runtime.loadCodeComponent();
+        runtime.handleAction("test");
+
+        expect(surface.dataModel.display).toBe("42");
+    });
+
+    it("reports runtime errors with their Seval source location", () => {
+        const { store } = createMockStore();
+        const runtime = new SevalRuntime(store, "test");
+        const errors: unknown[][] = [];
+        const originalError = console.error;
+        console.error = (...args: unknown[]) => errors.push(args);
+
+        try {
+            runtime.loadCode(
+                `{
+    action_equals() {
+        this.display = display.missing()
+    }
+}`,
+                "calculator.seval",
+            );
+            expect(() => runtime.handleAction("equals")).toThrow(TypeError);
+        } finally {
+            console.error = originalError;
+        }
+
+        expect(runtime.lastErrorLocation?.functionName).toBe("action_equals");
+        expect(runtime.lastErrorLocation?.loc.start).toEqual({ line: 3, column: 9 });
+        const message = String(errors[0]?.[0]);
+        expect(message).toContain("calculator.seval:3:9 in action_equals");
+        expect(message).toContain("> 3 |         this.display = display.missing()");
+    });
+
+    it("keeps let temporaries out of the data model", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test");
+
+        runtime.loadCode(`{
+    action_double() {
+        let result = Number.parseFloat(display) * 2
+        this.display = String(result)
+    }
+}`);
+        surface.dataModel.display = "21";
+        runtime.handleAction("double");
+
+        expect(surface.dataModel.display).toBe("42");
+        expect(surface.dataModel).not.toHaveProperty("result");
+    });
+
+    it("stops runaway actions with an execution budget", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test", {
+            compileOptions: { budget: { maxLoopIterations: 100 } },
+        });
+        const originalError = console.error;
+        console.error = () => {};
+
+        try {
+            runtime.loadCode(`{
+    action_spin() {
+        for true { this.display = "spinning" }
+    }
+}`);
+            expect(() => runtime.handleAction("spin")).toThrow(SevalBudgetExceededError);
+        } finally {
+            console.error = originalError;
+        }
+
+        expect(runtime.lastError?.message).toBe("Loop iteration limit exceeded (100 iterations)");
+        expect(runtime.lastErrorLocation?.functionName).toBe("action_spin");
+        expect(surface.dataModel.display).not.toBe("spinning");
+    });
+
+    it("stores decimal mode results in the data model as numbers", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test", {
+            compileOptions: { arithmetic: "decimal" },
+        });
+
+        runtime.loadCode(`{
+    action_total() {
+        this.total = 0.1 + 0.2
+        this.items = [{ price: 19.99 * 3 }]
+    }
+}`);
+        runtime.handleAction("total");
+
+        expect(surface.dataModel.total).toBe(0.3);
+        expect(surface.dataModel.items).toEqual([{ price: 59.97 }]);
+    });
+
+    it("stores nested values without rebuilding them", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test", {
+            compileOptions: { arithmetic: "decimal" },
+        });
+
+        runtime.loadCode(`{
+    action_save() {
+        this.table = { rows: [["name", "Alice"]], total: 0.1 + 0.2 }
+        this.pairs = [["name", "Bob"]]
+        let node = { id: "root" }
+        node.self = node
+        this.node = node
+    }
+}`);
+        runtime.handleAction("save");
+
+        expect(surface.dataModel.table).toEqual({ rows: [["name", "Alice"]], total: 0.3 });
+        // A list of pairs written directly still becomes an object
+        expect(surface.dataModel.pairs).toEqual({ name: "Bob" });
+        const node = surface.dataModel.node as { self: unknown };
+        expect(node.self).toBe(node);
+    });
+
+    it("type checks code against the data model schema before loading it", () => {
+        const { store, surface } = createMockStore();
+        const runtime = new SevalRuntime(store, "test", {
+            schema: {
+                dataModel: {
+                    type: "object",
+                    properties: {
+                        display: { type: "string" },
+                        waitingForOperand: { type: "boolean" },
+                    },
+                },
+                context: { type: "object", properties: { digit: { type: "string" } } },
+            },
+        });
+        const warnings: unknown[][] = [];
+        const originalWarn = console.warn;
+        console.warn = (...args: unknown[]) => warnings.push(args);
+
+        try {
+            runtime.loadCode(
+                `{
+    action_digit() {
+        this.display = display * 10 + context.digit
+    }
+}`,
+                "calculator.seval",
+            );
+        } finally {
+            console.warn = originalWarn;
+        }
+
+        expect(runtime.typeDiagnostics.map((d) => [d.rule, d.message])).toEqual([
+            ["operand-type", "Operator '*' expects numbers but got string"],
+        ]);
+        expect(String(warnings[0]?.[0])).toContain("calculator.seval:3:24 error");
+
+        // The code still loads and runs
+        runtime.handleAction("digit", { digit: "7" });
+        expect(surface.dataModel.display).toBe("07");
+    });
+
+    it("imports library modules from options and from module Code components", () => {
+        const { store, surface } = createMockStore();
+        const getComponent = surface.getComponent;
+        surface.getComponent = (id) =>
+            id === "text"
+                ? {
+                      id,
+                      component: {
+                          Code: { module: true, code: "{ suffix(s, unit) { `${s} ${unit}` } }" },
+                      },
+                  }
+                : getComponent(id);
+        const runtime = new SevalRuntime(store, "test", {
+            modules: { numfmt: "{ formatNum(n) { Number(n).toFixed(2) } }" },
+        });
+
+        runtime.loadCode(`import { formatNum } from "numfmt"
+import { suffix as withUnit } from "text"
+{
+    action_format() { this.display = withUnit(formatNum(display), "kg") }
+}`);
+        runtime.handleAction("format");
+
+        expect(surface.dataModel.display).toBe("0.00 kg");
+        // Compiled once per surface
+        expect(runtime.modules.load("numfmt")).toBe(runtime.modules.load("numfmt"));
+    });
+
     it("handles __inputBinding action for direct updates", () => {
         const { store, surface } = createMockStore();
         const runtime = new SevalRuntime(store, "test");
@@ -7,13 +7,36 @@
 
 // Seval Runtime
 export { SevalRuntime, createSevalActionHandler } from "./SevalRuntime";
-export type { IMinimalStore, IMinimalSurface } from "./SevalRuntime";
+export type { IMinimalStore, IMinimalSurface, SevalRuntimeOptions } from "./SevalRuntime";
 
 // Code Component for A2UI Catalog
 export { CodeRenderer, createCodeRegistry as createCodeComponent } from "./CodeComponent";
 
 // Re-export seval utilities for convenience
-export { compileSeval, executeSeval, Tokenizer, Parser } from "@seval-ui/seval";
+export {
+    compileSeval,
+    executeSeval,
+    parseSeval,
+    checkSeval,
+    formatDiagnostic,
+    SevalSyntaxError,
+    SevalBudgetExceededError,
+    SevalModuleError,
+    SevalModules,
+    DEFAULT_EXECUTION_BUDGET,
+    Tokenizer,
+    Parser,
+} from "@seval-ui/seval";
 
 // Re-export seval types
-export type { Value, Environment, SFunction } from "@seval-ui/seval";
+export type {
+    Value,
+    Environment,
+    SFunction,
+    CompileOptions,
+    SevalBackend,
+    SevalDiagnostic,
+    SevalSchema,
+    TypeDiagnostic,
+    ExecutionBudget,
+} from "@seval-ui/seval";
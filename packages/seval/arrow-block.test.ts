@@ -0,0 +1,149 @@
+/**
+ * Tests for arrow functions with block bodies:
+ * - x => { ... } takes the statements of a method body and returns the last value
+ * - return leaves the arrow only; break and continue cannot reach an enclosing loop
+ * - An object literal body needs parentheses
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalBudgetExceededError, compileSeval, parseSeval } from './src/seval'
+import { run } from './test-helpers'
+
+describe('Arrow block parsing', () => {
+	test('parses a block body as statements', () => {
+		const { program } = parseSeval('{ f() { x => { let y = g(x); y * 2 } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ArrowFunction',
+			params: ['x'],
+			body: {
+				kind: 'BlockExpression',
+				statements: [{ kind: 'LetDeclaration', name: 'y' }, { kind: 'BinaryExpression' }],
+			},
+		})
+	})
+
+	test('parses block bodies for every parameter form', () => {
+		const { program } = parseSeval('{ f() { [() => { 1 }, (a, ...b) => { b }, g((c) => { c })] } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ArrayLiteral',
+			elements: [
+				{ kind: 'ArrowFunction', params: [], body: { kind: 'NumberLiteral' } },
+				{ kind: 'ArrowFunction', params: ['a'], rest: 'b', body: { kind: 'Identifier' } },
+				{ kind: 'CallExpression', args: [{ kind: 'ArrowFunction', body: { kind: 'Identifier' } }] },
+			],
+		})
+	})
+
+	test('a parenthesized object literal is an expression body', () => {
+		const { program } = parseSeval('{ f() { x => ({ id: x }) } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ArrowFunction',
+			body: { kind: 'ObjectLiteral' },
+		})
+	})
+
+	test('break in an arrow does not reach an enclosing loop', () => {
+		expect(() => compileSeval('{ f() { for x in xs { xs.map(y => { break }) } } }')).toThrow(
+			"'break' outside of a for loop",
+		)
+		expect(() => compileSeval('{ f() { for x in xs { g(() => { continue }) } } }')).toThrow(
+			"'continue' outside of a for loop",
+		)
+	})
+
+	test('rejects a name declared twice in the block', () => {
+		expect(() => compileSeval('{ f() { x => { let a = 1; let a = 2 } } }')).toThrow(
+			"'a' is already declared in this block",
+		)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Arrow block bodies (${backend})`, () => {
+		test('returns the value of the last statement', () => {
+			const result = run(backend, '[1, 2, 3].map(x => {\n\t\t\tlet y = x + 1\n\t\t\ty * 2\n\t\t})')
+			expect(Array.from(result as unknown[])).toEqual([4, 6, 8])
+		})
+
+		test('runs if and for statements', () => {
+			const result = run(
+				backend,
+				`[[1, 2], [3, 4, 5]].map(row => {
+			let total = 0
+			for x in row { total += x }
+			if total > 5 { "big" } else { "small" }
+		})`,
+			)
+			expect(Array.from(result as unknown[])).toEqual(['small', 'big'])
+		})
+
+		test('return leaves only the arrow', () => {
+			const result = run(
+				backend,
+				`let first = list.filter(x => {
+			if x < 0 { return false }
+			x % 2 == 0
+		})
+		first.length`,
+				{ list: [-2, 1, 2, 4] },
+			)
+			expect(result).toBe(2)
+		})
+
+		test('return inside a loop in the arrow', () => {
+			const find =
+				'let find = (items, n) => {\n\t\t\tfor x in items { if x > n { return x } }\n\t\t\tnull\n\t\t}'
+			const result = run(backend, `${find}\n\t\t[find([1, 5, 9], 4), find([1], 4)]`)
+			expect(Array.from(result as unknown[])).toEqual([5, null])
+		})
+
+		test('loops inside the arrow can break', () => {
+			const result = run(
+				backend,
+				'let count = n => {\n\t\t\tlet i = 0\n\t\t\tfor x in [1, 2, 3, 4] { if x > n { break }\n\t\t\ti += 1 }\n\t\t\ti\n\t\t}\n\t\tcount(2)',
+			)
+			expect(result).toBe(2)
+		})
+
+		test('sees enclosing locals, parameters and this', () => {
+			const state = { factor: 10 }
+			const result = run(
+				backend,
+				'let offset = 1\n\t\t[1, 2].map((x, i) => { let y = x * factor; y + offset + i })',
+				state,
+			)
+			expect(Array.from(result as unknown[])).toEqual([11, 22])
+		})
+
+		test('lets in the block stay local', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, 'let f = () => { let tmp = 1; tmp }\n\t\tf()', state)).toBe(1)
+			expect(state).toEqual({})
+		})
+
+		test('assigning a name that is not a let writes this, like methods', () => {
+			const state: Record<string, unknown> = { total: 0 }
+			run(backend, '[1, 2].forEach(x => { total += x })', state)
+			expect(state.total).toBe(3)
+		})
+
+		test('an empty block returns undefined', () => {
+			expect(run(backend, '(() => {})()')).toBeUndefined()
+		})
+
+		test('works with rest parameters', () => {
+			expect(run(backend, '((...xs) => { let n = xs.length; n })(1, 2)')).toBe(2)
+		})
+
+		test('counts towards the call depth budget', () => {
+			const env = compileSeval('{ run() { let f = n => { f(n + 1) }\n f(0) } }', {
+				backend,
+				budget: { maxCallDepth: 20 },
+			})
+			expect(() => (env.run as () => unknown).call({})).toThrow(SevalBudgetExceededError)
+		})
+	})
+}
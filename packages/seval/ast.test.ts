@@ -0,0 +1,296 @@
+/**
+ * Tests for the public AST tools:
+ * - Every node the parser creates has a loc span, including the Program, blocks and pattern properties
+ * - visit reaches every node kind, imports too, in source order, with parents, and can skip subtrees
+ * - transform rebuilds a tree bottom-up without modifying the original
+ * - Transformed programs compile on both backends
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type ASTNode,
+	type SevalBackend,
+	SevalCompiler,
+	SevalInterpreter,
+	type SevalNode,
+	childNodes,
+	parseSeval,
+	transform,
+	visit,
+} from './src/seval'
+
+const SOURCE = `import { fmt, pad as padded } from "lib"
+{
+	items: [1, 2, ...rest],
+	config: { name, [key]: "v", method() { 1 } },
+	run(a, ...more) {
+		let [x, y] = pair
+		let { p, q: [r], ...others } = obj
+		[x, this.y] = [y, x]
+		count += 1
+		count++
+		for let i = 0; i < 3; i++ { if (i == 1) { continue } elif (i) { break } else { -i } }
+		for item in items { total = total + item }
+		try { throw { code: "E" } } catch (err) { null } finally { true }
+		let label = match a { 1 => "one", 2 if big > 1 => \`many \${a}\`, _ => "none" }
+		let f = (v) => v?.w ?? obj?.[0]
+		return !a ? f?.(...more) : false
+	}
+}`
+
+function program() {
+	return parseSeval(SOURCE).program
+}
+
+function nodes(root: SevalNode): SevalNode[] {
+	const list: SevalNode[] = []
+	visit(root, { enter: (node) => void list.push(node) })
+	return list
+}
+
+describe('Source locations', () => {
+	test('spans an expression and its operands', () => {
+		const member = program().members[0]
+		expect(member.loc).toEqual({ start: { line: 3, column: 2 }, end: { line: 3, column: 24 } })
+		const body = parseSeval('{ f() { a + b.c } }').program.members[0]
+		const sum = body.kind === 'FunctionDef' ? body.body : null
+		expect(sum).toMatchObject({
+			kind: 'BinaryExpression',
+			loc: { start: { line: 1, column: 9 }, end: { line: 1, column: 16 } },
+			left: { loc: { start: { line: 1, column: 9 }, end: { line: 1, column: 10 } } },
+			right: { loc: { start: { line: 1, column: 13 }, end: { line: 1, column: 16 } } },
+		})
+	})
+
+	test('spans the whole program', () => {
+		expect(program().loc).toEqual({ start: { line: 1, column: 1 }, end: { line: 18, column: 2 } })
+	})
+
+	test('every node has a loc', () => {
+		const missing = nodes(program()).filter((node) => !node.loc)
+		expect(missing.map((node) => node.kind)).toEqual([])
+	})
+
+	test('object pattern properties have a loc', () => {
+		const { program } = parseSeval('{ f() {\n\tlet { a, b: [c] } = x\n\t{ d: this.e } = y\n} }')
+		const spans: unknown[] = []
+		visit(program, {
+			ObjectPattern: (node) => void spans.push(...node.properties.map((prop) => prop.loc)),
+		})
+		expect(spans).toEqual([
+			{ start: { line: 2, column: 8 }, end: { line: 2, column: 9 } },
+			{ start: { line: 2, column: 11 }, end: { line: 2, column: 17 } },
+			{ start: { line: 3, column: 4 }, end: { line: 3, column: 13 } },
+		])
+	})
+
+	test('children lie inside their parent', () => {
+		const precedes = (a: { line: number; column: number }, b: { line: number; column: number }) =>
+			a.line < b.line || (a.line === b.line && a.column <= b.column)
+		visit(program(), {
+			enter(node, parent) {
+				if (!parent?.loc || !node.loc) return
+				expect(precedes(parent.loc.start, node.loc.start)).toBe(true)
+				expect(precedes(node.loc.end, parent.loc.end)).toBe(true)
+			},
+		})
+	})
+})
+
+describe('visit', () => {
+	test('reaches every node kind', () => {
+		const kinds = new Set(nodes(program()).map((node) => node.kind))
+		expect([...kinds].sort()).toEqual(
+			[
+				'ArrayLiteral',
+				'ArrayPattern',
+				'ArrowFunction',
+				'AssignmentStatement',
+				'BinaryExpression',
+				'BlockExpression',
+				'BooleanLiteral',
+				'BreakStatement',
+				'CallExpression',
+				'ContinueStatement',
+				'ForInStatement',
+				'ForStatement',
+				'FunctionDef',
+				'Identifier',
+				'IfStatement',
+				'ImportDeclaration',
+				'LetDeclaration',
+				'LetPatternDeclaration',
+				'MatchExpression',
+				'MemberExpression',
+				'NullLiteral',
+				'NumberLiteral',
+				'ObjectLiteral',
+				'ObjectPattern',
+				'Program',
+				'PropertyDef',
+				'ReturnStatement',
+				'SpreadElement',
+				'StringLiteral',
+				'TemplateLiteral',
+				'TernaryExpression',
+				'ThrowStatement',
+				'TryStatement',
+				'UnaryExpression',
+				'UpdateExpression',
+			].sort(),
+		)
+	})
+
+	test('walks in source order with parents, entering before leaving', () => {
+		const { program } = parseSeval('{ f() { g(a, b.c) } }')
+		const events: string[] = []
+		visit(program, {
+			enter: (node, parent) => void events.push(`enter ${node.kind} < ${parent?.kind ?? '-'}`),
+			leave: (node) => void events.push(`leave ${node.kind}`),
+		})
+		expect(events).toEqual([
+			'enter Program < -',
+			'enter FunctionDef < Program',
+			'enter CallExpression < FunctionDef',
+			'enter Identifier < CallExpression',
+			'leave Identifier',
+			'enter Identifier < CallExpression',
+			'leave Identifier',
+			'enter MemberExpression < CallExpression',
+			'enter Identifier < MemberExpression',
+			'leave Identifier',
+			'leave MemberExpression',
+			'leave CallExpression',
+			'leave FunctionDef',
+			'leave Program',
+		])
+	})
+
+	test('calls handlers by kind and skips children when they return false', () => {
+		const names: string[] = []
+		visit(program(), {
+			Identifier: (node) => void names.push(node.name),
+			ArrowFunction: () => false,
+			MatchExpression: () => false,
+		})
+		expect(names).toContain('pair')
+		expect(names).not.toContain('v')
+		expect(names).not.toContain('big')
+	})
+
+	test('reaches computed keys, match patterns and guards', () => {
+		const { program } = parseSeval('{ f() { match { [k]: 1 }.x { 2 if ok => 3, _ => 4 } } }')
+		const kinds = nodes(program).map((node) =>
+			node.kind === 'Identifier' ? node.name : node.kind === 'NumberLiteral' ? node.value : null,
+		)
+		expect(kinds.filter((kind) => kind !== null)).toEqual(['k', 1, 2, 'ok', 3, 4])
+	})
+
+	test('reaches imports before members', () => {
+		const { program } = parseSeval('import { a } from "m"\nimport { b } from "n"\n{ c: 1 }')
+		const children = childNodes(program)
+		expect(children.map((node) => node.kind)).toEqual([
+			'ImportDeclaration',
+			'ImportDeclaration',
+			'PropertyDef',
+		])
+		const sources: string[] = []
+		visit(program, {
+			ImportDeclaration(node, parent) {
+				sources.push(node.source)
+				expect(parent).toBe(program)
+			},
+		})
+		expect(sources).toEqual(['m', 'n'])
+	})
+
+	test('childNodes lists direct children', () => {
+		const { program } = parseSeval('{ f() { a ? b : c } }')
+		const [method] = childNodes(program)
+		const [ternary] = childNodes(method)
+		expect(childNodes(ternary).map((node) => node.kind === 'Identifier' && node.name)).toEqual([
+			'a',
+			'b',
+			'c',
+		])
+	})
+})
+
+describe('transform', () => {
+	const double = (node: SevalNode): SevalNode =>
+		node.kind === 'NumberLiteral' ? { ...node, value: node.value * 2 } : node
+
+	test('replaces nodes bottom-up without modifying the original', () => {
+		const original = program()
+		const snapshot = structuredClone(original)
+		const result = transform(original, double)
+		expect(original).toEqual(snapshot)
+		const values = (root: SevalNode) =>
+			nodes(root).flatMap((node) => (node.kind === 'NumberLiteral' ? [node.value] : []))
+		expect(values(result)).toEqual(values(original).map((value) => value * 2))
+	})
+
+	test('shares unchanged subtrees and returns the root itself when nothing changed', () => {
+		const { program: original } = parseSeval('{ a: [1], b: ["x"], c() { d + 1 } }')
+		expect(transform(original, (node) => node)).toBe(original)
+		const result = transform(original, double)
+		expect(result.members[0]).not.toBe(original.members[0])
+		expect(result.members[1]).toBe(original.members[1])
+		expect(result.members[2]).not.toBe(original.members[2])
+	})
+
+	test('rebuilds imports', () => {
+		const { program: original } = parseSeval('import { a } from "m"\n{ b: 1 }')
+		const result = transform(original, (node) =>
+			node.kind === 'ImportDeclaration' ? { ...node, source: `lib/${node.source}` } : node,
+		)
+		expect(result.imports?.map((node) => node.source)).toEqual(['lib/m'])
+		expect(result.members[0]).toBe(original.members[0])
+		expect(original.imports?.[0]?.source).toBe('m')
+	})
+
+	test('sees children already transformed', () => {
+		const { program } = parseSeval('{ f() { 1 + 2 } }')
+		const folded = transform(program, (node) => {
+			if (
+				node.kind === 'BinaryExpression' &&
+				node.left.kind === 'NumberLiteral' &&
+				node.right.kind === 'NumberLiteral'
+			) {
+				return { kind: 'NumberLiteral', value: node.left.value + node.right.value, loc: node.loc }
+			}
+			return double(node)
+		})
+		const method = folded.members[0]
+		expect(method.kind === 'FunctionDef' && method.body).toMatchObject({
+			kind: 'NumberLiteral',
+			value: 6,
+		})
+	})
+
+	test('transforms a single node', () => {
+		const { program } = parseSeval('{ f() { [1, [2]] } }')
+		const method = program.members[0]
+		const body = (method.kind === 'FunctionDef' ? method.body : method.value) as ASTNode
+		expect(transform(body, double)).toMatchObject({
+			elements: [{ value: 2 }, { elements: [{ value: 4 }] }],
+		})
+	})
+
+	for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+		test(`transformed programs compile (${backend})`, () => {
+			const { program } = parseSeval('{ total: 1, run(a) { this.total = total + a * 10 } }')
+			const renamed = transform(program, (node) =>
+				node.kind === 'Identifier' && node.name === 'a' ? { ...node, name: 'amount' } : node,
+			)
+			const withParam = transform(renamed, (node) =>
+				node.kind === 'FunctionDef' ? { ...node, params: ['amount'] } : double(node),
+			)
+			const compiler = backend === 'interpreter' ? new SevalInterpreter() : new SevalCompiler()
+			const env = compiler.compile(withParam) as Record<string, unknown>
+			const state = { total: env.total }
+			;(env.run as (amount: number) => void).call(state, 3)
+			expect(state.total).toBe(62)
+		})
+	}
+})
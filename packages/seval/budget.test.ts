@@ -0,0 +1,128 @@
+/**
+ * Tests for execution budgets:
+ * - Loop iteration, call depth and timeout limits on both backends
+ * - SevalBudgetExceededError is catchable and carries a source location
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type ExecutionBudget,
+	type SevalBackend,
+	SevalBudgetExceededError,
+	compileSeval,
+	formatSevalErrorLocation,
+	getSevalErrorLocation,
+} from './src/seval'
+
+const CODE = `{
+	spin() {
+		for true {
+			this.n = 1
+		}
+	},
+	count(limit) {
+		this.i = 0
+		for this.i < limit {
+			this.i = this.i + 1
+		}
+		this.i
+	},
+	recurse(n) { recurse(n + 1) },
+	recurseArrow(n) {
+		this.f = x => f(x + 1)
+		f(n)
+	},
+	fib(n) { n < 2 ? n : fib(n - 1) + fib(n - 2) }
+}`
+
+function run(
+	backend: SevalBackend,
+	budget: ExecutionBudget,
+	name: string,
+	...args: unknown[]
+): unknown {
+	const env = compileSeval(CODE, { backend, budget, filename: 'budget.seval' })
+	const state: Record<string, unknown> = { ...env }
+	return (env[name] as (...a: unknown[]) => unknown).apply(state, args)
+}
+
+function thrown(fn: () => unknown): unknown {
+	try {
+		fn()
+	} catch (error) {
+		return error
+	}
+	throw new Error('Expected an error')
+}
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Execution budgets (${backend})`, () => {
+		test('stops infinite loops', () => {
+			const error = thrown(() => run(backend, { maxLoopIterations: 1000 }, 'spin'))
+			expect(error).toBeInstanceOf(SevalBudgetExceededError)
+			expect((error as SevalBudgetExceededError).limit).toBe('loopIterations')
+			expect((error as Error).message).toBe('Loop iteration limit exceeded (1000 iterations)')
+		})
+
+		test('allows loops within the limit', () => {
+			expect(run(backend, { maxLoopIterations: 1000 }, 'count', 1000)).toBe(1000)
+		})
+
+		test('stops runaway recursion', () => {
+			const error = thrown(() => run(backend, { maxCallDepth: 50 }, 'recurse', 0))
+			expect(error).toBeInstanceOf(SevalBudgetExceededError)
+			expect((error as SevalBudgetExceededError).limit).toBe('callDepth')
+			expect((error as SevalBudgetExceededError).max).toBe(50)
+		})
+
+		test('counts arrow calls towards call depth', () => {
+			const error = thrown(() => run(backend, { maxCallDepth: 50 }, 'recurseArrow', 0))
+			expect((error as SevalBudgetExceededError).limit).toBe('callDepth')
+		})
+
+		test('allows recursion within the limit', () => {
+			expect(run(backend, { maxCallDepth: 50 }, 'fib', 10)).toBe(55)
+		})
+
+		test('stops long-running calls after the timeout', () => {
+			const error = thrown(() => run(backend, { timeoutMs: 20 }, 'spin'))
+			expect(error).toBeInstanceOf(SevalBudgetExceededError)
+			expect((error as SevalBudgetExceededError).limit).toBe('timeout')
+			expect((error as Error).message).toBe('Execution time limit exceeded (20ms)')
+		})
+
+		test('starts a fresh budget for every top-level call', () => {
+			const env = compileSeval(CODE, { backend, budget: { maxLoopIterations: 150 } })
+			const state = { ...env }
+			const count = env.count as (limit: number) => number
+			expect(count.call(state, 100)).toBe(100)
+			expect(count.call(state, 100)).toBe(100)
+		})
+
+		test('recovers after a budget error', () => {
+			const env = compileSeval(CODE, { backend, budget: { maxCallDepth: 20 } })
+			const state = { ...env }
+			expect(() => (env.recurse as (n: number) => unknown).call(state, 0)).toThrow(
+				SevalBudgetExceededError,
+			)
+			expect((env.fib as (n: number) => number).call(state, 5)).toBe(5)
+		})
+
+		test('records where the budget ran out', () => {
+			const error = thrown(() => run(backend, { maxLoopIterations: 10 }, 'spin'))
+			const location = getSevalErrorLocation(error)
+			expect(location && formatSevalErrorLocation(location)).toBe('budget.seval:3:3 in spin')
+		})
+
+		test('is unlimited by default', () => {
+			expect(run(backend, {}, 'count', 5000)).toBe(5000)
+		})
+	})
+}
+
+test('SevalBudgetExceededError is an Error subclass', () => {
+	const error = new SevalBudgetExceededError('callDepth', 10)
+	expect(error).toBeInstanceOf(Error)
+	expect(error.name).toBe('SevalBudgetExceededError')
+	expect(error.message).toBe('Call depth limit exceeded (10 nested calls)')
+})
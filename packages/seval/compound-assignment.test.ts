@@ -0,0 +1,158 @@
+/**
+ * Tests for compound assignment and increment/decrement:
+ * - +=, -= and *= on variables and properties, with the same this. rules as =
+ * - Prefix and postfix ++ and -- and their values
+ * - Targets are evaluated once; invalid targets are syntax errors
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { TokenType, Tokenizer } from './src/seval-tokenizer'
+import { run } from './test-helpers'
+
+describe('Compound assignment parsing', () => {
+	test('tokenizes compound and update operators', () => {
+		const types = new Tokenizer('a += b -= c *= d++ --e').tokenize().map((t) => t.type)
+		expect(types).toEqual([
+			TokenType.IDENTIFIER,
+			TokenType.PLUS_ASSIGN,
+			TokenType.IDENTIFIER,
+			TokenType.MINUS_ASSIGN,
+			TokenType.IDENTIFIER,
+			TokenType.STAR_ASSIGN,
+			TokenType.IDENTIFIER,
+			TokenType.INCREMENT,
+			TokenType.DECREMENT,
+			TokenType.IDENTIFIER,
+			TokenType.EOF,
+		])
+	})
+
+	test('parses compound assignment with its operator', () => {
+		const { program } = parseSeval('{ f() { this.count *= n + 1 } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'AssignmentStatement',
+			operator: '*=',
+			target: { kind: 'MemberExpression', property: 'count' },
+			value: { kind: 'BinaryExpression', operator: '+' },
+		})
+	})
+
+	test('parses prefix and postfix updates', () => {
+		const { program } = parseSeval('{ f() { [++a, b.c--] } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ArrayLiteral',
+			elements: [
+				{ kind: 'UpdateExpression', operator: '++', prefix: true, target: { name: 'a' } },
+				{ kind: 'UpdateExpression', operator: '--', prefix: false, target: { property: 'c' } },
+			],
+		})
+	})
+
+	test('++ on the next line starts a new statement', () => {
+		const { program } = parseSeval('{ f() {\n\ta\n\t++b\n} }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'BlockExpression',
+			statements: [{ kind: 'Identifier' }, { kind: 'UpdateExpression', prefix: true }],
+		})
+	})
+
+	test('rejects invalid targets', () => {
+		expect(() => compileSeval('{ f() { 1 += 2 } }')).toThrow('Invalid assignment target')
+		expect(() => compileSeval('{ f() { [a, b] += 1 } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { f()++ } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { ++(a + b) } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { a?.b++ } }')).toThrow(
+			'Invalid assignment target: cannot assign to an optional chain',
+		)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Compound assignment (${backend})`, () => {
+		test('updates state properties', () => {
+			const state = { counter: 5, label: 'Count' }
+			run(
+				backend,
+				'this.counter += 2\n\t\tcounter -= 1\n\t\tthis.counter *= 3\n\t\tlabel += ": "',
+				state,
+			)
+			expect(state).toEqual({ counter: 18, label: 'Count: ' })
+		})
+
+		test('updates let bindings in place', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, 'let total = 1\n\t\ttotal += 4\n\t\ttotal *= 2\n\t\ttotal', state)).toBe(
+				10,
+			)
+			expect(state).toEqual({})
+		})
+
+		test('a parameter target writes this, like =', () => {
+			const env = compileSeval('{ add(n) { n += 1 } }', { backend })
+			const state: Record<string, unknown> = {}
+			expect((env.add as (n: number) => unknown).call(state, 1)).toBe(2)
+			expect(state).toEqual({ n: 2 })
+		})
+
+		test('updates indexed and computed properties', () => {
+			const state = { scores: [1, 2], totals: { a: 1 } }
+			run(backend, 'scores[1] += 10\n\t\ttotals["a"] -= 1', state)
+			expect(state.scores).toEqual([1, 12])
+			expect(state.totals).toEqual({ a: 0 })
+		})
+
+		test('evaluates to the assigned value', () => {
+			expect(run(backend, 'let x = 2\n\t\tlet y = (x += 3)\n\t\t[x, y]')).toEqual([5, 5])
+		})
+
+		test('evaluates the target object and key once', () => {
+			const state: Record<string, unknown> = { calls: 0, list: [0, 0] }
+			run(backend, 'list[(calls += 1) - 1] += 5\n\t\tlist[calls++ - 1]++', state)
+			expect(state.calls).toBe(2)
+			expect(state.list).toEqual([6, 0])
+		})
+
+		test('forbidden keys stay guarded', () => {
+			expect(() => run(backend, 'let o = {}\n\t\to["__proto__"] += "x"')).toThrow()
+			expect(() => run(backend, 'this.constructor += 1')).toThrow()
+		})
+	})
+
+	describe(`Increment and decrement (${backend})`, () => {
+		test('prefix updates have the new value', () => {
+			const state = { count: 1 }
+			expect(run(backend, '[++count, --count, ++this.count]', state)).toEqual([2, 1, 2])
+			expect(state.count).toBe(2)
+		})
+
+		test('postfix updates have the previous value', () => {
+			const state = { count: 1 }
+			expect(run(backend, '[count++, count--, this.count++]', state)).toEqual([1, 2, 1])
+			expect(state.count).toBe(2)
+		})
+
+		test('postfix converts the previous value to a number', () => {
+			const state: Record<string, unknown> = { text: '5' }
+			expect(run(backend, 'text++', state)).toBe(5)
+			expect(state.text).toBe(6)
+		})
+
+		test('works as a for loop update', () => {
+			const result = run(
+				backend,
+				'let out = []\n\t\tfor let i = 0; i < 3; i++ { out.push(i) }\n\t\tfor let j = 2; j > 0; j -= 1 { out.push(j) }\n\t\tout',
+			)
+			expect(Array.from(result as unknown[])).toEqual([0, 1, 2, 2, 1])
+		})
+
+		test('updates array items', () => {
+			const state = { list: [1, 1] }
+			run(backend, 'list[0]++\n\t\t--list[1]', state)
+			expect(state.list).toEqual([2, 0])
+		})
+	})
+}
@@ -0,0 +1,153 @@
+/**
+ * Tests for return, break and continue:
+ * - Early return from nested if, for and block bodies
+ * - break and continue in both for loop forms
+ * - Syntax errors for break/continue outside loops
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+
+const CODE = `{
+	calcOp(op, a, b) {
+		if op == "+" { return a + b }
+		if op == "-" { return a - b }
+		if op == "*" {
+			return a * b
+		} elif op == "/" {
+			if b == 0 { return 0 }
+			return a / b
+		}
+		b
+	},
+	firstNegative(items) {
+		for let i = 0; i < items.length; i = i + 1 {
+			if items[i] < 0 {
+				return i
+			}
+		}
+		-1
+	},
+	sumUntil(items, stop) {
+		let total = 0
+		for let i = 0; i < items.length; i = i + 1 {
+			if items[i] == stop { break }
+			total = total + items[i]
+		}
+		total
+	},
+	sumOdd(limit) {
+		let total = 0
+		let i = 0
+		for i < limit {
+			i = i + 1
+			if i % 2 == 0 { continue }
+			total = total + i
+		}
+		total
+	},
+	nested() {
+		let pairs = []
+		for let i = 0; i < 3; i = i + 1 {
+			for let j = 0; j < 3; j = j + 1 {
+				if j > i { break }
+				if j == 1 { continue }
+				pairs.push([i, j])
+			}
+		}
+		pairs.map(p => p.join(":")).join(" ")
+	},
+	bare() {
+		this.before = 1
+		return
+		this.after = 1
+	},
+	callback(items) {
+		items.map(x => x * 2)
+		return items.length
+	}
+}`
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Control flow (${backend})`, () => {
+		const env = compileSeval(CODE, { backend })
+		const call = (name: string, ...args: unknown[]) =>
+			(env[name] as (...a: unknown[]) => unknown).apply({ ...env }, args)
+
+		test('return exits from nested if and elif bodies', () => {
+			expect(call('calcOp', '+', 6, 3)).toBe(9)
+			expect(call('calcOp', '-', 6, 3)).toBe(3)
+			expect(call('calcOp', '*', 6, 3)).toBe(18)
+			expect(call('calcOp', '/', 6, 3)).toBe(2)
+			expect(call('calcOp', '/', 6, 0)).toBe(0)
+			expect(call('calcOp', '?', 6, 3)).toBe(3)
+		})
+
+		test('return exits from inside a loop', () => {
+			expect(call('firstNegative', [3, 1, -2, -5])).toBe(2)
+			expect(call('firstNegative', [3, 1])).toBe(-1)
+		})
+
+		test('break leaves the loop', () => {
+			expect(call('sumUntil', [1, 2, 3, 4], 3)).toBe(3)
+			expect(call('sumUntil', [1, 2], 9)).toBe(3)
+		})
+
+		test('continue skips to the next iteration', () => {
+			expect(call('sumOdd', 6)).toBe(9)
+		})
+
+		test('break and continue apply to the innermost loop', () => {
+			expect(call('nested')).toBe('0:0 1:0 2:0 2:2')
+		})
+
+		test('return without a value returns null and skips the rest', () => {
+			const state: Record<string, unknown> = {}
+			expect((env.bare as () => unknown).call(state)).toBeNull()
+			expect(state).toEqual({ before: 1 })
+		})
+
+		test('statements after an arrow callback still run', () => {
+			expect(call('callback', [1, 2, 3])).toBe(3)
+		})
+
+		test('return, break and continue are still property names and object keys', () => {
+			const keys = compileSeval(
+				'{ return: 1, f() { let o = { break: 2, continue: 3 }\n this.return + o.break + o?.continue } }',
+				{ backend },
+			)
+			expect((keys.f as () => number).call(keys)).toBe(6)
+		})
+	})
+}
+
+describe('Control flow parsing', () => {
+	test('parses return with and without a value', () => {
+		const { program } = parseSeval('{ f() {\n\treturn 1 + 2\n\treturn\n} }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'BlockExpression',
+			statements: [
+				{ kind: 'ReturnStatement', value: { kind: 'BinaryExpression' } },
+				{ kind: 'ReturnStatement', value: undefined },
+			],
+		})
+	})
+
+	test('break outside a loop is a syntax error', () => {
+		expect(() => compileSeval('{\n  f() {\n    if true { break }\n  }\n}')).toThrow(
+			"'break' outside of a for loop at line 3, column 15",
+		)
+	})
+
+	test('continue outside a loop is a syntax error', () => {
+		expect(() => compileSeval('{ f() { continue } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('recovers after break outside a loop', () => {
+		const { diagnostics } = parseSeval('{\n  f() {\n    break\n    for true { break }\n  }\n}', {
+			recover: true,
+		})
+		expect(diagnostics.map((d) => d.message)).toEqual(["'break' outside of a for loop"])
+	})
+})
@@ -0,0 +1,161 @@
+/**
+ * Tests for the decimal arithmetic mode:
+ * - The Decimal class: parsing, exact arithmetic, division rounding and formatting
+ * - Number literals, + - * / % and comparisons are exact with arithmetic: 'decimal'
+ * - Decimals mix with numbers and strings, and zero decimals are falsy (also to array predicates)
+ * - The default float mode is unchanged
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { Decimal, type SevalBackend, compileSeval } from './src/seval'
+import { run as runBody } from './test-helpers'
+
+function run(backend: SevalBackend, body: string, state: Record<string, unknown> = {}): unknown {
+	return runBody(backend, body, state, { arithmetic: 'decimal' })
+}
+
+function decimal(value: string): Decimal {
+	const result = Decimal.from(value)
+	if (!result) throw new Error(`Not a decimal: ${value}`)
+	return result
+}
+
+describe('Decimal', () => {
+	test('parses strings, numbers and bigints', () => {
+		expect(decimal('-12.50').toString()).toBe('-12.5')
+		expect(decimal('1e-7').toString()).toBe('0.0000001')
+		expect(decimal('1.2E3').toString()).toBe('1200')
+		expect(Decimal.from(0.1)?.toString()).toBe('0.1')
+		expect(Decimal.from(10n)?.toString()).toBe('10')
+	})
+
+	test('rejects values that are not numbers', () => {
+		expect(Decimal.from('abc')).toBeNull()
+		expect(Decimal.from('')).toBeNull()
+		expect(Decimal.from(Number.NaN)).toBeNull()
+		expect(Decimal.from(Number.POSITIVE_INFINITY)).toBeNull()
+		expect(Decimal.from(null)).toBeNull()
+	})
+
+	test('adds, subtracts and multiplies exactly', () => {
+		expect(decimal('0.1').add(decimal('0.2')).toString()).toBe('0.3')
+		expect(decimal('0.3').sub(decimal('0.1')).toString()).toBe('0.2')
+		expect(decimal('1.1').mul(decimal('1.1')).toString()).toBe('1.21')
+	})
+
+	test('rounds quotients half away from zero', () => {
+		expect(decimal('1').div(decimal('3'))?.toString()).toBe('0.33333333333333333333')
+		expect(decimal('2').div(decimal('3'))?.toString()).toBe('0.66666666666666666667')
+		expect(decimal('-2').div(decimal('3'))?.toString()).toBe('-0.66666666666666666667')
+		expect(decimal('1').div(decimal('0'))).toBeNull()
+	})
+
+	test('keeps the sign of the dividend in remainders', () => {
+		expect(decimal('5.5').mod(decimal('2'))?.toString()).toBe('1.5')
+		expect(decimal('-5.5').mod(decimal('2'))?.toString()).toBe('-1.5')
+		expect(decimal('1').mod(decimal('0'))).toBeNull()
+	})
+
+	test('formats with a fixed number of places exactly', () => {
+		expect(decimal('1.005').toFixed(2)).toBe('1.01')
+		expect(decimal('-1.005').toFixed(2)).toBe('-1.01')
+		expect(decimal('2.5').toFixed()).toBe('3')
+		expect(decimal('3').toFixed(2)).toBe('3.00')
+	})
+
+	test('compares and converts to numbers', () => {
+		expect(decimal('0.30').compare(decimal('0.3'))).toBe(0)
+		expect(decimal('-1').compare(decimal('0.5'))).toBe(-1)
+		expect(decimal('0.1').toNumber()).toBe(0.1)
+		expect(JSON.stringify({ total: decimal('12.50') })).toBe('{"total":12.5}')
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Decimal arithmetic (${backend})`, () => {
+		test('adds without binary rounding errors', () => {
+			expect(run(backend, '0.1 + 0.2 == 0.3')).toBe(true)
+			expect(String(run(backend, '0.1 + 0.2'))).toBe('0.3')
+			expect(String(run(backend, '1.1 * 3 - 0.3'))).toBe('3')
+		})
+
+		test('mixes state numbers with decimal literals', () => {
+			const state = { price: 19.99, quantity: 3 }
+			expect(String(run(backend, 'price * quantity', state))).toBe('59.97')
+			expect(run(backend, 'price * quantity == 59.97', state)).toBe(true)
+		})
+
+		test('compares decimals and numbers by value', () => {
+			expect(run(backend, '[0.3 > 0.1 + 0.1, 1.5 <= 1.50, 2 === 2.0, 0.1 != 0.1]')).toEqual([
+				true,
+				true,
+				true,
+				false,
+			])
+		})
+
+		test('keeps number literals exactly as written', () => {
+			expect(String(run(backend, '12345678901234567891.5'))).toBe('12345678901234567891.5')
+			expect(String(run(backend, '0x1_0000_0000_0000_0001 + 1_000.25'))).toBe(
+				'18446744073709552617.25',
+			)
+			expect(String(run(backend, '1e21 + 0.5'))).toBe('1000000000000000000000.5')
+			expect(run(backend, 'match 0 - 255 { -0xff => "hex", _ => "other" }')).toBe('hex')
+		})
+
+		test('matches decimals against number patterns', () => {
+			expect(run(backend, 'match 0.1 + 0.2 { 0.3 => "exact", _ => "float" }')).toBe('exact')
+		})
+
+		test('zero decimals are falsy', () => {
+			const result = run(
+				backend,
+				'let zero = 0.5 - 0.5\n\t\t[!zero, zero || "empty", zero && "never", zero ? "yes" : "no"]',
+			)
+			const [not, or, and, branch] = result as unknown[]
+			expect([not, or, String(and), branch]).toEqual([true, 'empty', '0', 'no'])
+		})
+
+		test('array predicates test callback results like conditions', () => {
+			const result = run(
+				backend,
+				'[[0, 1, 2].filter(x => x % 2), [2, 4].some(x => x % 2), [1, 3].every(x => x % 2), [0, 1].findIndex(x => x)]',
+			)
+			const [odd, some, every, index] = result as unknown[]
+			expect([Array.from(odd as unknown[]).map(String), some, every, index]).toEqual([
+				['1'],
+				false,
+				true,
+				1,
+			])
+		})
+
+		test('updates counters exactly', () => {
+			const state: Record<string, unknown> = { total: 0.1 }
+			run(backend, 'total += 0.2\n\t\tcount = 0\n\t\tcount++', state)
+			expect(String(state.total)).toBe('0.3')
+			expect(String(state.count)).toBe('1')
+		})
+
+		test('negates and divides', () => {
+			expect(String(run(backend, '-(0.1 + 0.2)'))).toBe('-0.3')
+			expect(String(run(backend, '10 / 4'))).toBe('2.5')
+			expect(run(backend, '1 / 0')).toBe(Number.POSITIVE_INFINITY)
+		})
+
+		test('concatenates with strings', () => {
+			expect(run(backend, '"Total: " + (0.1 + 0.2)')).toBe('Total: 0.3')
+			expect(run(backend, '`${0.1 + 0.2}`')).toBe('0.3')
+		})
+
+		test('passes decimals to host functions as numbers', () => {
+			expect(run(backend, 'Math.round(2.5 * 2)')).toBe(5)
+			expect(run(backend, '(0.1 + 0.2).toFixed(2)')).toBe('0.30')
+		})
+
+		test('leaves the float mode unchanged', () => {
+			const env = compileSeval('{ run() { 0.1 + 0.2 } }', { backend })
+			expect((env.run as () => unknown)()).toBe(0.30000000000000004)
+		})
+	})
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for structured syntax diagnostics:
+ * - SevalSyntaxError with positions, severity and code frame
+ * - Recovering parse that reports every error at once
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	SevalSyntaxError,
+	Tokenizer,
+	compileSeval,
+	formatDiagnostic,
+	parseSeval,
+	renderCodeFrame,
+} from './src/seval'
+
+function syntaxError(source: string): SevalSyntaxError {
+	try {
+		compileSeval(source)
+	} catch (error) {
+		if (error instanceof SevalSyntaxError) return error
+		throw error
+	}
+	throw new Error('Expected a syntax error')
+}
+
+describe('SevalSyntaxError', () => {
+	test('parser errors carry start and end positions', () => {
+		const error = syntaxError('{\n  add(a, b) {\n    a +\n  }\n}')
+		expect(error.message).toBe('Unexpected token RBRACE at line 4, column 3')
+		expect(error.severity).toBe('error')
+		expect(error.loc).toEqual({ start: { line: 4, column: 3 }, end: { line: 4, column: 4 } })
+		expect(error.diagnostics).toHaveLength(1)
+	})
+
+	test('expect errors keep the familiar message', () => {
+		const error = syntaxError('{ f() { (1 + 2 } }')
+		expect(error.diagnostic.message).toBe('Expected RPAREN but got RBRACE')
+		expect(error.message).toBe('Expected RPAREN but got RBRACE at line 1, column 16')
+	})
+
+	test('spans cover the whole offending token', () => {
+		const error = syntaxError('{\n  display "0"\n}')
+		expect(error.diagnostic.message).toBe("Expected ':' or '(' after identifier 'display'")
+		expect(error.loc.start).toEqual({ line: 2, column: 3 })
+		expect(error.loc.end).toEqual({ line: 2, column: 10 })
+	})
+
+	test('renders a code frame pointing at the error', () => {
+		const error = syntaxError('{\n  a: 1,\n  b: 2 +* 3,\n  c: 4\n}')
+		expect(error.frame).toBe(
+			[
+				'  1 | {',
+				'  2 |   a: 1,',
+				'> 3 |   b: 2 +* 3,',
+				'    |         ^',
+				'  4 |   c: 4',
+				'  5 | }',
+			].join('\n'),
+		)
+	})
+
+	test('tokenizer errors are SevalSyntaxErrors', () => {
+		const error = syntaxError('{ a: 1 @ 2 }')
+		expect(error.diagnostic.message).toBe("Unexpected character '@'")
+		expect(error.loc).toEqual({ start: { line: 1, column: 8 }, end: { line: 1, column: 9 } })
+	})
+
+	test('unterminated strings are reported', () => {
+		const error = syntaxError('{ a: "open }')
+		expect(error.diagnostic.message).toBe('Unterminated string literal')
+		expect(error.loc.start).toEqual({ line: 1, column: 6 })
+	})
+
+	test('is an Error subclass', () => {
+		const error = syntaxError('{ ) }')
+		expect(error).toBeInstanceOf(Error)
+		expect(error.name).toBe('SevalSyntaxError')
+	})
+})
+
+describe('Recovering parse', () => {
+	const BROKEN = `{
+	count: 0,
+	add(a, b) {
+		this.total = a +* b
+		this.count = this.count + 1
+		foo(1, 2
+	}
+	label "x",
+	ok() { this.count },
+	bad() { 1 ] }
+}`
+
+	test('reports every error in one pass', () => {
+		const { diagnostics } = parseSeval(BROKEN, { recover: true })
+		expect(diagnostics.map((d) => [d.loc.start.line, d.message])).toEqual([
+			[4, 'Unexpected token STAR'],
+			[7, 'Unexpected token RBRACE'],
+			[8, "Expected ':' or '(' after identifier 'label'"],
+			[10, 'Unexpected token RBRACKET'],
+		])
+	})
+
+	test('keeps the members and statements that parsed', () => {
+		const { program } = parseSeval(BROKEN, { recover: true })
+		const names = program.members.map((m) => m.name)
+		expect(names).toEqual(['count', 'add', 'ok', 'bad'])
+
+		const add = program.members[1]
+		expect(add.kind === 'FunctionDef' && add.body.kind).toBe('AssignmentStatement')
+	})
+
+	test('includes tokenizer errors in source order', () => {
+		const { diagnostics } = parseSeval('{\n  a: 1 #,\n  b: ,\n}', { recover: true })
+		expect(diagnostics.map((d) => d.message)).toEqual([
+			"Unexpected character '#'",
+			'Unexpected token COMMA',
+		])
+	})
+
+	test('returns no diagnostics for valid code', () => {
+		const { program, diagnostics } = parseSeval('{ a: 1, f(x) { x * 2 } }', { recover: true })
+		expect(diagnostics).toEqual([])
+		expect(program.members).toHaveLength(2)
+	})
+
+	test('throws the first error when not recovering', () => {
+		expect(() => parseSeval(BROKEN)).toThrow(SevalSyntaxError)
+	})
+
+	test('tokenizer collects diagnostics when recovering', () => {
+		const tokenizer = new Tokenizer('a ^ b', { recover: true })
+		const tokens = tokenizer.tokenize()
+		expect(tokens.map((t) => t.value)).toEqual(['a', 'b', ''])
+		expect(tokenizer.diagnostics).toHaveLength(1)
+	})
+})
+
+describe('Formatting', () => {
+	test('formatDiagnostic prefixes file, position and severity', () => {
+		const { diagnostics } = parseSeval('{ a: ) }', { recover: true })
+		const [first] = diagnostics
+		expect(formatDiagnostic(first, 'calc.seval').split('\n')[0]).toBe(
+			'calc.seval:1:6 error: Unexpected token RPAREN',
+		)
+	})
+
+	test('code frame keeps tabs aligned', () => {
+		const frame = renderCodeFrame('{\n\tx: =\n}', {
+			start: { line: 2, column: 5 },
+			end: { line: 2, column: 6 },
+		})
+		expect(frame.split('\n')[2]).toBe('    | \t   ^')
+	})
+})
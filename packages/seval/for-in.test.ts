@@ -0,0 +1,151 @@
+/**
+ * Tests for collection loops:
+ * - for item in list, for key in object and for key, value in object
+ * - Loop variables are fresh per iteration and never written to this
+ * - break/continue, non-iterable values and syntax errors
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { run } from './test-helpers'
+
+describe('for-in parsing', () => {
+	test('parses a single loop variable', () => {
+		const { program } = parseSeval('{ f() { for item in items { item } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ForInStatement',
+			variables: ['item'],
+			iterable: { kind: 'Identifier', name: 'items' },
+		})
+	})
+
+	test('parses a key, value pair', () => {
+		const { program } = parseSeval('{ f() { for key, value in this.prices { key } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ForInStatement',
+			variables: ['key', 'value'],
+			iterable: { kind: 'MemberExpression' },
+		})
+	})
+
+	test('keeps conditional loops that use in-free conditions', () => {
+		const { program } = parseSeval('{ f() { for i < 3 { i } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({ kind: 'ForStatement' })
+	})
+
+	test('rejects the same name twice', () => {
+		expect(() => compileSeval('{\n  f() {\n    for x, x in items { x }\n  }\n}')).toThrow(
+			"'x' is already declared in this loop at line 3, column 12",
+		)
+	})
+
+	test('rejects this as a loop variable', () => {
+		expect(() => compileSeval('{ f() { for this in items { 1 } } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('in is a reserved word', () => {
+		expect(() => compileSeval('{ f() { let in = 1 } }')).toThrow(SevalSyntaxError)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`for-in (${backend})`, () => {
+		test('visits array items in order', () => {
+			const result = run(
+				backend,
+				'let out = []\n\t\tfor n in [3, 1, 2] { out.push(n * 10) }\n\t\tout',
+			)
+			expect(Array.from(result as unknown[])).toEqual([30, 10, 20])
+		})
+
+		test('pairs array items with their index', () => {
+			const result = run(
+				backend,
+				'let out = []\n\t\tfor i, s in ["a", "b"] { out.push(i + ":" + s) }\n\t\tout.join(" ")',
+			)
+			expect(result).toBe('0:a 1:b')
+		})
+
+		test('a single variable visits object keys', () => {
+			const result = run(
+				backend,
+				'let out = []\n\t\tfor k in { a: 1, b: 2 } { out.push(k) }\n\t\tout',
+			)
+			expect(Array.from(result as unknown[])).toEqual(['a', 'b'])
+		})
+
+		test('pairs object keys with their values', () => {
+			const state = { prices: { apple: 2, pear: 3 } }
+			const result = run(
+				backend,
+				'let total = 0\n\t\tfor name, price in prices { total = total + price }\n\t\ttotal',
+				state,
+			)
+			expect(result).toBe(5)
+		})
+
+		test('visits the characters of a string', () => {
+			const result = run(backend, 'let out = ""\n\t\tfor ch in "abc" { out = ch + out }\n\t\tout')
+			expect(result).toBe('cba')
+		})
+
+		test('loop variables are not written to this', () => {
+			const state: Record<string, unknown> = { item: 'state' }
+			expect(run(backend, 'for item in [1, 2] { this.last = item }\n\t\titem', state)).toBe('state')
+			expect(state).toEqual({ item: 'state', last: 2 })
+		})
+
+		test('each iteration gets its own binding', () => {
+			const result = run(
+				backend,
+				'let fns = []\n\t\tfor n in [1, 2, 3] { fns.push(() => n) }\n\t\tfns.map(f => f())',
+			)
+			expect(Array.from(result as unknown[])).toEqual([1, 2, 3])
+		})
+
+		test('iterates a snapshot of the collection', () => {
+			const state = { items: [1, 2] }
+			const result = run(backend, 'for n in items { items.push(n) }\n\t\titems.length', state)
+			expect(result).toBe(4)
+		})
+
+		test('supports break and continue', () => {
+			const result = run(
+				backend,
+				`let out = []
+		for n in [1, 2, 3, 4, 5] {
+			if n == 2 { continue }
+			if n == 4 { break }
+			out.push(n)
+		}
+		out`,
+			)
+			expect(Array.from(result as unknown[])).toEqual([1, 3])
+		})
+
+		test('return exits from inside the loop', () => {
+			expect(run(backend, 'for i, n in [4, -1, 3] { if n < 0 { return i } }\n\t\t-1')).toBe(1)
+		})
+
+		test('evaluates to null as the last statement', () => {
+			expect(run(backend, 'for n in [1] { n }')).toBeNull()
+		})
+
+		test('throws for values that cannot be iterated', () => {
+			expect(() => run(backend, 'for n in missing { n }')).toThrow('Cannot iterate over undefined')
+			expect(() => run(backend, 'for n in 42 { n }')).toThrow('Cannot iterate over number')
+		})
+
+		test('in is still a property name and object key', () => {
+			expect(
+				run(
+					backend,
+					'let o = { in: [1, 2] }\n\t\tlet sum = 0\n\t\tfor n in o.in { sum += n }\n\t\tsum + o?.in.length',
+				),
+			).toBe(5)
+		})
+	})
+}
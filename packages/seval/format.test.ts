@@ -0,0 +1,306 @@
+/**
+ * Tests for the canonical formatter:
+ * - Layout: indentation, spacing, commas, one-line bodies and groups that break when too wide
+ * - Parentheses and statement separators only where the parser needs them
+ * - Line comments and blank lines are kept
+ * - Formatting is idempotent and the output parses to the same AST
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { SevalSyntaxError, Tokenizer, formatSeval, parseSeval } from './src/seval'
+
+// Programs covering every syntax form, written in uneven styles
+const CORPUS = [
+	`{a:1,b   :  "x",c:[ ],d:{},
+	f(x){x*2},
+	  g( a,b ){ let t=a+b
+	t } }`,
+	`{
+	items: [1, 2, ...rest],
+	config: { name, "a-b": 1, 7: "seven", [key]: "v", method() { 1 }, ...defaults },
+	run(a, ...more) {
+		let [x, y] = pair
+		let { p, q: [r], ...others } = obj
+		[x, this.y] = [y, x]
+		count += 1; count++; --count
+		for let i = 0; i < 3; i++ { if (i == 1) { continue } elif i { break } else { -i } }
+		for item in items { total = total + item }
+		for k, v in obj { }
+		for this.count > 0 { this.count -= 1 }
+		try { throw { code: "E" } } catch (err) { null } finally { true }
+		try { a() } catch { b }
+		let label = match a { 1 => "one", -2 if big > 1 => \`many \${a}\`, _ => "none" }
+		let f = (v) => v?.w ?? obj?.[0]
+		let g = (...all) => { all.length }
+		return !a ? f?.(...more) : false
+	}
+}`,
+	'{ f() { a = (b + c) * d - (e - f) + -(-g) + -(-1); (a || b).c(); -x; x = y => ({ a: 1 }); n = (-1).toFixed(2); u = !(a && b) && (c ? d : e) } }',
+	'{ f() { a ?? (b || c); (a ?? b) || c; a - (b - c); (a - b) - c; (a = b) + 1; x = y = z; (x ? y : z) ? 1 : 2; x ? (y => y) : z } }',
+	`{ s: "a\\"b\\\\c\\n\\t\\r'", t() { \`x \\\` \\\${y} \${ { a: 1 }.a } $\\\\\` } }`,
+	`{ f() { match (x => x) { 1 => "a", _ => "b" } }, g() { for (v = x => x) { v } } }`,
+	'{ f() { reallyLongFunctionName(argumentNumberOne, argumentNumberTwo, { key: value, other: thing, third: 3 }) }, g() { this.total = firstValue * secondValue + thirdValue * fourthValue - fifthValue / sixthValue + seventhValue } }',
+	`// header
+
+{
+	// leading
+	a: 1, // trailing
+	b: [1, // one
+		2],
+
+
+	f() {
+		x = 1 // set x
+
+		// dangling
+	},
+	g() {
+		// only comment
+	},
+	h() { match x {
+		1 => "one" // the first
+		// more later
+		_ => "other"
+	} },
+	k() { compute(a, // first
+		b) }
+} // end
+// eof`,
+	`// libraries
+import {formatNum,hasDecimal   as isDecimal} from "numfmt" // formatting
+import {  } from 'empty'
+// the program
+{ show(n) { formatNum(n) } }`,
+]
+
+function withoutLocs(source: string): string {
+	return JSON.stringify(parseSeval(source).program, (key, value) =>
+		key === 'loc' ? undefined : value,
+	)
+}
+
+describe('Layout', () => {
+	test('prints one member or statement per line with canonical spacing', () => {
+		expect(formatSeval(CORPUS[0])).toBe(`{
+  a: 1,
+  b: "x",
+  c: [],
+  d: {},
+  f(x) { x * 2 },
+  g(a, b) {
+    let t = a + b
+    t
+  }
+}
+`)
+	})
+
+	test('prints control flow with blocks on their own lines', () => {
+		const source =
+			'{ f() { for let i = 0; i < 3; i++ { if i { continue } else { if (j) { k } else { break } } }; try { g() } catch (e) { h(e) } } }'
+		expect(formatSeval(source)).toBe(`{
+  f() {
+    for let i = 0; i < 3; i++ {
+      if (i) {
+        continue
+      } elif (j) {
+        k
+      } else {
+        break
+      }
+    }
+    try {
+      g()
+    } catch (e) {
+      h(e)
+    }
+  }
+}
+`)
+	})
+
+	test('keeps objects and match expressions expanded when their first entry was on a new line', () => {
+		const source = '{ a: {\n x: 1 }, b: { x: 1 }, f() { match x {\n 1 => "a"\n _ => "b" } } }'
+		expect(formatSeval(source)).toBe(`{
+  a: {
+    x: 1
+  },
+  b: { x: 1 },
+  f() {
+    match x {
+      1 => "a",
+      _ => "b"
+    }
+  }
+}
+`)
+	})
+
+	test('breaks groups that do not fit the print width', () => {
+		expect(formatSeval(CORPUS[6], { printWidth: 60 })).toBe(`{
+  f() {
+    reallyLongFunctionName(
+      argumentNumberOne,
+      argumentNumberTwo,
+      { key: value, other: thing, third: 3 }
+    )
+  },
+  g() {
+    this.total = firstValue * secondValue +
+      thirdValue * fourthValue -
+      fifthValue / sixthValue +
+      seventhValue
+  }
+}
+`)
+	})
+
+	test('lets the last argument break instead of the argument list', () => {
+		const source =
+			'{ f() { items.map(item => { let y = item * 2\n y + 1 }) }, g() { set("mode", match m { 1 => "one", 2 => "two", _ => "many, many more than two" }) } }'
+		expect(formatSeval(source, { printWidth: 60 })).toBe(`{
+  f() {
+    items.map(item => {
+      let y = item * 2
+      y + 1
+    })
+  },
+  g() {
+    set("mode", match m {
+      1 => "one",
+      2 => "two",
+      _ => "many, many more than two"
+    })
+  }
+}
+`)
+	})
+
+	test('uses the indent option', () => {
+		expect(formatSeval('{ f() { if a { b } } }', { indent: '\t' })).toBe(
+			'{\n\tf() {\n\t\tif (a) {\n\t\t\tb\n\t\t}\n\t}\n}\n',
+		)
+	})
+})
+
+describe('Parentheses and separators', () => {
+	test('keeps only the parentheses precedence needs', () => {
+		expect(formatSeval('{ f() { (a + (b * c)) - (d - e) + ((f)) } }')).toBe(
+			'{\n  f() { a + b * c - (d - e) + f }\n}\n',
+		)
+	})
+
+	test('starts statements that would continue the previous one with a semicolon', () => {
+		expect(formatSeval('{ f() { a = b; (c || d).e(); -f } }')).toBe(
+			'{\n  f() {\n    a = b\n    ;(c || d).e()\n    ;-f\n  }\n}\n',
+		)
+	})
+
+	test('wraps arrow bodies that would read as blocks', () => {
+		expect(formatSeval('{ f() { x => ({ a: 1 }) } }')).toBe('{\n  f() { x => ({ a: 1 }) }\n}\n')
+	})
+
+	test('escapes strings and template text', () => {
+		expect(formatSeval(CORPUS[4])).toBe(
+			'{\n  s: "a\\"b\\\\c\\n\\t\\r\'",\n  t() { `x \\` \\${y} ${{ a: 1 }.a} $\\\\` }\n}\n',
+		)
+	})
+
+	test('keeps number literals as written', () => {
+		expect(
+			formatSeval('{ f() { [0xff, 0b1010, 0o17, 1_000, 1e21, 2.5E-3, 12345678901234567891.5] } }'),
+		).toBe('{\n  f() { [0xff, 0b1010, 0o17, 1_000, 1e21, 2.5E-3, 12345678901234567891.5] }\n}\n')
+		expect(formatSeval('{ f() { match x { -0xff => 1, -1_000 => 2, _ => 3 } } }')).toBe(
+			'{\n  f() { match x { -0xff => 1, -1_000 => 2, _ => 3 } }\n}\n',
+		)
+	})
+
+	test('quotes keys that are not names or plain numbers', () => {
+		expect(formatSeval('{ o: { "if": 1, "01": 2, 3: 3, "a b": 4, c: c } }')).toBe(
+			'{\n  o: { "if": 1, "01": 2, 3: 3, "a b": 4, c }\n}\n',
+		)
+	})
+})
+
+describe('Comments', () => {
+	test('keeps leading, trailing and dangling comments and single blank lines', () => {
+		expect(formatSeval(CORPUS[7])).toBe(`// header
+
+{
+  // leading
+  a: 1, // trailing
+  b: [
+    1, // one
+    2
+  ],
+
+  f() {
+    x = 1 // set x
+
+    // dangling
+  },
+  g() {
+    // only comment
+  },
+  h() {
+    match x {
+      1 => "one", // the first
+      // more later
+      _ => "other"
+    }
+  },
+  k() {
+    compute(
+      a, // first
+      b
+    )
+  }
+} // end
+// eof
+`)
+	})
+
+	test('prints one import per line, then a blank line before the program', () => {
+		expect(formatSeval(CORPUS[8])).toBe(`// libraries
+import { formatNum, hasDecimal as isDecimal } from "numfmt" // formatting
+import {} from "empty"
+
+// the program
+{
+  show(n) { formatNum(n) }
+}
+`)
+	})
+
+	test('moves comments inside an expression after it', () => {
+		expect(formatSeval('{ f() {\n  a = b + // why\n    c\n} }')).toBe(
+			'{\n  f() {\n    a = b + c // why\n  }\n}\n',
+		)
+	})
+
+	test('the tokenizer collects comments instead of returning them as tokens', () => {
+		const tokenizer = new Tokenizer('{ a: 1 // one\n}')
+		const tokens = tokenizer.tokenize()
+		expect(tokens.map((token) => token.value)).not.toContain('// one')
+		expect(tokenizer.comments).toEqual([
+			{ value: ' one', line: 1, column: 8, endLine: 1, endColumn: 14 },
+		])
+	})
+})
+
+describe('Round trip', () => {
+	CORPUS.forEach((source, i) => {
+		test(`program ${i} formats to the same AST, idempotently`, () => {
+			const formatted = formatSeval(source)
+			expect(withoutLocs(formatted)).toBe(withoutLocs(source))
+			expect(formatSeval(formatted)).toBe(formatted)
+			const narrow = formatSeval(source, { printWidth: 20 })
+			expect(withoutLocs(narrow)).toBe(withoutLocs(source))
+			expect(formatSeval(narrow, { printWidth: 20 })).toBe(narrow)
+		})
+	})
+
+	test('throws SevalSyntaxError for invalid source', () => {
+		expect(() => formatSeval('{ a: 1 +* 2 }')).toThrow(SevalSyntaxError)
+	})
+})
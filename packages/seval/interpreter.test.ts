@@ -0,0 +1,181 @@
+/**
+ * Tests for the tree-walking interpreter backend.
+ * Every program runs on both backends and must produce identical results.
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, compileSeval, executeSeval } from './src/seval'
+
+const BACKENDS: SevalBackend[] = ['compiler', 'interpreter']
+
+const PROGRAM = `{
+	count: 0,
+	items: [1, 2, 3],
+	config: { step: 2, label: "n" },
+
+	hasDecimal(s) { String(s).includes(".") },
+	negateStr(s) { s == "0" ? "0" : s.startsWith("-") ? s.substring(1) : "-" + s },
+	formatNum(n) { String(Math.round(n * 1000000000) / 1000000000) },
+	calcOp(op, a, b) {
+		formatNum(
+			op == "+" ? Number.parseFloat(a) + Number.parseFloat(b) :
+			op == "-" ? Number.parseFloat(a) - Number.parseFloat(b) :
+			Number.parseFloat(b)
+		)
+	},
+	scaled(factor) { items.map(x => x * factor + config.step) },
+	evens(list) { list.filter(n => n % 2 == 0) },
+	total(list) { list.reduce((a, b) => a + b, 0) },
+	sumTo(n) {
+		this.acc = 0
+		for i = 0; i < n; i = i + 1 {
+			this.acc = this.acc + i
+		}
+		this.acc
+	},
+	countdown() {
+		for this.count > 0 {
+			this.count = this.count - 1
+		}
+	},
+	classify(v) {
+		if v > 0 {
+			"positive"
+		} elif v < 0 {
+			"negative"
+		} else {
+			"zero"
+		}
+	},
+	maybe(v) {
+		if v { "yes" }
+	},
+	logic(a, b) { [a && b, a || b, !a, -b, a == b, a === b, a != b, a !== b] },
+	compare(a, b) { [a < b, a <= b, a > b, a >= b] },
+	merged() { merge({ a: 1 }, { b: 2 }) },
+	lookup(obj, key) { get(obj, key) },
+	setNested(key, v) {
+		this.config[key] = v
+		this.config.label = "set"
+	},
+	increment() { this.count = this.count + config.step }
+}`
+
+function run(backend: SevalBackend, name: string, args: unknown[] = [], state?: object) {
+	const env = compileSeval(PROGRAM, { backend })
+	return executeSeval(env, name, args, state as Record<string, unknown>)
+}
+
+describe('Interpreter backend', () => {
+	test('properties evaluate identically', () => {
+		const compiled = compileSeval(PROGRAM)
+		const interpreted = compileSeval(PROGRAM, { backend: 'interpreter' })
+		expect(interpreted.count).toBe(compiled.count)
+		expect(interpreted.items).toEqual(compiled.items as unknown[])
+		expect(interpreted.config).toEqual(compiled.config as object)
+	})
+
+	const cases: Array<[string, unknown[]]> = [
+		['hasDecimal', ['3.14']],
+		['negateStr', ['-5']],
+		['negateStr', ['0']],
+		['formatNum', [0.1 + 0.2]],
+		['calcOp', ['+', '5', '3']],
+		['calcOp', ['-', '10', '3']],
+		['calcOp', ['?', '1', '7']],
+		['scaled', [10]],
+		['evens', [[1, 2, 3, 4]]],
+		['total', [[1, 2, 3, 4]]],
+		['sumTo', [10]],
+		['classify', [5]],
+		['classify', [-5]],
+		['classify', [0]],
+		['maybe', [true]],
+		['maybe', [false]],
+		['logic', [0, '']],
+		['logic', [1, '1']],
+		['compare', [1, 2]],
+		['compare', ['b', 'a']],
+		['merged', []],
+		['lookup', [{ a: 1 }, 'a']],
+		['lookup', [null, 'a']],
+	]
+
+	for (const [name, args] of cases) {
+		test(`${name}(${JSON.stringify(args)}) matches the compiler`, () => {
+			const expected = run('compiler', name, args)
+			const actual = run('interpreter', name, args)
+			expect(actual).toEqual(expected)
+		})
+	}
+
+	test('state updates match the compiler', () => {
+		// Serialize to compare data only (the updated state also lists the env's methods)
+		const updates = (backend: SevalBackend, name: string, args: unknown[]) =>
+			JSON.stringify(run(backend, name, args, { count: 3, config: { step: 2, label: 'n' } }))
+
+		for (const name of ['increment', 'countdown', 'setNested']) {
+			const args = name === 'setNested' ? ['step', 5] : []
+			expect(updates('interpreter', name, args)).toBe(updates('compiler', name, args))
+		}
+	})
+
+	test('method calls keep their receiver', () => {
+		const env = compileSeval(
+			`{
+				name: "seval",
+				greet() { "hi " + this.name },
+				relay() { greet() }
+			}`,
+			{ backend: 'interpreter' },
+		)
+		expect(env.relay()).toBe('hi seval')
+	})
+
+	test('arrow functions see enclosing parameters', () => {
+		for (const backend of BACKENDS) {
+			const env = compileSeval('{ offset(list, d) { list.map(x => x + d) } }', { backend })
+			expect(executeSeval(env, 'offset', [[1, 2], 10])).toEqual([11, 12])
+		}
+	})
+
+	test('methods called without a receiver have no this', () => {
+		const source = `{
+	k: 3,
+	double(x) { x * 2 },
+	scale(x) { x * k },
+	mapped() { [1, 2].map(double) },
+	unbound() { [1, 2].map(scale) },
+	nulled() { scale.call(null, 1) }
+}`
+		for (const backend of BACKENDS) {
+			const env = compileSeval(source, { backend }) as Record<string, () => unknown>
+			expect(Array.from(env.mapped() as unknown[])).toEqual([2, 4])
+			expect(() => env.unbound()).toThrow(TypeError)
+			expect(() => env.nulled()).toThrow(TypeError)
+		}
+	})
+
+	test('calling a non-function throws a TypeError', () => {
+		const env = compileSeval('{ bad() { missing(1) } }', { backend: 'interpreter' })
+		expect(() => env.bad()).toThrow(TypeError)
+	})
+
+	test('evaluates property initializers like the compiler', () => {
+		expect(compileSeval('{ x: 1 + 2 }', { backend: 'interpreter' }).x).toBe(3)
+	})
+
+	test('never constructs functions from strings', () => {
+		const NativeFunction = globalThis.Function
+		globalThis.Function = (() => {
+			throw new Error('eval is disabled')
+		}) as unknown as FunctionConstructor
+		try {
+			const env = compileSeval(PROGRAM, { backend: 'interpreter' })
+			expect(executeSeval(env, 'calcOp', ['+', '1', '2'])).toBe('3')
+			expect(() => compileSeval(PROGRAM)).toThrow('eval is disabled')
+		} finally {
+			globalThis.Function = NativeFunction
+		}
+	})
+})
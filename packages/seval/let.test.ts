@@ -0,0 +1,184 @@
+/**
+ * Tests for let declarations:
+ * - Locals stay out of this (and out of the state executeSeval returns)
+ * - Lexical block scoping, shadowing and closures
+ * - for let loops with per-iteration bindings
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type SevalBackend,
+	SevalSyntaxError,
+	compileSeval,
+	executeSeval,
+	parseSeval,
+} from './src/seval'
+import { run } from './test-helpers'
+
+describe('let parsing', () => {
+	test('parses a let declaration with an initial value', () => {
+		const { program } = parseSeval('{ f() { let x = 1 + 2 } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'LetDeclaration',
+			name: 'x',
+			value: { kind: 'BinaryExpression', operator: '+' },
+		})
+	})
+
+	test('parses let in a for loop initializer', () => {
+		const { program } = parseSeval('{ f() { for let i = 0; i < 3; i = i + 1 { i } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ForStatement',
+			init: { kind: 'LetDeclaration', name: 'i' },
+		})
+	})
+
+	test('rejects a second declaration in the same block', () => {
+		expect(() => compileSeval('{\n  f() {\n    let x = 1\n    let x = 2\n  }\n}')).toThrow(
+			"'x' is already declared in this block at line 4, column 5",
+		)
+	})
+
+	test('rejects let this', () => {
+		expect(() => compileSeval('{ f() { let this = 1 } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('let is a reserved word', () => {
+		expect(() => compileSeval('{ f() { let = 1 } }')).toThrow(SevalSyntaxError)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`let (${backend})`, () => {
+		test('declares a local that is not written to this', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, 'let x = 20\n\t\tthis.y = x + 1\n\t\tx * 2', state)).toBe(40)
+			expect(state).toEqual({ y: 21 })
+		})
+
+		test('assignments to a let binding stay local', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, 'let total = 1\n\t\ttotal = total + 1\n\t\ttotal', state)).toBe(2)
+			expect(state).toEqual({})
+		})
+
+		test('defaults to null', () => {
+			expect(run(backend, 'let x\n\t\tx')).toBeNull()
+		})
+
+		test('shadows state and primitives', () => {
+			const state = { count: 5 }
+			expect(run(backend, 'let count = 1\n\t\tlet Math = 2\n\t\tcount + Math', state)).toBe(3)
+			expect(state).toEqual({ count: 5 })
+		})
+
+		test('is scoped to its block', () => {
+			const state: Record<string, unknown> = { x: 'state' }
+			const result = run(
+				backend,
+				`let x = "outer"
+		if true {
+			let x = "inner"
+			this.seen = x
+		}
+		[x, seen]`,
+				state,
+			)
+			expect(Array.from(result as unknown[])).toEqual(['outer', 'inner'])
+			expect(state.x).toBe('state')
+		})
+
+		test('block locals are not visible after the block', () => {
+			const state = { y: 'state' }
+			expect(run(backend, 'if true { let y = 1 }\n\t\ty', state)).toBe('state')
+		})
+
+		test('arrows capture the binding, not its value', () => {
+			expect(run(backend, 'let n = 0\n\t\tlet f = () => n\n\t\tn = 5\n\t\tf()')).toBe(5)
+		})
+
+		test('reading a binding before its declaration throws', () => {
+			expect(() => run(backend, 'this.y = 1\n\t\tlet z = y\n\t\tlet y = 2')).toThrow(ReferenceError)
+		})
+
+		test('names that are reserved in JavaScript work', () => {
+			expect(run(backend, 'let class = 1\n\t\tlet primitives = 2\n\t\tclass + primitives')).toBe(3)
+		})
+
+		test('a body can shadow its parameters', () => {
+			const env = compileSeval(
+				`{
+	f(x) {
+		let x = 1
+		x
+	},
+	g(...rest) {
+		let rest = 2
+		rest
+	},
+	h() {
+		let arrow = (y) => { let y = 3
+			y }
+		let o = { m(z) { let z = 4
+			z } }
+		arrow(0) + o.m(0)
+	}
+}`,
+				{ backend },
+			)
+			const { f, g, h } = env as Record<string, (...args: unknown[]) => unknown>
+			expect(f(9)).toBe(1)
+			expect(g(9)).toBe(2)
+			expect(h()).toBe(7)
+		})
+
+		test('let is still a property name and object key', () => {
+			expect(
+				run(backend, 'let o = { let: 1 }\n\t\tlet { let: x } = o\n\t\to.let + o?.let + x'),
+			).toBe(3)
+			expect(compileSeval('{ let: 2 }', { backend }).let).toBe(2)
+		})
+
+		test('for let gives each iteration its own binding', () => {
+			const result = run(
+				backend,
+				`let fns = []
+		for let i = 0; i < 3; i = i + 1 {
+			fns.push(() => i)
+		}
+		fns.map(f => f())`,
+			)
+			expect(Array.from(result as unknown[])).toEqual([0, 1, 2])
+		})
+
+		test('for let variables are scoped to the loop', () => {
+			const state: Record<string, unknown> = {}
+			const result = run(
+				backend,
+				'let sum = 0\n\t\tfor let i = 1; i <= 4; i = i + 1 { sum = sum + i }\n\t\tsum',
+				state,
+			)
+			expect(result).toBe(10)
+			expect(state).toEqual({})
+		})
+
+		test('temporaries do not leak into the state returned by executeSeval', () => {
+			const env = compileSeval(
+				`{
+	calcOp(a, b) { a + b },
+	action_equals() {
+		let result = calcOp(memory, display)
+		this.display = result
+		this.memory = 0
+	}
+}`,
+				{ backend },
+			)
+			const updated = executeSeval(env, 'action_equals', [], { memory: 1, display: 2 })
+			expect(updated).toMatchObject({ memory: 0, display: 3 })
+			expect(updated).not.toHaveProperty('result')
+		})
+	})
+}
@@ -0,0 +1,189 @@
+/**
+ * Tests for the static analyzer:
+ * - Names resolve like the backends: locals, then primitives, then members and state keys
+ * - Each rule reports with its id, severity and loc span
+ * - Unused functions and action handlers, given the UI's action names
+ * - Rule severities can be changed or turned off
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type LintOptions, formatDiagnostic, lintSeval, parseSeval } from './src/seval'
+
+function lint(source: string, options: LintOptions = {}) {
+	return lintSeval(parseSeval(source).program, options).map(({ rule, severity, message }) => ({
+		rule,
+		severity,
+		message,
+	}))
+}
+
+function rules(source: string, options: LintOptions = {}): string[] {
+	return lint(source, options).map((diagnostic) => diagnostic.rule)
+}
+
+describe('Name resolution', () => {
+	test('accepts members, state keys, locals and primitives', () => {
+		const source = `{
+  total: 0,
+  add(a, ...more) {
+    let sum = a + Math.max(0, ...more)
+    for item in more { sum += item }
+    for let i = 0; i < 2; i++ { sum = sum + i }
+    try { sum = merge({}, get(items, 0)) } catch (e) { e.message }
+    let [x, { y }] = pair
+    this.total = total + sum + x + y + double(sum)
+  },
+  double(n) { [n].map(v => v * 2)[0] },
+  action_reset() { total = 0 }
+}`
+		expect(lint(source, { stateKeys: ['items', 'pair'], actionNames: ['add', 'reset'] })).toEqual(
+			[],
+		)
+	})
+
+	test('reports reads and writes of unknown names', () => {
+		const source = '{ count: 0, action_inc() { cuont = count + 1; this.label = `${this.cout}` } }'
+		expect(lint(source)).toEqual([
+			{
+				rule: 'undefined-name',
+				severity: 'warning',
+				message: "Assignment to unknown state 'cuont': not a member or state key",
+			},
+			{
+				rule: 'undefined-name',
+				severity: 'warning',
+				message: "Assignment to unknown state 'label': not a member or state key",
+			},
+			{
+				rule: 'undefined-name',
+				severity: 'warning',
+				message: "Unknown name 'cout': not a member or state key",
+			},
+		])
+	})
+
+	test('assigning a parameter writes state, a let binding does not', () => {
+		expect(rules('{ action_f(value) { value = 1 } }')).toEqual(['undefined-name'])
+		expect(rules('{ action_f() { let value = 0\n value = 1 } }')).toEqual([])
+	})
+
+	test('let bindings are visible throughout their block only', () => {
+		expect(rules('{ action_f() { later = 1\n let later = 0 } }')).toEqual([])
+		expect(rules('{ action_f() { if (true) { let inner = 1 }\n inner } }')).toEqual([
+			'undefined-name',
+		])
+	})
+
+	test('imported names are defined, and shadowing a primitive is reported at the import', () => {
+		const source = 'import { formatNum, pad as get } from "numfmt"\n{ show(n) { formatNum(n) } }'
+		expect(lint(source, { actionNames: [] })).toEqual([
+			{
+				rule: 'shadowed-primitive',
+				severity: 'warning',
+				message: "Import 'get' is shadowed by the primitive get; import it with another name",
+			},
+			{ rule: 'unused-function', severity: 'warning', message: "Function 'show' is never called" },
+		])
+	})
+
+	test('does not check names on this inside object literal methods', () => {
+		expect(rules('{ action_f() { { n: 1, m() { this.n + n + helper() } } } }')).toEqual([])
+	})
+})
+
+describe('Rules', () => {
+	test('undefined-function is an error at the call', () => {
+		const source = '{\n  action_go() {\n    sendMail(to)\n  }\n}'
+		const [diagnostic] = lintSeval(parseSeval(source).program, { source, stateKeys: ['to'] })
+		expect(diagnostic).toMatchObject({
+			rule: 'undefined-function',
+			severity: 'error',
+			message: "Call to undefined function 'sendMail'",
+			loc: { start: { line: 3, column: 5 }, end: { line: 3, column: 13 } },
+		})
+		expect(formatDiagnostic(diagnostic, 'mail.seval')).toBe(
+			[
+				"mail.seval:3:5 error: Call to undefined function 'sendMail'",
+				'  1 | {',
+				'  2 |   action_go() {',
+				'> 3 |     sendMail(to)',
+				'    |     ^^^^^^^^',
+				'  4 |   }',
+				'  5 | }',
+			].join('\n'),
+		)
+	})
+
+	test('undefined-function covers this.name calls and not state keys', () => {
+		expect(rules('{ action_go() { this.refresh() } }')).toEqual(['undefined-function'])
+		expect(rules('{ action_go() { send("a", 1) } }', { stateKeys: ['send'] })).toEqual([])
+	})
+
+	test('knows the helpers the runtime injects without stateKeys', () => {
+		const source = '{ action_go() { set("a", getData("b")); setData("c", context.value) } }'
+		expect(rules(source)).toEqual([])
+	})
+
+	test('shadowed-primitive reports members and state keys named like primitives', () => {
+		expect(lint('{ get: 1, action_a() { this.get } }')).toEqual([
+			{
+				rule: 'shadowed-primitive',
+				severity: 'warning',
+				message: "Member 'get' is shadowed by the primitive get; use this.get",
+			},
+		])
+		expect(lint('{ action_a() { merge.x } }', { stateKeys: ['merge'] })).toEqual([
+			{
+				rule: 'shadowed-primitive',
+				severity: 'warning',
+				message: "'merge' is the primitive, not the state key merge; use this.merge",
+			},
+		])
+	})
+
+	test('unused-function reports methods nothing calls', () => {
+		const source =
+			'{ a() { b() }, b() { 1 }, c() { 2 }, d() { 3 }, e() { this.d }, action_x() { a() + e() } }'
+		expect(lint(source)).toEqual([
+			{ rule: 'unused-function', severity: 'warning', message: "Function 'c' is never called" },
+		])
+		expect(rules(source, { actionNames: ['x', 'c'] })).toEqual([])
+	})
+
+	test('unused-action reports handlers for actions the UI never dispatches', () => {
+		const source = '{ action_equals() { 1 }, action_clear() { 2 }, updateDerived() { 3 } }'
+		// The runtime calls updateDerived after every action
+		expect(rules(source)).toEqual([])
+		expect(lint(source, { actionNames: ['equals'] })).toEqual([
+			{
+				rule: 'unused-action',
+				severity: 'warning',
+				message: "Action handler 'action_clear' is not referenced by any action",
+			},
+		])
+	})
+})
+
+describe('Options', () => {
+	test('changes rule severities and turns rules off', () => {
+		const source = '{ action_go() { helper(typo) } }'
+		expect(
+			lint(source, { rules: { 'undefined-name': 'error', 'undefined-function': 'off' } }),
+		).toEqual([
+			{
+				rule: 'undefined-name',
+				severity: 'error',
+				message: "Unknown name 'typo': not a member or state key",
+			},
+		])
+	})
+
+	test('reports in source order with a frame only when source is given', () => {
+		const { program } = parseSeval('{ unused() { 1 }, action_a() { x } }')
+		const diagnostics = lintSeval(program)
+		expect(diagnostics.map((d) => [d.rule, d.loc.start.column, d.frame])).toEqual([
+			['unused-function', 3, ''],
+			['undefined-name', 32, ''],
+		])
+	})
+})
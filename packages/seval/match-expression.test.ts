@@ -0,0 +1,149 @@
+/**
+ * Tests for match expressions:
+ * - Literal patterns compared with ===, guards and the _ wildcard
+ * - First matching arm wins; no match gives null; the subject is evaluated once
+ * - Unreachable arms after _ or a repeated literal are syntax errors
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, parseSeval } from './src/seval'
+import { run } from './test-helpers'
+
+function syntaxError(source: string): SevalSyntaxError {
+	try {
+		parseSeval(source)
+	} catch (error) {
+		if (error instanceof SevalSyntaxError) return error
+		throw error
+	}
+	throw new Error('Expected a syntax error')
+}
+
+describe('Match parsing', () => {
+	test('parses arms with patterns, guards and the wildcard', () => {
+		const { program } = parseSeval('{ f() { match op { "+" => a + b, -1 if ok => 0, _ => b } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'MatchExpression',
+			subject: { kind: 'Identifier', name: 'op' },
+			arms: [
+				{ pattern: { kind: 'StringLiteral', value: '+' }, body: { kind: 'BinaryExpression' } },
+				{
+					pattern: { kind: 'NumberLiteral', value: -1 },
+					guard: { kind: 'Identifier', name: 'ok' },
+				},
+				{ body: { kind: 'Identifier', name: 'b' } },
+			],
+		})
+		const arms = f.kind === 'FunctionDef' && f.body.kind === 'MatchExpression' ? f.body.arms : []
+		expect(arms[2]).not.toHaveProperty('pattern')
+	})
+
+	test('arms can be separated by newlines', () => {
+		const { program } = parseSeval(
+			'{ f() {\n\tmatch x {\n\t\t1 => "one"\n\t\t2 => "two"\n\t\t_ => "many"\n\t}\n} }',
+		)
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'MatchExpression',
+			arms: [{ pattern: { value: 1 } }, { pattern: { value: 2 } }, {}],
+		})
+	})
+
+	test('reports arms after the wildcard', () => {
+		const error = syntaxError('{ f() {\n\tmatch x {\n\t\t_ => 0,\n\t\t1 => 1\n\t}\n} }')
+		expect(error.diagnostic.message).toBe("Unreachable match arm: '_' above matches every value")
+		expect(error.loc.start).toEqual({ line: 4, column: 3 })
+	})
+
+	test('a guarded wildcard does not make later arms unreachable', () => {
+		expect(() => parseSeval('{ f() { match x { _ if x > 1 => 0, _ => 1 } } }')).not.toThrow()
+	})
+
+	test('reports a literal that is already matched', () => {
+		expect(() => parseSeval('{ f() { match x { "a" => 0, "a" => 1 } } }')).toThrow(
+			'Unreachable match arm: "a" is matched above',
+		)
+		expect(() => parseSeval('{ f() { match x { null => 0, null if y => 1 } } }')).toThrow(
+			'Unreachable match arm: null is matched above',
+		)
+		expect(() => parseSeval('{ f() { match x { 1 if y => 0, 1 => 1, "1" => 2 } } }')).not.toThrow()
+	})
+
+	test('rejects patterns that are not literals', () => {
+		expect(() => parseSeval('{ f() { match x { y => 0 } } }')).toThrow(
+			"A match pattern must be a literal or '_'",
+		)
+		expect(() => parseSeval('{ f() { match x { [1] => 0 } } }')).toThrow(SevalSyntaxError)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Match (${backend})`, () => {
+		const calc = (op: string, a: number, b: number) =>
+			run(
+				backend,
+				`match op {\n\t\t\t"+" => a + b,\n\t\t\t"-" => a - b,\n\t\t\t"/" if b == 0 => 0,\n\t\t\t"/" => a / b,\n\t\t\t_ => b\n\t\t}`,
+				{ op, a, b },
+			)
+
+		test('chooses the arm whose pattern equals the subject', () => {
+			expect(calc('+', 6, 3)).toBe(9)
+			expect(calc('-', 6, 3)).toBe(3)
+			expect(calc('/', 6, 3)).toBe(2)
+		})
+
+		test('skips arms whose guard fails', () => {
+			expect(calc('/', 6, 0)).toBe(0)
+		})
+
+		test('the wildcard matches everything else', () => {
+			expect(calc('?', 6, 3)).toBe(3)
+		})
+
+		test('compares strictly', () => {
+			expect(run(backend, 'match "1" { 1 => "number", "1" => "string" }')).toBe('string')
+			expect(run(backend, 'match missing { null => "null", _ => "other" }')).toBe('other')
+			expect(run(backend, 'match -2 { -2 => "minus two", _ => "other" }')).toBe('minus two')
+			expect(run(backend, 'match 1 > 0 { true => "yes", false => "no" }')).toBe('yes')
+		})
+
+		test('is null when no arm matches', () => {
+			expect(run(backend, 'match 3 { 1 => "one", 2 => "two" }')).toBeNull()
+		})
+
+		test('evaluates the subject once and only the chosen body', () => {
+			const state = { calls: 0, hits: 0 }
+			run(backend, 'match (calls += 1) { 1 => hits += 1, 2 => hits += 10 }', state)
+			expect(state).toEqual({ calls: 1, hits: 1 })
+		})
+
+		test('guards see locals and this', () => {
+			const result = run(
+				backend,
+				'let limit = 10\n\t\t[5, 20].map(n => match "n" { _ if n > limit => "big", _ => "small" })',
+			)
+			expect(Array.from(result as unknown[])).toEqual(['small', 'big'])
+		})
+
+		test('works as a value anywhere, including nested', () => {
+			const result = run(
+				backend,
+				'let size = match kind { "a" => match sub { 1 => "a1", _ => "a?" }, _ => "?" }\n\t\t`${size}!`',
+				{ kind: 'a', sub: 1 },
+			)
+			expect(result).toBe('a1!')
+		})
+
+		test('assigns through match in a statement position', () => {
+			const state: Record<string, unknown> = { status: 'done' }
+			run(backend, 'label = match status { "done" => "Done", _ => "Open" }', state)
+			expect(state.label).toBe('Done')
+		})
+
+		test('match is still a property name and object key', () => {
+			expect(run(backend, '"abc".match("b")[0] + "abc"?.match("c").index')).toBe('b2')
+			expect(run(backend, 'let o = { match: 1 }\n\t\to.match')).toBe(1)
+		})
+	})
+}
@@ -2,6 +2,11 @@ import { describe, expect, it } from 'vitest'
 import { Parser } from './src/seval-parser'
 import { Tokenizer } from './src/seval-tokenizer'
 
+/** Span of columns start to end (exclusive) on line 1 */
+function span(start: number, end: number) {
+	return { start: { line: 1, column: start }, end: { line: 1, column: end } }
+}
+
 describe('Member Expression Parsing', () => {
 	it('should parse dot notation', () => {
 		const code = 'obj.property'
@@ -11,9 +16,10 @@ describe('Member Expression Parsing', () => {
 
 		expect(ast).toEqual({
 			kind: 'MemberExpression',
-			object: { kind: 'Identifier', name: 'obj' },
+			object: { kind: 'Identifier', name: 'obj', loc: span(1, 4) },
 			property: 'property',
 			computed: false,
+			loc: span(1, 13),
 		})
 	})
 
@@ -25,9 +31,10 @@ describe('Member Expression Parsing', () => {
 
 		expect(ast).toEqual({
 			kind: 'MemberExpression',
-			object: { kind: 'Identifier', name: 'arr' },
-			property: { kind: 'NumberLiteral', value: 0 },
+			object: { kind: 'Identifier', name: 'arr', loc: span(1, 4) },
+			property: { kind: 'NumberLiteral', value: 0, raw: '0', loc: span(5, 6) },
 			computed: true,
+			loc: span(1, 7),
 		})
 	})
 
@@ -39,9 +46,10 @@ describe('Member Expression Parsing', () => {
 
 		expect(ast).toEqual({
 			kind: 'MemberExpression',
-			object: { kind: 'Identifier', name: 'obj' },
-			property: { kind: 'StringLiteral', value: 'key' },
+			object: { kind: 'Identifier', name: 'obj', loc: span(1, 4) },
+			property: { kind: 'StringLiteral', value: 'key', loc: span(5, 10) },
 			computed: true,
+			loc: span(1, 11),
 		})
 	})
 
@@ -55,12 +63,14 @@ describe('Member Expression Parsing', () => {
 			kind: 'MemberExpression',
 			object: {
 				kind: 'MemberExpression',
-				object: { kind: 'Identifier', name: 'obj' },
+				object: { kind: 'Identifier', name: 'obj', loc: span(1, 4) },
 				property: 'nested',
 				computed: false,
+				loc: span(1, 11),
 			},
 			property: 'deep',
 			computed: false,
+			loc: span(1, 16),
 		})
 	})
 
@@ -74,11 +84,13 @@ describe('Member Expression Parsing', () => {
 			kind: 'CallExpression',
 			callee: {
 				kind: 'MemberExpression',
-				object: { kind: 'Identifier', name: 'obj' },
+				object: { kind: 'Identifier', name: 'obj', loc: span(1, 4) },
 				property: 'method',
 				computed: false,
+				loc: span(1, 11),
 			},
 			args: [],
+			loc: span(1, 13),
 		})
 	})
 })
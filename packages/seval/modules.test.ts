@@ -0,0 +1,204 @@
+/**
+ * Tests for imports between programs:
+ * - Parsing import declarations; import, from and as stay valid names elsewhere
+ * - Imported members in both backends, bound to their own module
+ * - Errors for unknown modules and members, name clashes and import cycles
+ * - Compiled modules are cached until their source or one of their imports changes
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	SevalModuleError,
+	SevalModules,
+	SevalSyntaxError,
+	compileSeval,
+	executeSeval,
+	parseSeval,
+} from './src/seval'
+
+const NUMFMT = `{
+  places: 2,
+  formatNum(n) { pad(Number(n).toFixed(places)) },
+  pad(s) { s.padStart(6, " ") },
+  hasDecimal(s) { s.includes(".") }
+}`
+
+function expectModuleError(run: () => unknown, message: string): void {
+	try {
+		run()
+	} catch (error) {
+		expect(error).toBeInstanceOf(SevalModuleError)
+		expect((error as Error).message).toBe(message)
+		return
+	}
+	throw new Error('Expected a SevalModuleError')
+}
+
+describe('Parsing', () => {
+	test('reads import declarations before the opening brace', () => {
+		const { program } = parseSeval(
+			'// helpers\nimport { formatNum, hasDecimal as isDecimal } from "numfmt"\nimport {} from "empty"\n{ a: 1 }',
+		)
+		expect(program.imports).toEqual([
+			{
+				kind: 'ImportDeclaration',
+				specifiers: [
+					{
+						imported: 'formatNum',
+						local: 'formatNum',
+						loc: { start: { line: 2, column: 10 }, end: { line: 2, column: 19 } },
+					},
+					{
+						imported: 'hasDecimal',
+						local: 'isDecimal',
+						loc: { start: { line: 2, column: 21 }, end: { line: 2, column: 44 } },
+					},
+				],
+				source: 'numfmt',
+				loc: { start: { line: 2, column: 1 }, end: { line: 2, column: 60 } },
+			},
+			{
+				kind: 'ImportDeclaration',
+				specifiers: [],
+				source: 'empty',
+				loc: { start: { line: 3, column: 1 }, end: { line: 3, column: 23 } },
+			},
+		])
+		expect(program.loc?.start).toEqual({ line: 2, column: 1 })
+		expect(parseSeval('{ a: 1 }').program).not.toHaveProperty('imports')
+	})
+
+	test('import, from and as remain names inside the program', () => {
+		const env = compileSeval('{ f(import, from) { let as = import + from\n as } }')
+		expect((env.f as (a: number, b: number) => number)(1, 2)).toBe(3)
+	})
+
+	test('reports malformed imports', () => {
+		expect(() => parseSeval('import { a } "m"\n{}')).toThrow(SevalSyntaxError)
+		const { program, diagnostics } = parseSeval(
+			'import { a b } from "m"\nimport { c } from "n"\n{ d: 1 }',
+			{
+				recover: true,
+			},
+		)
+		expect(diagnostics.map((d) => d.message)).toEqual(['Expected RBRACE but got IDENTIFIER'])
+		expect(program.imports?.map((node) => node.source)).toEqual(['n'])
+		expect(program.members.map((member) => member.name)).toEqual(['d'])
+	})
+})
+
+describe('Linking', () => {
+	for (const backend of ['compiler', 'interpreter'] as const) {
+		test(`imported members work in the ${backend} backend`, () => {
+			const modules = new SevalModules({ modules: { numfmt: NUMFMT } })
+			const env = compileSeval(
+				`import { formatNum, hasDecimal as isDecimal, places } from "numfmt"
+{
+  label: formatNum(7),
+  action_show() { this.display = formatNum(display) + (isDecimal(display) ? "*" : "") + places }
+}`,
+				{ modules, backend },
+			)
+			expect(env.label).toBe('  7.00')
+			expect(executeSeval(env, 'action_show', [], { display: '1.5' })).toMatchObject({
+				display: '  1.50*2',
+			})
+		})
+	}
+
+	test('imported methods run with this bound to their module', () => {
+		const modules = new SevalModules({
+			modules: { counter: '{ count: 0, next() { this.count = count + 1 } }' },
+		})
+		const env = compileSeval('import { next } from "counter"\n{ count: 10, tick() { next() } }', {
+			modules,
+		})
+		const counter = env as { tick(): number }
+		counter.tick()
+		expect(counter.tick()).toBe(2)
+		expect(env.count).toBe(10)
+		expect(modules.load('counter').count).toBe(2)
+	})
+
+	test('modules can import other modules, and resolve looks up unregistered ones', () => {
+		const modules = new SevalModules({
+			modules: { numfmt: NUMFMT },
+			resolve: (name) =>
+				name === 'money'
+					? 'import { formatNum } from "numfmt"\n{ usd(n) { "$" + formatNum(n) } }'
+					: undefined,
+			compileOptions: { backend: 'interpreter' },
+		})
+		const env = compileSeval('import { usd } from "money"\n{ total: usd(3) }', { modules })
+		expect(env.total).toBe('$  3.00')
+	})
+
+	test('reports unknown modules and members and names bound twice', () => {
+		const modules = new SevalModules({ modules: { numfmt: NUMFMT } })
+		expectModuleError(
+			() => compileSeval('import { a } from "nope"\n{}', { modules }),
+			"Unknown module 'nope'",
+		)
+		expectModuleError(
+			() => compileSeval('import { format } from "numfmt"\n{}', { modules }),
+			"Module 'numfmt' has no member 'format'",
+		)
+		expectModuleError(
+			() => compileSeval('import { pad } from "numfmt"\n{ pad: 1 }', { modules }),
+			"'pad' is already declared; import it with another name",
+		)
+		expectModuleError(
+			() => compileSeval('import { pad, places as pad } from "numfmt"\n{}', { modules }),
+			"'pad' is already declared; import it with another name",
+		)
+		expectModuleError(
+			() => compileSeval('import { pad } from "numfmt"\n{}'),
+			"Cannot import from 'numfmt': no modules are available",
+		)
+	})
+
+	test('reports import cycles with the modules on the cycle', () => {
+		const modules = new SevalModules({
+			modules: {
+				a: 'import { b } from "b"\n{ a() { b() } }',
+				b: 'import { c } from "c"\n{ b() { c() } }',
+				c: 'import { b } from "b"\n{ c() { 1 } }',
+				self: 'import { x } from "self"\n{ x: 1 }',
+			},
+		})
+		expectModuleError(() => modules.load('a'), 'Import cycle: b -> c -> b')
+		expectModuleError(() => modules.load('self'), 'Import cycle: self -> self')
+	})
+})
+
+describe('Caching', () => {
+	test('compiles a module once', () => {
+		let resolved = 0
+		const modules = new SevalModules({
+			resolve: () => {
+				resolved++
+				return NUMFMT
+			},
+		})
+		const first = modules.load('numfmt')
+		compileSeval('import { pad } from "numfmt"\n{}', { modules })
+		expect(modules.load('numfmt')).toBe(first)
+		expect(resolved).toBe(3)
+	})
+
+	test('recompiles a module when its source or an import changes', () => {
+		const modules = new SevalModules({
+			modules: {
+				base: '{ unit: "kg" }',
+				show: 'import { unit } from "base"\n{ show(n) { `${n} ${unit}` } }',
+			},
+		})
+		const show = modules.load('show')
+		expect(modules.load('show')).toBe(show)
+
+		modules.register('base', '{ unit: "lb" }')
+		const updated = modules.load('show')
+		expect(updated).not.toBe(show)
+		expect((updated.show as (n: number) => string)(2)).toBe('2 lb')
+	})
+})
@@ -0,0 +1,111 @@
+/**
+ * Tests for numeric literals:
+ * - Decimal, exponent, hex, octal and binary forms with _ separators
+ * - Malformed numbers are reported with their position
+ * - A dot after a number is member access unless a digit follows
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { TokenType, Tokenizer, numberValue } from './src/seval-tokenizer'
+
+function syntaxError(source: string): SevalSyntaxError {
+	try {
+		new Tokenizer(source).tokenize()
+	} catch (error) {
+		if (error instanceof SevalSyntaxError) return error
+		throw error
+	}
+	throw new Error('Expected a syntax error')
+}
+
+describe('Number tokenizing', () => {
+	test.each([
+		['42', 42],
+		['3.14', 3.14],
+		['0.5', 0.5],
+		['1e6', 1e6],
+		['2.5E-3', 2.5e-3],
+		['1e+2', 100],
+		['1_000_000', 1_000_000],
+		['0.000_1', 0.0001],
+		['0xff', 255],
+		['0XFF_FF', 0xffff],
+		['0o17', 15],
+		['0b1010', 10],
+		['0B1111_0000', 0xf0],
+	])('reads %s', (source, value) => {
+		const [token, eof] = new Tokenizer(source).tokenize()
+		expect(token).toMatchObject({ type: TokenType.NUMBER, value: source })
+		expect(eof.type).toBe(TokenType.EOF)
+		expect(numberValue(token.value)).toBe(value)
+	})
+
+	test('a dot without a digit after it is member access', () => {
+		const types = new Tokenizer('1.5.toFixed').tokenize().map((t) => [t.type, t.value])
+		expect(types).toEqual([
+			[TokenType.NUMBER, '1.5'],
+			[TokenType.DOT, '.'],
+			[TokenType.IDENTIFIER, 'toFixed'],
+			[TokenType.EOF, ''],
+		])
+	})
+
+	test.each(['1.2.3', '12px', '0b102', '0o8', '0x', '0xg1', '1e', '1e+', '2.5em'])(
+		'rejects %s',
+		(source) => {
+			const error = syntaxError(`x = ${source} + 1`)
+			expect(error.diagnostic.message).toBe(`Invalid number '${source}'`)
+			expect(error.loc).toEqual({
+				start: { line: 1, column: 5 },
+				end: { line: 1, column: 5 + source.length },
+			})
+		},
+	)
+
+	test.each(['1__000', '1_', '1_.5', '0x_ff', '1e_5'])('rejects the separator in %s', (source) => {
+		const error = syntaxError(source)
+		expect(error.diagnostic.message).toBe('Numeric separators are only allowed between digits')
+		const column = source.indexOf('_') + 1
+		expect(error.loc).toEqual({
+			start: { line: 1, column },
+			end: { line: 1, column: column + 1 },
+		})
+	})
+
+	test('reports every malformed number when recovering', () => {
+		const { diagnostics } = parseSeval('{\n  a: 1.2.3,\n  b: 0b12\n}', { recover: true })
+		expect(diagnostics.map((d) => [d.loc.start.line, d.message])).toEqual([
+			[2, "Invalid number '1.2.3'"],
+			[3, "Invalid number '0b12'"],
+		])
+	})
+})
+
+describe('Number parsing', () => {
+	test('number literals hold their value', () => {
+		const { program } = parseSeval('{ f() { 0x10 + 1_000 } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'BinaryExpression',
+			left: { kind: 'NumberLiteral', value: 16 },
+			right: { kind: 'NumberLiteral', value: 1000 },
+		})
+	})
+
+	test('numeric keys use the canonical string of their value', () => {
+		const env = compileSeval('{ codes: { 0x1F: "a", 1e3: "b", 1_0: "c" } }')
+		expect(env.codes).toEqual({ 31: 'a', 1000: 'b', 10: 'c' })
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Numbers (${backend})`, () => {
+		test('evaluates every form', () => {
+			const env = compileSeval('{ run() { [1e3, 0xff, 0b11, 0o7, 1_000.5, 1.5.toFixed(2)] } }', {
+				backend,
+			})
+			expect(Array.from((env.run as () => unknown[])())).toEqual([1000, 255, 3, 7, 1000.5, '1.50'])
+		})
+	})
+}
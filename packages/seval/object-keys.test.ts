@@ -0,0 +1,150 @@
+/**
+ * Tests for object literal keys:
+ * - Quoted, numeric and computed keys, shorthand properties and method shorthand
+ * - Quoted and numeric names for Program members
+ * - Shorthand and quoted keys in destructuring patterns
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { run } from './test-helpers'
+
+describe('Object key parsing', () => {
+	test('parses quoted, numeric, computed and shorthand keys', () => {
+		const { program } = parseSeval('{ f() { { "first-name": a, 1.50: b, [c]: d, e } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ObjectLiteral',
+			properties: [
+				{ key: 'first-name', value: { kind: 'Identifier', name: 'a' } },
+				{ key: '1.5', value: { kind: 'Identifier', name: 'b' } },
+				{ key: { kind: 'Identifier', name: 'c' }, computed: true },
+				{ key: 'e', value: { kind: 'Identifier', name: 'e' } },
+			],
+		})
+	})
+
+	test('parses method shorthand as a FunctionDef value', () => {
+		const { program } = parseSeval('{ f() { { total(a, ...b) { a } } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ObjectLiteral',
+			properties: [
+				{ key: 'total', value: { kind: 'FunctionDef', name: 'total', params: ['a'], rest: 'b' } },
+			],
+		})
+	})
+
+	test('parses quoted and numeric member names', () => {
+		const { program } = parseSeval('{ "first-name": "Ann", 404: "missing", "do-it"() { 1 } }')
+		expect(program.members).toMatchObject([
+			{ kind: 'PropertyDef', name: 'first-name' },
+			{ kind: 'PropertyDef', name: '404' },
+			{ kind: 'FunctionDef', name: 'do-it' },
+		])
+	})
+
+	test('only names can be shorthand', () => {
+		expect(() => compileSeval('{ f() { { "a" } } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { { 1 } } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { { this } } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('computed members are not allowed at the top level', () => {
+		expect(() => compileSeval('{ [key]: 1 }')).toThrow(SevalSyntaxError)
+	})
+
+	test('break in a method does not reach an enclosing loop', () => {
+		expect(() => compileSeval('{ f() { for x in xs { let o = { m() { break } } } } }')).toThrow(
+			"'break' outside of a for loop",
+		)
+	})
+
+	test('computed keys are not assignment targets', () => {
+		expect(() => compileSeval('{ f() { { [k]: a } = b } }')).toThrow('Invalid assignment target')
+	})
+})
+
+describe('Object keys in property values', () => {
+	test('allows quoted, numeric and constant computed keys in property values', () => {
+		const env = compileSeval('{ labels: { "first-name": "First", 2: "two", ["x"]: 1 } }')
+		expect(env.labels).toEqual({ 'first-name': 'First', 2: 'two', x: 1 })
+	})
+
+	test('allows methods in property initializers', () => {
+		const env = compileSeval('{ counter: { n: 1, inc() { this.n += 1 } } }')
+		const counter = env.counter as { n: number; inc(): number }
+		expect(counter.inc()).toBe(2)
+		expect(counter.n).toBe(2)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Object keys (${backend})`, () => {
+		test('builds objects with quoted and numeric keys', () => {
+			const result = run(backend, '{ "first-name": "Ann", "a b": 1, 0: "zero", 1.0: "one" }')
+			expect(result).toEqual({ 'first-name': 'Ann', 'a b': 1, 0: 'zero', 1: 'one' })
+		})
+
+		test('evaluates computed keys', () => {
+			const state = { field: 'title', n: 2 }
+			const result = run(backend, '{ [field]: "Write", [`item${n}`]: true, [n + 1]: 3 }', state)
+			expect(result).toEqual({ title: 'Write', item2: true, 3: 3 })
+		})
+
+		test('computed __proto__ keys are plain properties', () => {
+			const result = run(backend, '{ ["__proto__"]: { polluted: true } }')
+			expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+			expect(Object.keys(result as object)).toEqual(['__proto__'])
+		})
+
+		test('shorthand properties read variables', () => {
+			const state = { text: 'Write' }
+			expect(run(backend, 'let id = 7\n\t\t{ id, text, done: false }', state)).toEqual({
+				id: 7,
+				text: 'Write',
+				done: false,
+			})
+		})
+
+		test('methods are called with the object as this', () => {
+			const result = run(
+				backend,
+				'let counter = { count: 1, add(n) { this.count += n\n\t\tcount } }\n\t\t[counter.add(2), counter.count]',
+			)
+			expect(Array.from(result as unknown[])).toEqual([3, 3])
+		})
+
+		test('methods see the enclosing locals and support return and rest', () => {
+			const result = run(
+				backend,
+				`let limit = 2
+		let o = {
+			first(...items) {
+				for x in items { if x > limit { return x } }
+				null
+			}
+		}
+		[o.first(1, 5, 7), o.first(1)]`,
+			)
+			expect(Array.from(result as unknown[])).toEqual([5, null])
+		})
+
+		test('shorthand works in let and assignment patterns', () => {
+			const state: Record<string, unknown> = {}
+			const result = run(
+				backend,
+				'let { id, "first-name": name } = { id: 1, "first-name": "Ann" }\n\t\t{ text } = { text: "x" }\n\t\t[id, name]',
+				state,
+			)
+			expect(Array.from(result as unknown[])).toEqual([1, 'Ann'])
+			expect(state).toEqual({ text: 'x' })
+		})
+
+		test('quoted member names are reachable through this', () => {
+			const code = '{ "first-name": "Ann", "greet-user"() { `Hi ${this["first-name"]}` } }'
+			const env = compileSeval(code, { backend })
+			expect((env['greet-user'] as () => unknown).call(env)).toBe('Hi Ann')
+		})
+	})
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for operator semantics:
+ * - Every binary operator of the default table, on both backends and in the table itself
+ * - == is strict and + concatenates when either operand is a string
+ * - Unary minus, !, truthiness and x++ follow the table
+ * - Hosts can override operators per compile, on top of the arithmetic mode
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	BINARY_OPERATORS,
+	type BinaryOperator,
+	type SevalBackend,
+	type SevalOperators,
+	compileSeval,
+	defaultOperators,
+} from './src/seval'
+import { run } from './test-helpers'
+
+/** [left, right, result] for every binary operator */
+const CASES: Record<BinaryOperator, [unknown, unknown, unknown][]> = {
+	'+': [
+		[1, 2, 3],
+		['a', 1, 'a1'],
+		[1, 'a', '1a'],
+		['n: ', null, 'n: null'],
+		['x', [1, 2], 'x1,2'],
+		['', undefined, 'undefined'],
+		[true, 1, 2],
+	],
+	'-': [
+		[5, 2, 3],
+		['5', 2, 3],
+	],
+	'*': [
+		[2, 3, 6],
+		['4', 2, 8],
+	],
+	'/': [
+		[7, 2, 3.5],
+		[1, 0, Number.POSITIVE_INFINITY],
+	],
+	'%': [
+		[7, 3, 1],
+		[-7, 3, -1],
+	],
+	'==': [
+		[1, 1, true],
+		[1, '1', false],
+		[null, undefined, false],
+		[0, false, false],
+		['a', 'a', true],
+	],
+	'!=': [
+		[1, '1', true],
+		[null, undefined, true],
+		[2, 2, false],
+	],
+	'===': [
+		[1, 1, true],
+		[1, '1', false],
+	],
+	'!==': [
+		[1, '1', true],
+		['a', 'a', false],
+	],
+	'<': [
+		[1, 2, true],
+		['b', 'a', false],
+		['10', '9', true],
+	],
+	'<=': [
+		[2, 2, true],
+		[3, 2, false],
+	],
+	'>': [
+		[3, 2, true],
+		['a', 'b', false],
+	],
+	'>=': [
+		[2, 2, true],
+		[1, 2, false],
+	],
+}
+
+describe('Default operator table', () => {
+	test('has cases for every binary operator', () => {
+		expect(Object.keys(CASES).sort()).toEqual([...BINARY_OPERATORS].sort())
+	})
+
+	for (const operator of BINARY_OPERATORS) {
+		test.each(CASES[operator])(`%p ${operator} %p is %p`, (a, b, result) => {
+			expect(defaultOperators[operator](a, b)).toEqual(result)
+		})
+	}
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Operators (${backend})`, () => {
+		for (const operator of BINARY_OPERATORS) {
+			test.each(CASES[operator])(`%p ${operator} %p is %p`, (a, b, result) => {
+				expect(run(backend, `a ${operator} b`, { a, b })).toEqual(result)
+			})
+		}
+
+		test('== compares values strictly', () => {
+			expect(run(backend, '[missing == null, 1 == "1", null == null]')).toEqual([
+				false,
+				false,
+				true,
+			])
+		})
+
+		test('unary minus, ! and postfix updates', () => {
+			const state: Record<string, unknown> = { n: '5' }
+			expect(run(backend, '[-n, !n, !"", !0, n++]', state)).toEqual([-5, false, true, true, 5])
+			expect(state.n).toBe(6)
+		})
+
+		test('&& and || return an operand', () => {
+			expect(run(backend, '[0 || "none", "a" && "b", null ?? 1]')).toEqual(['none', 'b', 1])
+		})
+
+		test('hosts can override operators', () => {
+			type Money = { cents: number }
+			const isMoney = (v: unknown): v is Money =>
+				typeof v === 'object' && v !== null && 'cents' in v
+			const operators: Partial<SevalOperators> = {
+				'+': (a, b) =>
+					isMoney(a) && isMoney(b) ? { cents: a.cents + b.cents } : defaultOperators['+'](a, b),
+				'==': (a, b) => (isMoney(a) && isMoney(b) ? a.cents === b.cents : a === b),
+			}
+			const state = { price: { cents: 250 }, tax: { cents: 50 } }
+			expect(run(backend, 'price + tax', state, { operators })).toEqual({ cents: 300 })
+			expect(run(backend, 'price + tax == { cents: 300 }', state, { operators })).toBe(true)
+			expect(run(backend, '"a" + 1', state, { operators })).toBe('a1')
+		})
+
+		test('overrides apply to truthiness, literals, negation and updates', () => {
+			const operators: Partial<SevalOperators> = {
+				truthy: (a) => a !== 0 && a !== null && a !== undefined && a !== false,
+				literal: (value) => value * 10,
+				neg: (a) => `minus ${a}`,
+				numeric: (a) => Number(a),
+			}
+			const state: Record<string, unknown> = { n: 1 }
+			const result = run(
+				backend,
+				'let old = n++\n\t\t["" ? "yes" : "no", "" && "b", !"", 2, -n, old]',
+				state,
+				{ operators },
+			)
+			expect(result).toEqual(['yes', 'b', false, 20, 'minus 2', 1])
+			expect(state.n).toBe(2)
+		})
+
+		test('overrides win over the arithmetic mode', () => {
+			const env = compileSeval('{ run() { 0.1 + 0.2 } }', {
+				backend,
+				arithmetic: 'decimal',
+				operators: { '+': () => 'custom' },
+			})
+			expect((env.run as () => unknown)()).toBe('custom')
+		})
+	})
+}
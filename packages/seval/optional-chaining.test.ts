@@ -0,0 +1,154 @@
+/**
+ * Tests for optional chaining and nullish coalescing:
+ * - ?. for property, index and call access, short-circuiting the rest of the chain
+ * - ?? only falls back on null and undefined, with its place in the precedence chain
+ * - Forbidden keys stay guarded inside optional chains
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { TokenType, Tokenizer } from './src/seval-tokenizer'
+import { run } from './test-helpers'
+
+describe('Optional chaining parsing', () => {
+	test('tokenizes ?. and ??', () => {
+		const types = new Tokenizer('a?.b ?? c').tokenize().map((t) => t.type)
+		expect(types).toEqual([
+			TokenType.IDENTIFIER,
+			TokenType.QUESTION_DOT,
+			TokenType.IDENTIFIER,
+			TokenType.NULLISH,
+			TokenType.IDENTIFIER,
+			TokenType.EOF,
+		])
+	})
+
+	test('does not read ?. before a digit', () => {
+		const types = new Tokenizer('a?.5').tokenize().map((t) => t.type)
+		expect(types.slice(0, 3)).toEqual([TokenType.IDENTIFIER, TokenType.QUESTION, TokenType.DOT])
+	})
+
+	test('marks optional links', () => {
+		const { program } = parseSeval('{ f() { a?.b[c]?.(d) } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'CallExpression',
+			optional: true,
+			callee: {
+				kind: 'MemberExpression',
+				computed: true,
+				object: { kind: 'MemberExpression', property: 'b', optional: true },
+			},
+		})
+	})
+
+	test('?? binds looser than || and tighter than the conditional', () => {
+		const { program } = parseSeval('{ f() { a ?? b || c ? d : e } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'TernaryExpression',
+			condition: {
+				kind: 'BinaryExpression',
+				operator: '??',
+				right: { kind: 'BinaryExpression', operator: '||' },
+			},
+		})
+	})
+
+	test('rejects assignment to an optional chain', () => {
+		expect(() => compileSeval('{ f() { a?.b = 1 } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { a?.b.c = 1 } }')).toThrow(
+			'Invalid assignment target: cannot assign to an optional chain',
+		)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Optional chaining (${backend})`, () => {
+		const state = () => ({
+			user: { name: 'Ann', tags: ['a', 'b'], greet: () => 'hi' },
+			empty: null,
+			todo: { title: 'Write' },
+		})
+
+		test('reads properties and indexes when present', () => {
+			const result = run(backend, '[user?.name, user?.tags?.[1], user.tags?.length]', state())
+			expect(Array.from(result as unknown[])).toEqual(['Ann', 'b', 2])
+		})
+
+		test('returns undefined for null and undefined objects', () => {
+			const result = run(backend, '[empty?.name, missing?.name, empty?.[0], missing?.()]', state())
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined, undefined, undefined])
+		})
+
+		test('skips the rest of the chain', () => {
+			expect(run(backend, 'empty?.profile.name.length', state())).toBeUndefined()
+			expect(run(backend, 'empty?.list[0].items["x"]', state())).toBeUndefined()
+			expect(run(backend, 'missing?.fetch().then()', state())).toBeUndefined()
+		})
+
+		test('does not evaluate skipped arguments and keys', () => {
+			const s: Record<string, unknown> = { ...state(), calls: 0 }
+			run(backend, 'empty?.[calls = calls + 1]\n\t\tmissing?.(calls = calls + 1)', s)
+			expect(s.calls).toBe(0)
+		})
+
+		test('only the optional link tolerates null', () => {
+			expect(() => run(backend, 'todo?.done.length', state())).toThrow(TypeError)
+		})
+
+		test('calls methods with the object as this', () => {
+			const s = {
+				...state(),
+				counter: {
+					n: 2,
+					double() {
+						return this.n * 2
+					},
+				},
+			}
+			expect(run(backend, 'counter?.double()', s)).toBe(4)
+			expect(run(backend, 'counter?.["double"]()', s)).toBe(4)
+			expect(run(backend, 'counter.double?.()', s)).toBe(4)
+			expect(run(backend, 'user?.greet?.()', state())).toBe('hi')
+		})
+
+		test('calls methods of this', () => {
+			const env = compileSeval('{ twice(x) { x * 2 }, run() { twice?.(3) } }', { backend })
+			expect((env.run as () => unknown).call({ ...env })).toBe(6)
+		})
+
+		test('replaces get() for null-safe access', () => {
+			const todos = [{ done: true }, null, { done: false }]
+			expect(run(backend, 'todos.filter(t => t?.done).length', { todos })).toBe(1)
+		})
+
+		test('keeps forbidden keys guarded', () => {
+			const result = run(
+				backend,
+				'[user?.constructor, user?.["__proto__"], user?.tags.constructor, ""?.["constr" + "uctor"]]',
+				state(),
+			)
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined, undefined, undefined])
+			expect(() => run(backend, 'user?.["constructor"]("return 1")', state())).toThrow(TypeError)
+		})
+	})
+
+	describe(`Nullish coalescing (${backend})`, () => {
+		test('falls back only on null and undefined', () => {
+			const result = run(backend, '[null ?? 1, missing ?? 2, 0 ?? 3, "" ?? 4, false ?? 5]')
+			expect(Array.from(result as unknown[])).toEqual([1, 2, 0, '', false])
+		})
+
+		test('does not evaluate the fallback when not needed', () => {
+			const s: Record<string, unknown> = { calls: 0 }
+			run(backend, '1 ?? (calls = calls + 1)', s)
+			expect(s.calls).toBe(0)
+		})
+
+		test('combines with optional chaining', () => {
+			expect(run(backend, 'data?.items?.length ?? 0', { data: {} })).toBe(0)
+			expect(run(backend, 'data?.items?.length ?? 0', { data: { items: [1] } })).toBe(1)
+		})
+	})
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for property initializers:
+ * - Any expression as a program property value, evaluated once at load time
+ * - Declaration order: earlier properties and every helper method are visible
+ * - Literal data is stored as is; errors and budgets apply like in methods
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type SevalBackend,
+	SevalBudgetExceededError,
+	compileSeval,
+	executeSeval,
+	formatSevalErrorLocation,
+	getSevalErrorLocation,
+} from './src/seval'
+
+function thrown(fn: () => unknown): unknown {
+	try {
+		fn()
+	} catch (error) {
+		return error
+	}
+	throw new Error('Expected an error')
+}
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Property initializers (${backend})`, () => {
+		test('evaluates expressions', () => {
+			const env = compileSeval(
+				`{
+	maxItems: 10 * 2,
+	labels: ["a", "b"].map(x => x.toUpperCase()),
+	title: \`Max ${10 * 2}\`,
+	flags: { ready: !false, level: 1 + 1 }
+}`,
+				{ backend },
+			)
+			expect(env.maxItems).toBe(20)
+			expect(Array.from(env.labels as unknown[])).toEqual(['A', 'B'])
+			expect(env.title).toBe('Max 20')
+			expect(env.flags).toEqual({ ready: true, level: 2 })
+		})
+
+		test('reads earlier properties', () => {
+			const env = compileSeval('{ size: 4, area: size * this.size, half: area / 2 }', { backend })
+			expect([env.size, env.area, env.half]).toEqual([4, 16, 8])
+		})
+
+		test('later properties are not set yet', () => {
+			const env = compileSeval('{ early: late ?? "unset", late: 1 }', { backend })
+			expect(env.early).toBe('unset')
+		})
+
+		test('calls helpers declared anywhere in the program', () => {
+			const env = compileSeval(
+				`{
+	words: split("a b c"),
+	count: words.length,
+	split(text) { text.split(" ") }
+}`,
+				{ backend },
+			)
+			expect(Array.from(env.words as unknown[])).toEqual(['a', 'b', 'c'])
+			expect(env.count).toBe(3)
+		})
+
+		test('evaluates once, at load time', () => {
+			const env = compileSeval('{ loadedAt: Date.now(), later() { loadedAt } }', { backend })
+			expect(typeof env.loadedAt).toBe('number')
+			expect(executeSeval(env, 'later', [])).toBe(env.loadedAt)
+		})
+
+		test('keeps the declaration order of keys', () => {
+			const env = compileSeval('{ a: 1 + 1, f() { 1 }, b: 2 }', { backend })
+			expect(Object.keys(env)).toEqual(['a', 'f', 'b'])
+		})
+
+		test('stores literal data as plain values', () => {
+			const env = compileSeval('{ items: [1, { a: [2] }] }', { backend })
+			expect(structuredClone(env.items)).toEqual([1, { a: [2] }])
+		})
+
+		test('keeps the sandbox wrapping', () => {
+			const env = compileSeval('{ list: [1].concat([2]), proto: list.constructor }', { backend })
+			expect(env.proto).toBeUndefined()
+		})
+
+		test('reports errors at the property value', () => {
+			const source = '{\n\tok: 1,\n\tbroken: missing.name\n}'
+			const error = thrown(() => compileSeval(source, { backend, filename: 'app.seval' }))
+			expect(error).toBeInstanceOf(TypeError)
+			const location = getSevalErrorLocation(error)
+			expect(location && formatSevalErrorLocation(location)).toBe('app.seval:3:10 in broken')
+		})
+
+		test('counts towards the execution budget', () => {
+			const source = '{ spin() { spin() }, value: spin() }'
+			expect(() => compileSeval(source, { backend, budget: { maxCallDepth: 20 } })).toThrow(
+				SevalBudgetExceededError,
+			)
+		})
+	})
+}
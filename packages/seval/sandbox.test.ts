@@ -0,0 +1,150 @@
+/**
+ * Adversarial sandbox tests: every known path from a Seval value back to
+ * Function, prototypes or the real globals must be closed on both backends
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { type SevalBackend, compileSeval } from './src/seval'
+
+declare global {
+	var __sevalEscaped: unknown
+}
+
+const PAYLOAD = '"globalThis.__sevalEscaped = true"'
+
+/**
+ * Attempts that would run PAYLOAD as JavaScript if they reached Function
+ */
+const ESCAPES: [string, string][] = [
+	['string constructor chain', `"".constructor.constructor(${PAYLOAD})()`],
+	['number constructor chain', `(1).constructor.constructor(${PAYLOAD})()`],
+	['arrow function constructor', `(x => x).constructor(${PAYLOAD})()`],
+	['array method constructor', `[].map.constructor(${PAYLOAD})()`],
+	['array literal constructor', `[].constructor.constructor(${PAYLOAD})()`],
+	['Math constructor chain', `Math.constructor.constructor(${PAYLOAD})()`],
+	['global static method', `Date.now.constructor(${PAYLOAD})()`],
+	['global wrapper', `String.constructor(${PAYLOAD})()`],
+	['Function.prototype.call', `(x => x).call.constructor(${PAYLOAD})()`],
+	['computed key', `""["constr" + "uctor"]["constr" + "uctor"](${PAYLOAD})()`],
+	['computed key on this', `this["constructor"]["constructor"](${PAYLOAD})()`],
+	['optional chain', `""?.constructor?.constructor?.(${PAYLOAD})()`],
+	['optional computed chain', `""?.["constructor"]["constructor"](${PAYLOAD})()`],
+	['bare constructor identifier', `constructor.constructor(${PAYLOAD})()`],
+	['this.constructor', `this.constructor.constructor(${PAYLOAD})()`],
+	['__proto__ chain', `"".__proto__.constructor.constructor(${PAYLOAD})()`],
+	['get() primitive', `get(get("", "constructor"), "constructor")(${PAYLOAD})()`],
+	[
+		'Object reflection',
+		`Object.getOwnPropertyDescriptor(Object.getPrototypeOf(x => x), "constructor").value(${PAYLOAD})()`,
+	],
+	['__lookupGetter__', `this.__lookupGetter__("__proto__").call(x => x).constructor(${PAYLOAD})()`],
+	['Object.prototype name as primitive', `__defineGetter__("x", x => x)`],
+	[
+		'key with a changing toString',
+		`this.n = 0
+		this.key = { toString: () => (this.n = this.n + 1) > 1 ? "constructor" : "length" }
+		""[key][key](${PAYLOAD})()`,
+	],
+]
+
+/**
+ * Methods called without a receiver, where this would be globalThis in sloppy mode
+ */
+const RECEIVERLESS: [string, string][] = [
+	['method passed as a callback', `{ h(x) { Function(${PAYLOAD})() }, run() { [1].map(h) } }`],
+	[
+		'method called with a null receiver',
+		`{ h() { Function(${PAYLOAD})() }, run() { h.call(null) } }`,
+	],
+	[
+		'detached object literal method',
+		`{ run() {\n\t\tlet o = { m() { Function(${PAYLOAD})() } }\n\t\tlet m = o.m\n\t\tm()\n\t} }`,
+	],
+]
+
+function attempt(backend: SevalBackend, body: string): { result?: unknown; error?: unknown } {
+	const env = compileSeval(`{\n\trun() {\n\t\t${body}\n\t}\n}`, { backend })
+	try {
+		return { result: (env.run as () => unknown).call({}) }
+	} catch (error) {
+		return { error }
+	}
+}
+
+afterEach(() => {
+	globalThis.__sevalEscaped = undefined
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Sandbox escapes (${backend})`, () => {
+		for (const [name, body] of ESCAPES) {
+			test(`blocks ${name}`, () => {
+				const { result } = attempt(backend, body)
+				expect(globalThis.__sevalEscaped).toBeUndefined()
+				expect(result).not.toBe(Function)
+			})
+		}
+
+		for (const [name, program] of RECEIVERLESS) {
+			test(`blocks ${name}`, () => {
+				const env = compileSeval(program, { backend })
+				expect(() => (env.run as () => unknown).call({})).toThrow(TypeError)
+				expect(globalThis.__sevalEscaped).toBeUndefined()
+			})
+		}
+
+		test('forbidden properties read as undefined', () => {
+			const { result } = attempt(
+				backend,
+				'[(x => x).constructor, "".__proto__, Math.prototype, this.constructor, constructor]',
+			)
+			expect(Array.from(result as unknown[])).toEqual([
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+			])
+		})
+
+		test('forbidden properties cannot be assigned', () => {
+			const { error } = attempt(backend, 'this.target = {}\n\t\ttarget["__proto__"] = [1, 2]')
+			expect(error).toBeInstanceOf(TypeError)
+			expect((error as Error).message).toBe("Cannot assign to forbidden property '__proto__'")
+		})
+
+		test('a __proto__ key in an object literal is a plain property', () => {
+			const { result } = attempt(backend, 'Object.keys({ __proto__: [1, 2] })')
+			expect(Array.from(result as unknown[])).toEqual(['__proto__'])
+		})
+
+		test('whitelisted globals cannot be modified', () => {
+			attempt(backend, 'Math.floor = x => 42')
+			attempt(backend, 'Object.keys = x => 42')
+			expect(Math.floor(1.5)).toBe(1)
+			expect(attempt(backend, 'Math.floor(1.5)').result).toBe(1)
+			expect(attempt(backend, 'Object.keys({ a: 1 }).length').result).toBe(1)
+		})
+
+		test('Object only exposes data helpers', () => {
+			const { result } = attempt(
+				backend,
+				'[Object.getPrototypeOf, Object.defineProperty, Object.getOwnPropertyDescriptor, Object.create]',
+			)
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined, undefined, undefined])
+		})
+
+		test('whitelisted globals keep working', () => {
+			const { result } = attempt(
+				backend,
+				'[Math.max(1, 3), Number("2.5"), String(12), Array.isArray([]), Object.entries({ a: 1 }).length, Date.now() > 0]',
+			)
+			expect(Array.from(result as unknown[])).toEqual([3, 2.5, '12', true, 1, true])
+		})
+
+		test('computed access keeps method receivers', () => {
+			const { result } = attempt(backend, '"abc"["toUpperCase"]() + [1, 2, 3]["join"]("-")')
+			expect(result).toBe('ABC1-2-3')
+		})
+	})
+}
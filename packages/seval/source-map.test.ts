@@ -0,0 +1,97 @@
+/**
+ * Tests for mapping runtime errors back to Seval source locations
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type SevalBackend,
+	compileSeval,
+	formatSevalErrorLocation,
+	getSevalErrorLocation,
+} from './src/seval'
+
+const CODE = `{
+	formatNum(n) { String(Math.round(n * 1000000000) / 1000000000) },
+	calcOp(op, a, b) {
+		op == "+" ? a + b : a.apply(b)
+	},
+
+	action_equals() {
+		this.memory = "0"
+		if (operator != "") {
+			this.history = memory
+			this.display = calcOp(operator, memory, display)
+		}
+	},
+	action_list() {
+		this.items = [1, 2, 3]
+		this.labels = items.map(x => x.label.toUpperCase())
+	},
+	action_direct() {
+		this.count = 1
+		this.total = missing(count)
+	}
+}`
+
+function thrownBy(backend: SevalBackend, name: string): unknown {
+	const env = compileSeval(CODE, { backend, filename: 'calculator.seval' })
+	try {
+		;(env[name] as () => unknown).call({ ...env, operator: '-', display: '1' })
+	} catch (error) {
+		return error
+	}
+	throw new Error(`${name} did not throw`)
+}
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Runtime error locations (${backend})`, () => {
+		test('points at the failing statement in the innermost function', () => {
+			const location = getSevalErrorLocation(thrownBy(backend, 'action_equals'))
+			expect(location).toBeDefined()
+			expect(location && formatSevalErrorLocation(location)).toBe('calculator.seval:4:3 in calcOp')
+		})
+
+		test('maps statements after the first one', () => {
+			const location = getSevalErrorLocation(thrownBy(backend, 'action_direct'))
+			expect(location && formatSevalErrorLocation(location)).toBe(
+				'calculator.seval:20:3 in action_direct',
+			)
+			expect(location?.loc.end).toEqual({ line: 20, column: 30 })
+		})
+
+		test('maps errors thrown inside arrow callbacks to the arrow body', () => {
+			const location = getSevalErrorLocation(thrownBy(backend, 'action_list'))
+			expect(location && formatSevalErrorLocation(location)).toBe(
+				'calculator.seval:16:32 in action_list',
+			)
+		})
+
+		test('includes a code frame of the failing statement', () => {
+			const location = getSevalErrorLocation(thrownBy(backend, 'action_direct'))
+			expect(location?.frame.split('\n')).toEqual([
+				'  18 | \taction_direct() {',
+				'  19 | \t\tthis.count = 1',
+				'> 20 | \t\tthis.total = missing(count)',
+				'     | \t\t^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+				'  21 | \t}',
+				'  22 | }',
+			])
+		})
+
+		test('keeps the original error', () => {
+			const error = thrownBy(backend, 'action_direct')
+			expect(error).toBeInstanceOf(TypeError)
+		})
+	})
+}
+
+test('uses a default filename', () => {
+	const env = compileSeval('{\n  f() { null.x }\n}')
+	let location: ReturnType<typeof getSevalErrorLocation>
+	try {
+		;(env.f as () => unknown)()
+	} catch (error) {
+		location = getSevalErrorLocation(error)
+	}
+	expect(location && formatSevalErrorLocation(location)).toBe('<seval>:2:9 in f')
+})
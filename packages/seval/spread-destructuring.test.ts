@@ -0,0 +1,265 @@
+/**
+ * Tests for spread, rest parameters and destructuring:
+ * - ...expr in array literals, object literals and call arguments
+ * - ...rest parameters on methods and arrows
+ * - Array and object patterns on let declarations and assignment targets
+ * - Spread and rest results keep the sandbox Proxy wrapping and forbidden keys stay guarded
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { run } from './test-helpers'
+
+describe('Spread and destructuring parsing', () => {
+	test('parses spread elements', () => {
+		const { program } = parseSeval('{ f() { g(...a, [...b], { ...c, d: 1 }) } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'CallExpression',
+			args: [
+				{ kind: 'SpreadElement', argument: { kind: 'Identifier', name: 'a' } },
+				{ kind: 'ArrayLiteral', elements: [{ kind: 'SpreadElement' }] },
+				{ kind: 'ObjectLiteral', properties: [{ kind: 'SpreadElement' }, { key: 'd' }] },
+			],
+		})
+	})
+
+	test('parses rest parameters', () => {
+		const { program } = parseSeval('{ f(a, ...rest) { (x, ...more) => more } }')
+		const f = program.members[0]
+		expect(f).toMatchObject({ kind: 'FunctionDef', params: ['a'], rest: 'rest' })
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ArrowFunction',
+			params: ['x'],
+			rest: 'more',
+		})
+	})
+
+	test('parses let patterns', () => {
+		const { program } = parseSeval('{ f() { let { a, b: [c, ...d], ...e } = value } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'LetPatternDeclaration',
+			pattern: {
+				kind: 'ObjectPattern',
+				properties: [
+					{ key: 'a', value: { kind: 'Identifier', name: 'a' } },
+					{ key: 'b', value: { kind: 'ArrayPattern', rest: { kind: 'Identifier', name: 'd' } } },
+				],
+				rest: { kind: 'Identifier', name: 'e' },
+			},
+		})
+	})
+
+	test('turns array and object literals into assignment patterns', () => {
+		const { program } = parseSeval('{ f() { [a, this.b, { c: d[0] }] = value } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'AssignmentStatement',
+			target: {
+				kind: 'ArrayPattern',
+				elements: [
+					{ kind: 'Identifier' },
+					{ kind: 'MemberExpression' },
+					{
+						kind: 'ObjectPattern',
+						properties: [{ key: 'c', value: { kind: 'MemberExpression' } }],
+					},
+				],
+			},
+		})
+	})
+
+	test('a bracket on the next line starts a new statement', () => {
+		const { program } = parseSeval('{ f() {\n\tlet a = 1\n\t[a, b] = [b, a]\n} }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'BlockExpression',
+			statements: [{ kind: 'LetDeclaration' }, { kind: 'AssignmentStatement' }],
+		})
+	})
+
+	test('rejects rest that is not last', () => {
+		expect(() => compileSeval('{ f(...a, b) { a } }')).toThrow('A rest parameter must be last')
+		expect(() => compileSeval('{ f() { let [...a, b] = c } }')).toThrow(
+			'A rest element must be last',
+		)
+		expect(() => compileSeval('{ f() { [...a, b] = c } }')).toThrow('A rest element must be last')
+	})
+
+	test('rejects invalid pattern targets', () => {
+		expect(() => compileSeval('{ f() { [a, 1] = c } }')).toThrow('Invalid assignment target')
+		expect(() => compileSeval('{ f() { let [this] = c } }')).toThrow(SevalSyntaxError)
+		expect(() => compileSeval('{ f() { let [a, b] } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('rejects a name declared twice by patterns', () => {
+		expect(() => compileSeval('{ f() { let [a, b] = c\n let { a } = d } }')).toThrow(
+			"'a' is already declared in this block",
+		)
+	})
+
+	test('rejects patterns in for loop initializers', () => {
+		expect(() => compileSeval('{ f() { for let [i] = [0]; i < 3; i = i + 1 { i } } }')).toThrow(
+			'Destructuring is not supported in a for loop initializer',
+		)
+	})
+
+	test('allows spread in property initializers', () => {
+		const env = compileSeval('{ base: [1], list: [...base, 2], copy: { ...{ a: 1 } } }')
+		expect(Array.from(env.list as unknown[])).toEqual([1, 2])
+		expect(env.copy).toEqual({ a: 1 })
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Spread (${backend})`, () => {
+		test('spreads arrays, strings and other iterables into arrays', () => {
+			const result = run(backend, '[0, ...list, ..."ab", ...[]]', { list: [1, 2] })
+			expect(Array.from(result as unknown[])).toEqual([0, 1, 2, 'a', 'b'])
+		})
+
+		test('spreads objects, with later properties winning', () => {
+			const state = { todo: { title: 'Write', done: false } }
+			expect(run(backend, '{ ...todo, done: true }', state)).toEqual({ title: 'Write', done: true })
+			expect(run(backend, '{ done: true, ...todo }', state)).toEqual({
+				done: false,
+				title: 'Write',
+			})
+			expect(state.todo).toEqual({ title: 'Write', done: false })
+		})
+
+		test('spreads call arguments', () => {
+			expect(run(backend, 'Math.max(1, ...list)', { list: [5, 3] })).toBe(5)
+		})
+
+		test('spread arrays keep the sandbox wrapping', () => {
+			const state = { list: [1] }
+			const result = run(
+				backend,
+				'let copy = [...list]\n\t\t[copy.constructor, copy["__proto__"]]',
+				state,
+			)
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined])
+		})
+
+		test('spreading an object does not set its prototype', () => {
+			const result = run(backend, '{ ...source }', {
+				source: JSON.parse('{"__proto__": {"x": 1}}'),
+			})
+			expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+			expect((result as { x?: number }).x).toBeUndefined()
+		})
+
+		test('throws for values that cannot be spread into arrays', () => {
+			expect(() => run(backend, '[...missing]')).toThrow(TypeError)
+		})
+	})
+
+	describe(`Rest parameters (${backend})`, () => {
+		const env = compileSeval(
+			`{
+	sum(first, ...rest) { rest.reduce((a, b) => a + b, first) },
+	count(...items) { items.length },
+	tail() { ((head, ...more) => more)(1, 2, 3) },
+	unsafe(...items) { [items.constructor, items["__proto__"]] }
+}`,
+			{ backend },
+		)
+		const call = (name: string, ...args: unknown[]) =>
+			(env[name] as (...a: unknown[]) => unknown).apply({ ...env }, args)
+
+		test('collects the remaining arguments', () => {
+			expect(call('sum', 1, 2, 3)).toBe(6)
+			expect(call('sum', 1)).toBe(1)
+			expect(call('count')).toBe(0)
+		})
+
+		test('works on arrows', () => {
+			expect(Array.from(call('tail') as unknown[])).toEqual([2, 3])
+		})
+
+		test('rest arrays keep the sandbox wrapping', () => {
+			expect(Array.from(call('unsafe', 1) as unknown[])).toEqual([undefined, undefined])
+		})
+	})
+
+	describe(`Destructuring (${backend})`, () => {
+		test('let binds array items and the rest', () => {
+			const result = run(backend, 'let [a, [b], ...rest] = [1, [2], 3, 4]\n\t\t[a, b, rest]')
+			expect(JSON.parse(JSON.stringify(result))).toEqual([1, 2, [3, 4]])
+		})
+
+		test('let binds object properties and the rest', () => {
+			const state = { user: { name: 'Ann', address: { city: 'Oslo' }, age: 30, role: 'dev' } }
+			const result = run(
+				backend,
+				'let { name, address: { city: town }, ...others } = user\n\t\t[name, town, others]',
+				state,
+			)
+			expect(JSON.parse(JSON.stringify(result))).toEqual(['Ann', 'Oslo', { age: 30, role: 'dev' }])
+		})
+
+		test('let bindings stay out of this', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, 'let [x, y] = [1, 2]\n\t\tx + y', state)).toBe(3)
+			expect(state).toEqual({})
+		})
+
+		test('missing items and properties are undefined', () => {
+			const result = run(backend, 'let [a, b] = [1]\n\t\tlet { c } = {}\n\t\t[b, c]')
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined])
+		})
+
+		test('assignment writes to lets, this and properties', () => {
+			const state: Record<string, unknown> = { target: {} }
+			const result = run(
+				backend,
+				'let a = 1\n\t\tlet b = 2\n\t\t[a, b] = [b, a]\n\t\t{ x: this.x, y: target.y } = { x: a, y: b }\n\t\t[a, b]',
+				state,
+			)
+			expect(Array.from(result as unknown[])).toEqual([2, 1])
+			expect(state).toEqual({ target: { y: 1 }, x: 2 })
+		})
+
+		test('identifiers that are not lets write to this', () => {
+			const state: Record<string, unknown> = {}
+			expect(run(backend, '[first, ...others] = [1, 2, 3]\n\t\tfirst', state)).toBe(1)
+			expect(state.first).toBe(1)
+			expect(Array.from(state.others as unknown[])).toEqual([2, 3])
+		})
+
+		test('assignment evaluates to the assigned value', () => {
+			const result = run(backend, 'let a\n\t\tlet list = ([a] = [5, 6])\n\t\t[a, list.length]')
+			expect(Array.from(result as unknown[])).toEqual([5, 2])
+		})
+
+		test('let evaluates to the assigned value as the last statement', () => {
+			expect(run(backend, 'let [a] = [7]')).toEqual([7])
+		})
+
+		test('forbidden keys stay guarded', () => {
+			const result = run(
+				backend,
+				'let { constructor, __proto__ } = list\n\t\t[constructor, __proto__]',
+				{
+					list: [1],
+				},
+			)
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined])
+			expect(() => run(backend, '[this.__proto__] = [{ polluted: true }]')).toThrow()
+			expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+		})
+
+		test('object rest keeps only own properties', () => {
+			const result = run(backend, 'let { a, ...rest } = { a: 1, b: 2 }\n\t\trest.constructor')
+			expect(result).toBeUndefined()
+		})
+
+		test('throws for values that cannot be destructured', () => {
+			expect(() => run(backend, 'let [a] = 5')).toThrow('number is not iterable')
+			expect(() => run(backend, 'let [a] = missing')).toThrow('undefined is not iterable')
+			expect(() => run(backend, 'let { a } = null')).toThrow('Cannot destructure null')
+		})
+	})
+}
@@ -2,141 +2,433 @@
  * Seval AST Node Types
  */
 
+/**
+ * A position in Seval source (1-based line and column, like tokens)
+ */
+export interface SourcePosition {
+	line: number
+	column: number
+}
+
+/**
+ * A span of Seval source; end is exclusive
+ */
+export interface SourceLocation {
+	start: SourcePosition
+	end: SourcePosition
+}
+
+/**
+ * Fields shared by all nodes
+ */
+export interface BaseNode {
+	/** Source span; the parser sets it on every node it creates */
+	loc?: SourceLocation
+}
+
 export type ASTNode =
 	| NumberLiteral
 	| StringLiteral
+	| TemplateLiteral
 	| BooleanLiteral
 	| NullLiteral
 	| Identifier
 	| BinaryExpression
 	| UnaryExpression
+	| UpdateExpression
 	| TernaryExpression
+	| MatchExpression
 	| CallExpression
 	| ArrowFunction
 	| ArrayLiteral
 	| ObjectLiteral
+	| SpreadElement
 	| MemberExpression
 	| AssignmentStatement
+	| ArrayPattern
+	| ObjectPattern
+	| LetDeclaration
+	| LetPatternDeclaration
+	| ReturnStatement
+	| BreakStatement
+	| ContinueStatement
+	| ThrowStatement
+	| TryStatement
 	| IfStatement
 	| ForStatement
+	| ForInStatement
 	| BlockExpression
 	| PropertyDef
 	| FunctionDef
 
-export interface NumberLiteral {
+export interface NumberLiteral extends BaseNode {
 	kind: 'NumberLiteral'
 	value: number
+	/** Source text as written, like 0xff or 1_000 (nodes built by a transform may leave it out) */
+	raw?: string
 }
 
-export interface StringLiteral {
+export interface StringLiteral extends BaseNode {
 	kind: 'StringLiteral'
 	value: string
 }
 
-export interface BooleanLiteral {
+/**
+ * `text ${expr} text`: quasis holds the text around the expressions (escapes
+ * decoded), so it always has one more entry than expressions
+ */
+export interface TemplateLiteral extends BaseNode {
+	kind: 'TemplateLiteral'
+	quasis: string[]
+	expressions: ASTNode[]
+}
+
+export interface BooleanLiteral extends BaseNode {
 	kind: 'BooleanLiteral'
 	value: boolean
 }
 
-export interface NullLiteral {
+export interface NullLiteral extends BaseNode {
 	kind: 'NullLiteral'
 	value: null
 }
 
-export interface Identifier {
+export interface Identifier extends BaseNode {
 	kind: 'Identifier'
 	name: string
 }
 
-export interface ArrayLiteral {
+export interface ArrayLiteral extends BaseNode {
 	kind: 'ArrayLiteral'
-	elements: ASTNode[]
+	elements: Array<ASTNode | SpreadElement>
 }
 
-export interface ObjectLiteral {
+export interface ObjectLiteral extends BaseNode {
 	kind: 'ObjectLiteral'
-	properties: Array<{ key: string; value: ASTNode }>
+	properties: Array<ObjectProperty | SpreadElement>
 }
 
-export interface PropertyDef {
+/**
+ * key: value in an object literal. Quoted and numeric keys are stored as their string;
+ * { name } has the Identifier name as its value and { name(params) { body } } a FunctionDef
+ */
+export interface ObjectProperty {
+	key: string | ASTNode // string for static keys, the key expression for computed [key]
+	computed?: boolean
+	value: ASTNode
+	loc?: SourceLocation
+}
+
+/**
+ * `...argument` in an array literal, object literal or call arguments
+ */
+export interface SpreadElement extends BaseNode {
+	kind: 'SpreadElement'
+	argument: ASTNode
+}
+
+export interface PropertyDef extends BaseNode {
 	kind: 'PropertyDef'
 	name: string
 	value: ASTNode
 }
 
-export interface FunctionDef {
+export interface FunctionDef extends BaseNode {
 	kind: 'FunctionDef'
 	name: string
 	params: string[]
+	rest?: string // ...name: the arguments after params, as an array
 	body: ASTNode
 }
 
-export interface CallExpression {
+export interface CallExpression extends BaseNode {
 	kind: 'CallExpression'
 	callee: ASTNode // Can be Identifier or ArrowFunction
-	args: ASTNode[]
+	args: Array<ASTNode | SpreadElement>
+	optional?: boolean // true for fn?.(), which skips the call when fn is null or undefined
 }
 
-export interface MemberExpression {
+export interface MemberExpression extends BaseNode {
 	kind: 'MemberExpression'
 	object: ASTNode
 	property: string | ASTNode // string for dot notation, ASTNode for bracket notation
 	computed: boolean // true for arr[0], false for obj.prop
+	optional?: boolean // true for obj?.prop and arr?.[0]: a null or undefined object ends the chain
 }
 
-export interface AssignmentStatement {
+export interface AssignmentStatement extends BaseNode {
 	kind: 'AssignmentStatement'
-	target: Identifier | MemberExpression // variable or property
+	target: Identifier | MemberExpression | ArrayPattern | ObjectPattern // variable, property or pattern
+	value: ASTNode
+	operator?: CompoundOperator // x += value; the target is never a pattern then
+}
+
+/**
+ * Operator of a compound assignment: x += y assigns x + y to x
+ */
+export type CompoundOperator = '+=' | '-=' | '*='
+
+/**
+ * What a destructuring pattern writes to: a variable, a property (assignments
+ * only) or a nested pattern
+ */
+export type PatternTarget = Identifier | MemberExpression | ArrayPattern | ObjectPattern
+
+/**
+ * Destructuring pattern `[a, b, ...rest]`
+ */
+export interface ArrayPattern extends BaseNode {
+	kind: 'ArrayPattern'
+	elements: PatternTarget[]
+	rest?: PatternTarget // receives the remaining items as an array
+}
+
+/**
+ * Destructuring pattern `{ a, b: target, ...rest }`
+ */
+export interface ObjectPattern extends BaseNode {
+	kind: 'ObjectPattern'
+	properties: PatternProperty[]
+	rest?: PatternTarget // receives the remaining properties as an object
+}
+
+/**
+ * `key: target` in an object pattern (`{ key }` is key: key)
+ */
+export interface PatternProperty {
+	key: string
+	value: PatternTarget
+	loc?: SourceLocation
+}
+
+export interface LetDeclaration extends BaseNode {
+	kind: 'LetDeclaration'
+	name: string // block-scoped local, never written to this
+	value?: ASTNode // initial value (optional, defaults to null)
+}
+
+/**
+ * `let [a, b] = value` or `let { a, b } = value`: every name in the pattern is a let binding
+ */
+export interface LetPatternDeclaration extends BaseNode {
+	kind: 'LetPatternDeclaration'
+	pattern: ArrayPattern | ObjectPattern
+	value: ASTNode
+}
+
+export interface ReturnStatement extends BaseNode {
+	kind: 'ReturnStatement'
+	value?: ASTNode // returned value (optional, defaults to null)
+}
+
+export interface BreakStatement extends BaseNode {
+	kind: 'BreakStatement'
+}
+
+export interface ContinueStatement extends BaseNode {
+	kind: 'ContinueStatement'
+}
+
+export interface ThrowStatement extends BaseNode {
+	kind: 'ThrowStatement'
 	value: ASTNode
 }
 
-export interface ArrowFunction {
+export interface TryStatement extends BaseNode {
+	kind: 'TryStatement'
+	block: ASTNode
+	param?: string // catch (name): bound to the { message, code } error value
+	handler?: ASTNode // catch body; a try has a handler, a finalizer or both
+	finalizer?: ASTNode
+}
+
+export interface ArrowFunction extends BaseNode {
 	kind: 'ArrowFunction'
 	params: string[]
-	body: ASTNode
+	rest?: string // ...name: the arguments after params, as an array
+	body: ASTNode // an expression, or the statements of a { ... } block like FunctionDef
 }
 
-export interface BinaryExpression {
+export interface BinaryExpression extends BaseNode {
 	kind: 'BinaryExpression'
 	operator: string
 	left: ASTNode
 	right: ASTNode
 }
 
-export interface UnaryExpression {
+export interface UnaryExpression extends BaseNode {
 	kind: 'UnaryExpression'
 	operator: string
 	operand: ASTNode
 }
 
-export interface TernaryExpression {
+/**
+ * ++x and --x (prefix: the updated value) or x++ and x-- (postfix: the previous value)
+ */
+export interface UpdateExpression extends BaseNode {
+	kind: 'UpdateExpression'
+	operator: '++' | '--'
+	prefix: boolean
+	target: Identifier | MemberExpression
+}
+
+export interface TernaryExpression extends BaseNode {
 	kind: 'TernaryExpression'
 	condition: ASTNode
 	consequent: ASTNode
 	alternate: ASTNode
 }
 
-export interface BlockExpression {
+/**
+ * match subject { pattern if guard => body, ... }: the body of the first arm whose pattern
+ * equals the subject (===) and whose guard holds, or null when no arm matches
+ */
+export interface MatchExpression extends BaseNode {
+	kind: 'MatchExpression'
+	subject: ASTNode
+	arms: MatchArm[]
+}
+
+export interface MatchArm {
+	pattern?: ASTNode // a literal; absent for the _ wildcard
+	guard?: ASTNode
+	body: ASTNode
+	loc?: SourceLocation
+}
+
+export interface BlockExpression extends BaseNode {
 	kind: 'BlockExpression'
 	statements: ASTNode[]
 }
 
-export interface IfStatement {
+export interface IfStatement extends BaseNode {
 	kind: 'IfStatement'
 	condition: ASTNode
 	consequent: ASTNode
 	alternate?: ASTNode // Can be another IfStatement (for elif) or BlockExpression/other (for else)
 }
 
-export interface ForStatement {
+export interface ForStatement extends BaseNode {
 	kind: 'ForStatement'
-	init?: ASTNode // initialization expression (optional)
+	init?: ASTNode // initialization expression or let declaration (optional)
 	condition: ASTNode // loop condition
 	update?: ASTNode // update expression (optional)
 	body: ASTNode // loop body
 }
 
-export interface Program {
+export interface ForInStatement extends BaseNode {
+	kind: 'ForInStatement'
+	// [item] or [key, value]; scoped to the loop body
+	variables: string[]
+	iterable: ASTNode // array, string or plain object
+	body: ASTNode // loop body
+}
+
+/**
+ * One name of an import: `imported` in the module, bound to `local` (`imported as local`)
+ */
+export interface ImportSpecifier extends BaseNode {
+	imported: string
+	local: string
+}
+
+/**
+ * `import { name, other as alias } from "module"` before a program's opening brace
+ */
+export interface ImportDeclaration extends BaseNode {
+	kind: 'ImportDeclaration'
+	specifiers: ImportSpecifier[]
+	source: string // module name
+}
+
+export interface Program extends BaseNode {
 	kind: 'Program'
+	// Only set when the program imports anything
+	imports?: ImportDeclaration[]
 	members: Array<PropertyDef | FunctionDef>
 }
+
+/**
+ * Whether a member/call chain contains an optional link (`?.`) at or below node,
+ * so a null or undefined value there skips the rest of the chain
+ */
+export function hasOptionalLink(node: ASTNode): boolean {
+	let link = node
+	while (link.kind === 'MemberExpression' || link.kind === 'CallExpression') {
+		if (link.optional) return true
+		link = link.kind === 'MemberExpression' ? link.object : link.callee
+	}
+	return false
+}
+
+/**
+ * The variables and properties a pattern writes to, in source order (the order
+ * primitives.__destructure returns their values in)
+ */
+export function patternTargets(pattern: PatternTarget): Array<Identifier | MemberExpression> {
+	switch (pattern.kind) {
+		case 'ArrayPattern':
+			return [...pattern.elements, ...(pattern.rest ? [pattern.rest] : [])].flatMap(patternTargets)
+		case 'ObjectPattern':
+			return [
+				...pattern.properties.map((prop) => prop.value),
+				...(pattern.rest ? [pattern.rest] : []),
+			].flatMap(patternTargets)
+		default:
+			return [pattern]
+	}
+}
+
+/**
+ * Names a statement declares in its block: the name of a let, or every name in a let pattern
+ */
+export function declaredNames(node: ASTNode): string[] {
+	if (node.kind === 'LetDeclaration') {
+		return [node.name]
+	}
+	if (node.kind === 'LetPatternDeclaration') {
+		return patternTargets(node.pattern).map((target) => (target as Identifier).name)
+	}
+	return []
+}
+
+/**
+ * Whether a property value is literal data (numbers, strings, plain templates and
+ * arrays/objects of them), which is stored as is instead of being evaluated
+ */
+export function isConstantValue(node: ASTNode): boolean {
+	switch (node.kind) {
+		case 'NumberLiteral':
+		case 'StringLiteral':
+		case 'BooleanLiteral':
+		case 'NullLiteral':
+			return true
+		case 'TemplateLiteral':
+			return node.expressions.length === 0
+		case 'ArrayLiteral':
+			return node.elements.every(isConstantValue)
+		case 'ObjectLiteral':
+			return node.properties.every(
+				(prop) =>
+					!('kind' in prop) &&
+					(typeof prop.key === 'string' || isConstantValue(prop.key)) &&
+					isConstantValue(prop.value),
+			)
+		default:
+			return false
+	}
+}
+
+/**
+ * A property initializer as a method without parameters, so backends give it the same this
+ * binding, budget and error locations
+ */
+export function initializer(property: PropertyDef): FunctionDef {
+	return {
+		kind: 'FunctionDef',
+		name: property.name,
+		params: [],
+		body: property.value,
+		loc: property.loc,
+	}
+}
@@ -0,0 +1,114 @@
+/**
+ * Seval Execution Budgets
+ *
+ * Limits on loop iterations, call depth and elapsed time for each top-level
+ * call into a compiled program (one action), so runaway code fails fast
+ * instead of freezing the page.
+ */
+
+export interface ExecutionBudget {
+	/** Total loop iterations allowed per top-level call */
+	maxLoopIterations?: number
+	/** Maximum nesting of Seval function and arrow calls */
+	maxCallDepth?: number
+	/** Wall-clock milliseconds allowed per top-level call */
+	timeoutMs?: number
+}
+
+/**
+ * Budget applied by SevalRuntime when none is configured
+ */
+export const DEFAULT_EXECUTION_BUDGET: Required<ExecutionBudget> = {
+	maxLoopIterations: 1_000_000,
+	maxCallDepth: 256,
+	timeoutMs: 1000,
+}
+
+export type BudgetLimit = 'loopIterations' | 'callDepth' | 'timeout'
+
+/**
+ * Thrown when a top-level call exceeds its execution budget
+ */
+export class SevalBudgetExceededError extends Error {
+	public readonly limit: BudgetLimit
+	/** The configured maximum that was exceeded */
+	public readonly max: number
+
+	constructor(limit: BudgetLimit, max: number) {
+		const messages: Record<BudgetLimit, string> = {
+			loopIterations: `Loop iteration limit exceeded (${max} iterations)`,
+			callDepth: `Call depth limit exceeded (${max} nested calls)`,
+			timeout: `Execution time limit exceeded (${max}ms)`,
+		}
+		super(messages[limit])
+		this.name = 'SevalBudgetExceededError'
+		this.limit = limit
+		this.max = max
+	}
+}
+
+/**
+ * How many loop iterations run between clock checks
+ */
+const TIME_CHECK_INTERVAL = 1024
+
+/**
+ * Tracks budget usage of one compiled program. Compiled and interpreted code
+ * call enter/exit around every function body and tick once per loop iteration.
+ */
+export class BudgetTracker {
+	private maxLoopIterations: number
+	private maxCallDepth: number
+	private timeoutMs: number
+	private depth = 0
+	private iterations = 0
+	private deadline = Number.POSITIVE_INFINITY
+
+	constructor(budget: ExecutionBudget) {
+		this.maxLoopIterations = budget.maxLoopIterations ?? Number.POSITIVE_INFINITY
+		this.maxCallDepth = budget.maxCallDepth ?? Number.POSITIVE_INFINITY
+		this.timeoutMs = budget.timeoutMs ?? Number.POSITIVE_INFINITY
+	}
+
+	/**
+	 * Enter a function body. A call at depth 0 starts a fresh budget.
+	 */
+	public enter(): void {
+		if (this.depth === 0) {
+			this.iterations = 0
+			this.deadline = Date.now() + this.timeoutMs
+		} else {
+			this.checkTime()
+		}
+		if (this.depth >= this.maxCallDepth) {
+			throw new SevalBudgetExceededError('callDepth', this.maxCallDepth)
+		}
+		this.depth++
+	}
+
+	/**
+	 * Leave a function body (always paired with a successful enter)
+	 */
+	public exit(): void {
+		this.depth--
+	}
+
+	/**
+	 * Count one loop iteration
+	 */
+	public tick(): void {
+		this.iterations++
+		if (this.iterations > this.maxLoopIterations) {
+			throw new SevalBudgetExceededError('loopIterations', this.maxLoopIterations)
+		}
+		if (this.iterations % TIME_CHECK_INTERVAL === 0) {
+			this.checkTime()
+		}
+	}
+
+	private checkTime(): void {
+		if (Date.now() > this.deadline) {
+			throw new SevalBudgetExceededError('timeout', this.timeoutMs)
+		}
+	}
+}
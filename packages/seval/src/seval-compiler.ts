@@ -5,23 +5,230 @@
  * Methods are compiled using new Function() for native execution.
  */
 
-import type { ASTNode, FunctionDef, Program, PropertyDef } from './seval-ast'
-import { primitives } from './seval-primitives'
+import {
+	type ASTNode,
+	type CallExpression,
+	type ForInStatement,
+	type ForStatement,
+	type FunctionDef,
+	type Identifier,
+	type IfStatement,
+	type MemberExpression,
+	type PatternTarget,
+	type Program,
+	type PropertyDef,
+	type TryStatement,
+	declaredNames,
+	hasOptionalLink,
+	initializer,
+	isConstantValue,
+	patternTargets,
+} from './seval-ast'
+import { BudgetTracker, type ExecutionBudget } from './seval-budget'
+import {
+	NATIVE_OPERATORS,
+	type OperatorOptions,
+	PREDICATE_METHODS,
+	type SevalOperators,
+	defaultOperators,
+	isBinaryOperator,
+	resolveOperators,
+} from './seval-operators'
+import { isPrimitive, primitives } from './seval-primitives'
+import { isForbiddenKey } from './seval-sandbox'
+import { SevalSourceMap, recordSevalErrorLocation } from './seval-sourcemap'
+
+export interface CompilerOptions extends OperatorOptions {
+	/** Seval source text, used to render code frames for runtime errors */
+	source?: string
+	/** Name reported in runtime error locations (default: '<seval>') */
+	filename?: string
+	/** Limits enforced on every top-level call (default: unlimited, no guards emitted) */
+	budget?: ExecutionBudget
+}
+
+/**
+ * Local names visible at compile time, mapped to how they were bound.
+ * Parameters are read-only (assigning to one writes this.xxx); let bindings are assignable.
+ */
+type Scope = ReadonlyMap<string, 'param' | 'let'>
+
+/**
+ * Turns the value of the last statement in a block into JS (e.g. `return value;`)
+ */
+type Tail = (value: string) => string
+
+const RETURN: Tail = (value) => `return ${value};`
+
+/**
+ * Names a Seval local cannot use as-is in generated code: JS reserved words and
+ * the names the compiled function itself binds
+ */
+const RESERVED_NAMES = new Set([
+	'arguments',
+	'await',
+	'break',
+	'case',
+	'catch',
+	'class',
+	'const',
+	'continue',
+	'debugger',
+	'default',
+	'delete',
+	'do',
+	'enum',
+	'eval',
+	'export',
+	'extends',
+	'finally',
+	'function',
+	'implements',
+	'import',
+	'in',
+	'instanceof',
+	'interface',
+	'new',
+	'package',
+	'private',
+	'protected',
+	'public',
+	'return',
+	'static',
+	'super',
+	'switch',
+	'throw',
+	'try',
+	'typeof',
+	'var',
+	'void',
+	'while',
+	'with',
+	'yield',
+	'primitives',
+	'__budget',
+	'__operators',
+])
+
+/**
+ * JS name for a Seval local. `$` cannot appear in Seval identifiers, so prefixed names never clash.
+ */
+function localName(name: string): string {
+	return RESERVED_NAMES.has(name) ? `$${name}` : name
+}
+
+/**
+ * Escape text for the body of a JS template literal. \r is escaped because
+ * template literals turn raw carriage returns into \n.
+ */
+function templateText(text: string): string {
+	return text.replace(/[\\`$\r]/g, (ch) => (ch === '\r' ? '\\r' : `\\${ch}`))
+}
+
+/**
+ * A pattern's structure for primitives.__destructure, with its targets replaced by null
+ */
+function patternShape(pattern: PatternTarget): unknown {
+	switch (pattern.kind) {
+		case 'ArrayPattern':
+			return {
+				kind: pattern.kind,
+				elements: pattern.elements.map(patternShape),
+				rest: pattern.rest && patternShape(pattern.rest),
+			}
+		case 'ObjectPattern':
+			return {
+				kind: pattern.kind,
+				properties: pattern.properties.map((prop) => ({
+					key: prop.key,
+					value: patternShape(prop.value),
+				})),
+				rest: pattern.rest && patternShape(pattern.rest),
+			}
+		default:
+			return null
+	}
+}
+
+/**
+ * JS parameter list for params followed by an optional rest parameter
+ */
+function paramList(params: string[], rest: string | undefined): string[] {
+	const names = params.map(localName)
+	return rest === undefined ? names : [...names, `...${localName(rest)}`]
+}
+
+/**
+ * Statement turning a native rest parameter into a sandboxed Seval array
+ */
+function restPrologue(rest: string | undefined): string {
+	if (rest === undefined) return ''
+	const name = localName(rest)
+	return `${name} = primitives.__createArray(...${name}); `
+}
+
+/**
+ * Statement collecting a method's rest parameter from arguments into a sandboxed Seval array.
+ * Methods are strict mode functions, which cannot have a native rest parameter.
+ * @param offset Index of the first rest argument
+ */
+function restArguments(rest: string | undefined, offset: number): string {
+	if (rest === undefined) return ''
+	return `let ${localName(rest)} = primitives.__createArray(...[...arguments].slice(${offset})); `
+}
+
+function declare(scope: Scope, names: string[], kind: 'param' | 'let'): Scope {
+	if (names.length === 0) return scope
+	const inner = new Map(scope)
+	for (const name of names) {
+		inner.set(name, kind)
+	}
+	return inner
+}
 
 export class SevalCompiler {
+	private source: string
+	private filename: string
+	private budget: ExecutionBudget | undefined
+	private operators: SevalOperators
+	private tracker: BudgetTracker | null = null
+	private sourceMap = new SevalSourceMap()
+
+	constructor(options: CompilerOptions = {}) {
+		this.source = options.source ?? ''
+		this.filename = options.filename ?? '<seval>'
+		this.budget = options.budget
+		this.operators = resolveOperators(options)
+	}
+
 	/**
 	 * Compile a Seval program to a native JavaScript object
+	 * @param imports Values of the program's imports by local name (see resolveImports)
 	 */
-	public compile(program: Program): Record<string, unknown> {
-		const obj: Record<string, unknown> = {}
-
+	public compile(program: Program, imports: Record<string, unknown> = {}): Record<string, unknown> {
+		// Imported members are keys of the object like the program's own
+		const obj: Record<string, unknown> = { ...imports }
+		// Budget usage is shared by all methods of the compiled object
+		this.tracker = this.budget ? new BudgetTracker(this.budget) : null
+
+		// Methods first, so property initializers can call any of them;
+		// properties get their slot now to keep the declaration order of keys
 		for (const member of program.members) {
-			if (member.kind === 'PropertyDef') {
-				// Properties: evaluate and store directly
-				obj[member.name] = this.compileValue(member.value)
-			} else if (member.kind === 'FunctionDef') {
+			if (member.kind === 'FunctionDef') {
 				// Methods: compile to native JS functions
 				obj[member.name] = this.compileFunction(member)
+			} else {
+				obj[member.name] = undefined
+			}
+		}
+
+		// Properties: literal data is stored directly; other initializers run once, in
+		// declaration order, with this bound to the object (earlier properties are set)
+		for (const member of program.members) {
+			if (member.kind === 'PropertyDef') {
+				obj[member.name] = isConstantValue(member.value)
+					? this.compileValue(member.value)
+					: this.compileFunction(initializer(member)).call(obj)
 			}
 		}
 
@@ -42,6 +249,13 @@ export class SevalCompiler {
 			case 'BooleanLiteral':
 				return node.value
 
+			case 'TemplateLiteral':
+				// Only reached for constant values (see isConstantValue)
+				if (node.expressions.length === 0) {
+					return node.quasis[0]
+				}
+				throw new Error('Cannot compile value of kind: TemplateLiteral')
+
 			case 'NullLiteral':
 				return null
 
@@ -51,7 +265,12 @@ export class SevalCompiler {
 			case 'ObjectLiteral': {
 				const obj: Record<string, unknown> = {}
 				for (const prop of node.properties) {
-					obj[prop.key] = this.compileValue(prop.value)
+					if ('kind' in prop) {
+						throw new Error('Cannot compile value of kind: SpreadElement')
+					}
+					// A computed key must be constant too
+					const key = typeof prop.key === 'string' ? prop.key : String(this.compileValue(prop.key))
+					obj[key] = this.compileValue(prop.value)
 				}
 				return obj
 			}
@@ -65,38 +284,244 @@ export class SevalCompiler {
 	 * Compile a function to a native JavaScript function
 	 */
 	private compileFunction(func: FunctionDef): (...args: unknown[]) => unknown {
-		// Compile function body to JS expression string
-		const bodyCode = this.compileExpression(func.body, func.params)
+		// Each function gets its own source map for the code it generates
+		const sourceMap = new SevalSourceMap()
+		this.sourceMap = sourceMap
+
+		// Compile function body to JS statements returning the last statement's value
+		const params = func.rest === undefined ? func.params : [...func.params, func.rest]
+		const scope = declare(new Map(), params, 'param')
+		// The rest parameter starts after primitives, __budget, __operators and the parameters.
+		// The body is a block of its own, so its let declarations can shadow the parameters.
+		const bodyCode = `${restArguments(func.rest, func.params.length + 3)}{ ${this.compileBody(func.body, scope, RETURN)} }`
 
 		// Create native JS function with proper this binding
-		// The function signature is: function(...userParams, primitives)
-		// When called, we need to append primitives as the last argument
-		const funcCode = `return ${bodyCode}`
+		// The function signature is: function(primitives, __budget, __operators, ...userParams)
+		// When called, we need to prepend primitives, the budget tracker and the operator table
+		// sourceURL names the function's frames in stack traces so errors can be mapped back.
+		// Strict mode (inherited by nested arrows and methods) leaves this undefined in calls
+		// without a receiver, such as callbacks, instead of globalThis
+		const sourceURL = `seval://${encodeURIComponent(this.filename)}/${func.name}`
+		const funcCode = `${sourceMap.extract(`'use strict';\n${bodyCode}`)}\n//# sourceURL=${sourceURL}`
+		const { source, filename, tracker, operators } = this
 
 		try {
-			// Create function: function(param1, param2, ..., primitives) { return ... }
-			const compiledFunc = new Function(...func.params, 'primitives', funcCode)
-
-			// Wrap to inject primitives
+			// Create function: function(primitives, __budget, __operators, param1, ...) { ... }
+			// (they come first so a rest parameter can take the remaining arguments)
+			const compiledFunc = new Function(
+				'primitives',
+				'__budget',
+				'__operators',
+				...func.params.map(localName),
+				funcCode,
+			)
+
+			// Wrap to inject primitives, enforce the call budget and map runtime errors back to Seval source
 			return function (this: unknown, ...args: unknown[]) {
-				return compiledFunc.apply(this, [...args, primitives])
+				tracker?.enter()
+				try {
+					return compiledFunc.apply(this, [primitives, tracker, operators, ...args])
+				} catch (error) {
+					const stack = error instanceof Error ? (error.stack ?? '') : ''
+					const loc = sourceMap.locateStackFrame(stack, sourceURL) ?? func.loc
+					if (loc) {
+						recordSevalErrorLocation(error, source, filename, func.name, loc)
+					}
+					throw error
+				} finally {
+					tracker?.exit()
+				}
 			}
 		} catch (error) {
 			throw new Error(`Failed to compile function ${func.name}: ${error}`)
 		}
 	}
+	/**
+	 * Compile a function, if or for body to JS statements. The body is a block
+	 * scope: its let declarations are visible throughout it, like JS.
+	 * @param tail Applied to the last statement's value (null to discard it)
+	 */
+	private compileBody(node: ASTNode, scope: Scope, tail: Tail | null): string {
+		const statements = node.kind === 'BlockExpression' ? node.statements : [node]
+		if (statements.length === 0) {
+			return tail ? tail('undefined') : ''
+		}
+
+		const lets = statements.flatMap(declaredNames)
+		const blockScope = declare(scope, lets, 'let')
+		const last = statements.length - 1
+		return statements
+			.map((stmt, i) => this.compileStatement(stmt, blockScope, i === last ? tail : null))
+			.join(' ')
+	}
+
+	/**
+	 * Compile a statement to JS statements
+	 */
+	private compileStatement(node: ASTNode, scope: Scope, tail: Tail | null): string {
+		let code: string
+		switch (node.kind) {
+			case 'LetDeclaration': {
+				const name = localName(node.name)
+				const value = node.value ? this.compileExpression(node.value, scope) : 'null'
+				code = tail ? `let ${name} = ${value}; ${tail(name)}` : `let ${name} = ${value};`
+				break
+			}
+
+			case 'LetPatternDeclaration': {
+				// Native array destructuring of the values __destructure read through the guard
+				const names = declaredNames(node).map(localName).join(', ')
+				const shape = JSON.stringify(patternShape(node.pattern))
+				const value = this.compileExpression(node.value, scope)
+				// $value cannot clash with Seval names, which never contain $
+				code = tail
+					? `const $value = ${value}; let [${names}] = primitives.__destructure(${shape}, $value); ${tail('$value')}`
+					: `let [${names}] = primitives.__destructure(${shape}, ${value});`
+				break
+			}
+
+			// return, break and continue are native JS statements: bodies are never wrapped in functions
+			case 'ReturnStatement': {
+				const value = node.value ? this.compileExpression(node.value, scope) : 'null'
+				code = `return ${value};`
+				break
+			}
+
+			case 'BreakStatement':
+				code = 'break;'
+				break
+
+			case 'ContinueStatement':
+				code = 'continue;'
+				break
+
+			case 'ThrowStatement':
+				code = `throw primitives.__throw(${this.compileExpression(node.value, scope)});`
+				break
+
+			case 'TryStatement':
+				code = this.compileTry(node, scope, tail)
+				break
+
+			case 'IfStatement':
+				code = this.compileIf(node, scope, tail)
+				break
+
+			case 'ForStatement':
+				code = this.compileFor(node, scope, tail)
+				break
+
+			case 'ForInStatement':
+				code = this.compileForIn(node, scope, tail)
+				break
+
+			case 'BlockExpression':
+				code = `{ ${this.compileBody(node, scope, tail)} }`
+				break
+
+			default: {
+				const expr = this.compileExpression(node, scope)
+				// Parenthesize object literals so they are not parsed as blocks
+				const statement = expr.startsWith('{') ? `(${expr})` : expr
+				code = tail ? tail(expr) : `${statement};`
+			}
+		}
+		// Runtime errors are located at the innermost statement: remember where its code starts
+		return node.loc ? this.sourceMap.mark(node.loc, code) : code
+	}
+
+	private compileIf(node: IfStatement, scope: Scope, tail: Tail | null): string {
+		const condition = this.compileCondition(node.condition, scope)
+		const consequent = this.compileBody(node.consequent, scope, tail)
+
+		if (node.alternate) {
+			// elif chains are IfStatements in the else body
+			const alternate = this.compileBody(node.alternate, scope, tail)
+			return `if (${condition}) { ${consequent} } else { ${alternate} }`
+		}
+
+		// If without else has the value null when the condition is false
+		return tail
+			? `if (${condition}) { ${consequent} } else { ${tail('null')} }`
+			: `if (${condition}) { ${consequent} }`
+	}
+
+	private compileTry(node: TryStatement, scope: Scope, tail: Tail | null): string {
+		// The try has the value of its block, or of the catch body when the block threw
+		let code = `try { ${this.compileBody(node.block, scope, tail)} }`
+		if (node.handler) {
+			// __catch rethrows budget errors, so the handler only runs for catchable ones
+			// ($error cannot clash with Seval names, which never contain $)
+			const binding = node.param === undefined ? '' : `let ${localName(node.param)} = `
+			const handlerScope = node.param === undefined ? scope : declare(scope, [node.param], 'let')
+			const handler = this.compileBody(node.handler, handlerScope, tail)
+			code += ` catch ($error) { ${binding}primitives.__catch($error); { ${handler} } }`
+		}
+		if (node.finalizer) {
+			code += ` finally { ${this.compileBody(node.finalizer, scope, null)} }`
+		}
+		return code
+	}
+
+	private compileFor(node: ForStatement, scope: Scope, tail: Tail | null): string {
+		// for let i = 0; ...: i is scoped to the loop (and fresh in each iteration, like JS)
+		const init = node.init
+		const loopScope = init?.kind === 'LetDeclaration' ? declare(scope, [init.name], 'let') : scope
+		let initCode = ''
+		if (init?.kind === 'LetDeclaration') {
+			const value = init.value ? this.compileExpression(init.value, loopScope) : 'null'
+			initCode = `let ${localName(init.name)} = ${value}`
+		} else if (init) {
+			initCode = this.compileExpression(init, loopScope)
+		}
+		const condition = this.compileCondition(node.condition, loopScope)
+		const update = node.update ? this.compileExpression(node.update, loopScope) : ''
+		const body = this.compileBody(node.body, loopScope, null)
+
+		// Count iterations when a budget is set; the loop itself has the value null
+		const tick = this.tracker ? '__budget.tick(); ' : ''
+		const loop = `for (${initCode}; ${condition}; ${update}) { ${tick}${body} }`
+		return tail ? `${loop} ${tail('null')}` : loop
+	}
+
+	private compileForIn(node: ForInStatement, scope: Scope, tail: Tail | null): string {
+		const pairs = node.variables.length === 2
+		// The collection is evaluated before the loop variables exist, so `for item in item.children` works
+		const items = `primitives.__forIn(${this.compileExpression(node.iterable, scope)}, ${pairs})`
+		const names = node.variables.map(localName)
+		const binding = pairs ? `[${names.join(', ')}]` : names[0]
+		const body = this.compileBody(node.body, declare(scope, node.variables, 'let'), null)
+
+		// $items cannot clash with Seval names, which never contain $
+		const tick = this.tracker ? '__budget.tick(); ' : ''
+		const loop = `{ const $items = ${items}; for (let ${binding} of $items) { ${tick}${body} } }`
+		return tail ? `${loop} ${tail('null')}` : loop
+	}
+
 	/**
 	 * Compile an expression to JavaScript code string
-	 * @param params Function parameters (for scope checking)
+	 * @param scope Locals visible to the expression (parameters and let bindings)
 	 */
-	private compileExpression(node: ASTNode, params: string[] = []): string {
+	private compileExpression(node: ASTNode, scope: Scope): string {
 		switch (node.kind) {
 			case 'NumberLiteral':
-				return String(node.value)
+				if (this.isNative('literal')) return String(node.value)
+				return node.raw === undefined
+					? `__operators.literal(${node.value})`
+					: `__operators.literal(${node.value}, ${JSON.stringify(node.raw)})`
 
 			case 'StringLiteral':
 				return JSON.stringify(node.value)
 
+			case 'TemplateLiteral': {
+				// A native template literal converts values like String(), as + does with a string
+				const parts = node.expressions.map(
+					(expr, i) =>
+						`\${${this.compileExpression(expr, scope)}}${templateText(node.quasis[i + 1])}`,
+				)
+				return `\`${templateText(node.quasis[0])}${parts.join('')}\``
+			}
+
 			case 'BooleanLiteral':
 				return String(node.value)
 
@@ -108,132 +533,318 @@ export class SevalCompiler {
 				if (node.name === 'this') {
 					return 'this'
 				}
-				// Check if it's a function parameter
-				if (params.includes(node.name)) {
-					return node.name
+				// Check if it's a parameter or let binding
+				if (scope.has(node.name)) {
+					return localName(node.name)
 				}
 				// Check if it's a primitive function
-				if (node.name in primitives) {
+				if (isPrimitive(node.name)) {
 					return `primitives.${node.name}`
 				}
+				// Names like constructor must not reach the object's prototype chain
+				if (isForbiddenKey(node.name)) {
+					return `primitives.__get(this, ${JSON.stringify(node.name)})`
+				}
 				// Otherwise it's an object member (property or method)
 				return `this.${node.name}`
 
 			case 'MemberExpression': {
-				const object = this.compileExpression(node.object, params)
-				if (node.computed) {
-					// Bracket notation: obj[key]
-					const property = this.compileExpression(node.property as ASTNode, params)
-					return `${object}[${property}]`
+				const object = this.compileExpression(node.object, scope)
+				const key = this.guardedKey(node, scope)
+				if (key !== null && hasOptionalLink(node)) {
+					// Inside an optional chain the read stays native so ?. can skip the rest of
+					// the chain; only the key goes through the runtime guard
+					return `${object}${node.optional ? '?.' : ''}[primitives.__key(${key})]`
 				}
-				// Dot notation: obj.prop
-				return `${object}.${node.property}`
+				if (key !== null) {
+					// Bracket notation and forbidden names go through the runtime guard
+					return `primitives.__get(${object}, ${key})`
+				}
+				// Dot notation: obj.prop or obj?.prop
+				return `${object}${node.optional ? '?.' : '.'}${node.property}`
 			}
 
 			case 'BinaryExpression': {
-				const left = this.compileExpression(node.left, params)
-				const right = this.compileExpression(node.right, params)
-				return `(${left} ${node.operator} ${right})`
+				const left = this.compileExpression(node.left, scope)
+				const right = this.compileExpression(node.right, scope)
+				if (!this.isNative('truthy') && (node.operator === '&&' || node.operator === '||')) {
+					// Test the left operand with truthy, keeping its value
+					const [then, otherwise] = node.operator === '&&' ? [right, '$left'] : ['$left', right]
+					return `(($left) => __operators.truthy($left) ? ${then} : ${otherwise})(${left})`
+				}
+				return this.operation(node.operator, left, right)
 			}
 
 			case 'UnaryExpression': {
-				const operand = this.compileExpression(node.operand, params)
+				if (node.operator === '!') {
+					return `(!${this.compileCondition(node.operand, scope)})`
+				}
+				const operand = this.compileExpression(node.operand, scope)
+				if (node.operator === '-' && !this.isNative('neg')) {
+					return `__operators.neg(${operand})`
+				}
 				return `(${node.operator}${operand})`
 			}
 
 			case 'TernaryExpression': {
-				const condition = this.compileExpression(node.condition, params)
-				const consequent = this.compileExpression(node.consequent, params)
-				const alternate = this.compileExpression(node.alternate, params)
+				const condition = this.compileCondition(node.condition, scope)
+				const consequent = this.compileExpression(node.consequent, scope)
+				const alternate = this.compileExpression(node.alternate, scope)
 				return `(${condition} ? ${consequent} : ${alternate})`
 			}
 
+			case 'MatchExpression': {
+				// Arms become a chain of conditionals on the subject, evaluated once;
+				// no matching arm gives null ($match cannot clash with Seval names)
+				const arms = node.arms.reduceRight((otherwise, arm) => {
+					const tests: string[] = []
+					if (arm.pattern) {
+						tests.push(this.operation('===', '$match', this.compileExpression(arm.pattern, scope)))
+					}
+					if (arm.guard) tests.push(`(${this.compileCondition(arm.guard, scope)})`)
+					const body = this.compileExpression(arm.body, scope)
+					return tests.length > 0 ? `(${tests.join(' && ')} ? ${body} : ${otherwise})` : body
+				}, 'null')
+				return `(($match) => ${arms})(${this.compileExpression(node.subject, scope)})`
+			}
+
 			case 'AssignmentStatement': {
-				// Assignment target should never use primitives.xxx
-				// Force it to use this.xxx to avoid polluting primitives
-				const targetNode = node.target
-				let target: string
-				if (targetNode.kind === 'Identifier') {
-					// For identifiers, always use this.xxx for assignment targets
-					target = `this.${targetNode.name}`
-				} else {
-					// For member expressions, compile normally
-					target = this.compileExpression(targetNode, params)
+				const value = this.compileExpression(node.value, scope)
+				const target = node.target
+				if (target.kind === 'ArrayPattern' || target.kind === 'ObjectPattern') {
+					return this.compileDestructuring(target, value, scope)
+				}
+				if (node.operator) {
+					// x += value: the operator without its trailing '='
+					return this.compileUpdate(target, node.operator.slice(0, -1), value, scope)
 				}
-				const value = this.compileExpression(node.value, params)
-				return `(${target} = ${value})`
+				return this.compileAssignment(target, value, scope)
+			}
+
+			case 'UpdateExpression': {
+				const operator = node.operator === '++' ? '+' : '-'
+				return this.compileUpdate(node.target, operator, '1', scope, !node.prefix)
 			}
 
 			case 'CallExpression': {
-				const callee = this.compileExpression(node.callee, params)
-				const args = node.args.map((arg) => this.compileExpression(arg, params)).join(', ')
-				return `${callee}(${args})`
+				const args = node.args.map((arg) => this.compileElement(arg, scope))
+				const calleeNode = node.callee
+				if (this.isPredicateCall(node)) {
+					args[0] = `primitives.__predicate(${args[0]}, __operators.truthy)`
+				}
+				if (calleeNode.kind === 'MemberExpression' && !hasOptionalLink(node)) {
+					const key = this.guardedKey(calleeNode, scope)
+					if (key !== null) {
+						// Guarded method call keeps the object as this
+						const object = this.compileExpression(calleeNode.object, scope)
+						return `primitives.__call(${[object, key, ...args].join(', ')})`
+					}
+				}
+				// A native member call keeps the object as this, also for obj?.[key]()
+				const callee = this.compileExpression(calleeNode, scope)
+				return `${callee}${node.optional ? '?.' : ''}(${args.join(', ')})`
 			}
 
 			case 'ArrayLiteral': {
-				const elements = node.elements.map((el) => this.compileExpression(el, params)).join(', ')
-				// Use Proxy wrapper for sandbox protection
+				const elements = node.elements.map((el) => this.compileElement(el, scope)).join(', ')
+				// Use Proxy wrapper for sandbox protection (spread items included)
 				return `primitives.__createArray(${elements})`
 			}
 
 			case 'ObjectLiteral': {
 				const props = node.properties
-					.map(
-						(prop) => `${JSON.stringify(prop.key)}: ${this.compileExpression(prop.value, params)}`,
-					)
+					.map((prop) => {
+						if ('kind' in prop) {
+							// Spread copies own enumerable properties, "__proto__" included, as plain properties
+							return this.compileElement(prop, scope)
+						}
+						// A literal "__proto__" key would set the prototype; a computed one is a plain property
+						let key: string
+						if (typeof prop.key !== 'string') {
+							key = `[${this.compileExpression(prop.key, scope)}]`
+						} else {
+							key = prop.key === '__proto__' ? '["__proto__"]' : JSON.stringify(prop.key)
+						}
+						return `${key}: ${this.compileExpression(prop.value, scope)}`
+					})
 					.join(', ')
 				return `{${props}}`
 			}
 
 			case 'ArrowFunction': {
-				const arrowParams = node.params.join(', ')
-				const body = this.compileExpression(node.body, node.params)
-				return `((${arrowParams}) => ${body})`
+				const arrowParams = paramList(node.params, node.rest).join(', ')
+				// Arrow bodies can see the enclosing locals as well as their own parameters
+				const params = node.rest === undefined ? node.params : [...node.params, node.rest]
+				let body = `${restPrologue(node.rest)}{ ${this.compileBody(node.body, declare(scope, params, 'param'), RETURN)} }`
+				if (this.tracker) {
+					// Arrows count towards call depth too (they can recurse through this.xxx)
+					body = `__budget.enter(); try { ${body} } finally { __budget.exit(); }`
+				}
+				return `((${arrowParams}) => { ${body} })`
 			}
 
-			case 'BlockExpression': {
-				// Compile all statements
-				const compiledStatements = node.statements.map((stmt) =>
-					this.compileExpression(stmt, params),
-				)
+			case 'FunctionDef': {
+				// Method shorthand in an object literal: this is the object it is called on,
+				// and the body can see the enclosing locals
+				const params = node.rest === undefined ? node.params : [...node.params, node.rest]
+				const methodScope = declare(scope, params, 'param')
+				let body = `${restPrologue(node.rest)}{ ${this.compileBody(node.body, methodScope, RETURN)} }`
+				if (this.tracker) {
+					body = `__budget.enter(); try { ${body} } finally { __budget.exit(); }`
+				}
+				return `(function (${paramList(node.params, node.rest).join(', ')}) { ${body} })`
+			}
 
-				// Use IIFE to create block scope and return last value
-				const statementsCode = compiledStatements
-					.slice(0, -1)
-					.map((s) => `${s};`)
-					.join(' ')
-				const lastStatement = compiledStatements[compiledStatements.length - 1]
+			default:
+				throw new Error(`Cannot compile expression of kind: ${(node as { kind: string }).kind}`)
+		}
+	}
 
-				return `(() => { ${statementsCode} return ${lastStatement}; }).call(this)`
-			}
+	/**
+	 * Whether an operator of this compile has the default semantics, so its JS equivalent can be emitted
+	 */
+	private isNative(operator: keyof SevalOperators): boolean {
+		return this.operators[operator] === defaultOperators[operator]
+	}
 
-			case 'IfStatement': {
-				const condition = this.compileExpression(node.condition, params)
-				const consequent = this.compileExpression(node.consequent, params)
+	/**
+	 * Compile a binary operator: the JS operator where it has the same semantics,
+	 * otherwise a call into the operator table (&&, || and ?? are always native)
+	 */
+	private operation(operator: string, left: string, right: string): string {
+		if (!isBinaryOperator(operator)) {
+			return `(${left} ${operator} ${right})`
+		}
+		const native = NATIVE_OPERATORS[operator]
+		return native && this.isNative(operator)
+			? `(${left} ${native} ${right})`
+			: `__operators[${JSON.stringify(operator)}](${left}, ${right})`
+	}
 
-				if (node.alternate) {
-					const alternate = this.compileExpression(node.alternate, params)
-					// Use ternary for simple if/else, or IIFE for complex blocks
-					return `(${condition} ? ${consequent} : ${alternate})`
-				}
+	/**
+	 * Whether a call passes a callback to a native method that tests its result
+	 * (list.filter(fn)), which must then be tested with a non-default truthy
+	 */
+	private isPredicateCall(node: CallExpression): boolean {
+		const { callee, args } = node
+		return (
+			!this.isNative('truthy') &&
+			callee.kind === 'MemberExpression' &&
+			!callee.computed &&
+			PREDICATE_METHODS.has(callee.property as string) &&
+			args.length > 0 &&
+			args[0]?.kind !== 'SpreadElement'
+		)
+	}
 
-				// If without else: use IIFE that returns null if condition is false
-				return `(${condition} ? ${consequent} : null)`
-			}
+	/**
+	 * Compile a value tested for truthiness
+	 */
+	private compileCondition(node: ASTNode, scope: Scope): string {
+		const code = this.compileExpression(node, scope)
+		return this.isNative('truthy') ? code : `__operators.truthy(${code})`
+	}
 
-			case 'ForStatement': {
-				// For loop: for init; condition; update { body }
-				const init = node.init ? this.compileExpression(node.init, params) : ''
-				const condition = this.compileExpression(node.condition, params)
-				const update = node.update ? this.compileExpression(node.update, params) : ''
-				const body = this.compileExpression(node.body, params)
+	/**
+	 * Compile an array element, object literal entry or call argument, which may be a spread
+	 */
+	private compileElement(node: ASTNode, scope: Scope): string {
+		return node.kind === 'SpreadElement'
+			? `...${this.compileExpression(node.argument, scope)}`
+			: this.compileExpression(node, scope)
+	}
 
-				// Use IIFE to create for loop
-				return `(() => { for (${init}; ${condition}; ${update}) { ${body}; } return null; }).call(this)`
+	/**
+	 * Compile an assignment of value code to a variable or property
+	 */
+	private compileAssignment(
+		target: Identifier | MemberExpression,
+		value: string,
+		scope: Scope,
+	): string {
+		// Assignment target should never use primitives.xxx
+		// Force it to use this.xxx to avoid polluting primitives
+		if (target.kind === 'Identifier') {
+			// let bindings are assigned in place; they never reach this
+			if (scope.get(target.name) === 'let') {
+				return `(${localName(target.name)} = ${value})`
 			}
+			if (isForbiddenKey(target.name)) {
+				return `primitives.__set(this, ${JSON.stringify(target.name)}, ${value})`
+			}
+			// For identifiers, always use this.xxx for assignment targets
+			return `(this.${target.name} = ${value})`
+		}
 
-			default:
-				throw new Error(`Cannot compile expression of kind: ${(node as { kind: string }).kind}`)
+		const key = this.guardedKey(target, scope)
+		if (key !== null) {
+			const object = this.compileExpression(target.object, scope)
+			return `primitives.__set(${object}, ${key}, ${value})`
+		}
+		// For static member expressions, compile normally
+		return `(${this.compileExpression(target, scope)} = ${value})`
+	}
+
+	/**
+	 * Compile target = target <operator> value, reading the target's object and key once.
+	 * A postfix update has the target's previous value, converted to a number like x++ in JS.
+	 */
+	private compileUpdate(
+		target: Identifier | MemberExpression,
+		operator: string,
+		value: string,
+		scope: Scope,
+		postfix = false,
+	): string {
+		const numeric = (read: string) =>
+			this.isNative('numeric') ? `+${read}` : `__operators.numeric(${read})`
+		const update = (read: string, write: (value: string) => string) =>
+			postfix
+				? `(($old) => (${write(this.operation(operator, '$old', value))}, $old))(${numeric(read)})`
+				: write(this.operation(operator, read, value))
+
+		if (target.kind === 'Identifier') {
+			const read = this.compileExpression(target, scope)
+			return update(read, (newValue) => this.compileAssignment(target, newValue, scope))
+		}
+
+		// Arrows keep this and the enclosing locals; $ names cannot clash with Seval names
+		const object = this.compileExpression(target.object, scope)
+		const key = this.guardedKey(target, scope)
+		if (key === null) {
+			const property = `$object.${target.property}`
+			const code = update(property, (newValue) => `(${property} = ${newValue})`)
+			return `(($object) => ${code})(${object})`
+		}
+		const code = update(
+			'primitives.__get($object, $key)',
+			(newValue) => `primitives.__set($object, $key, ${newValue})`,
+		)
+		return `(($object, $key) => ${code})(${object}, ${key})`
+	}
+
+	/**
+	 * Compile a destructuring assignment; like any assignment it has the assigned value
+	 */
+	private compileDestructuring(pattern: PatternTarget, value: string, scope: Scope): string {
+		const targets = patternTargets(pattern)
+		// Temporaries are named $0, $1...: Seval names never contain $
+		const temps = targets.map((_, i) => `$${i}`)
+		const assignments = targets.map((target, i) => this.compileAssignment(target, temps[i], scope))
+		const shape = JSON.stringify(patternShape(pattern))
+		// An arrow keeps this and the enclosing locals
+		return `(($value) => { const [${temps.join(', ')}] = primitives.__destructure(${shape}, $value); ${assignments.join('; ')}; return $value; })(${value})`
+	}
+
+	/**
+	 * Key code for member access that must go through the sandbox guard, or null
+	 * for a plain dot access that is safe to emit directly
+	 */
+	private guardedKey(node: MemberExpression, scope: Scope): string | null {
+		if (node.computed) {
+			return this.compileExpression(node.property as ASTNode, scope)
 		}
+		const name = node.property as string
+		return isForbiddenKey(name) ? JSON.stringify(name) : null
 	}
 }
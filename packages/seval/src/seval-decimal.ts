@@ -0,0 +1,279 @@
+/**
+ * Seval Decimals
+ *
+ * Arbitrary-precision decimal numbers for the 'decimal' arithmetic mode, and the
+ * operators that mode compiles + - * / % and comparisons to.
+ */
+
+import type { SevalOperators } from './seval-operators'
+
+/**
+ * Decimal places a quotient is rounded to (half away from zero)
+ */
+export const DIVISION_PLACES = 20
+
+const DECIMAL_PATTERN = /^([+-]?)(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i
+
+/**
+ * An exact decimal number: coefficient / 10^scale. Instances are immutable and
+ * normalized (no trailing zeros after the point), so equal values print the same.
+ */
+export class Decimal {
+	public readonly coefficient: bigint
+	public readonly scale: number
+
+	private constructor(coefficient: bigint, scale: number) {
+		// Normalize: 1.50 is stored as 15 / 10^1
+		let digits = coefficient
+		let places = scale
+		while (places > 0 && digits % 10n === 0n) {
+			digits /= 10n
+			places--
+		}
+		this.coefficient = digits
+		this.scale = places
+	}
+
+	/**
+	 * The decimal of a string like "-12.50" or "1e-7", a bigint, or a finite number (through its
+	 * shortest string, so 0.1 is exactly 0.1). Returns null for anything else.
+	 */
+	public static from(value: unknown): Decimal | null {
+		if (value instanceof Decimal) return value
+		if (typeof value === 'bigint') return new Decimal(value, 0)
+		if (typeof value === 'number' && !Number.isFinite(value)) return null
+		if (typeof value !== 'number' && typeof value !== 'string') return null
+
+		const match = DECIMAL_PATTERN.exec(String(value).trim())
+		if (!match) return null
+		const [, sign, whole, fraction = '', exponent = '0'] = match
+		let coefficient = BigInt(whole + fraction)
+		let scale = fraction.length - Number(exponent)
+		if (scale < 0) {
+			coefficient *= 10n ** BigInt(-scale)
+			scale = 0
+		}
+		return new Decimal(sign === '-' ? -coefficient : coefficient, scale)
+	}
+
+	public add(other: Decimal): Decimal {
+		const [a, b, scale] = align(this, other)
+		return new Decimal(a + b, scale)
+	}
+
+	public sub(other: Decimal): Decimal {
+		const [a, b, scale] = align(this, other)
+		return new Decimal(a - b, scale)
+	}
+
+	public mul(other: Decimal): Decimal {
+		return new Decimal(this.coefficient * other.coefficient, this.scale + other.scale)
+	}
+
+	/**
+	 * The quotient rounded to DIVISION_PLACES, or null when dividing by zero
+	 */
+	public div(other: Decimal): Decimal | null {
+		if (other.coefficient === 0n) return null
+		// (a / 10^sa) / (b / 10^sb) = (a * 10^sb) / (b * 10^sa), with one digit past the places
+		const numerator = this.coefficient * 10n ** BigInt(other.scale + DIVISION_PLACES + 1)
+		const denominator = other.coefficient * 10n ** BigInt(this.scale)
+		return Decimal.rounded(numerator / denominator, DIVISION_PLACES)
+	}
+
+	/**
+	 * The remainder with the sign of the dividend (like JS %), or null when dividing by zero
+	 */
+	public mod(other: Decimal): Decimal | null {
+		if (other.coefficient === 0n) return null
+		const [a, b, scale] = align(this, other)
+		return new Decimal(a % b, scale)
+	}
+
+	public neg(): Decimal {
+		return new Decimal(-this.coefficient, this.scale)
+	}
+
+	/**
+	 * -1, 0 or 1 as this is less than, equal to or greater than other
+	 */
+	public compare(other: Decimal): number {
+		const [a, b] = align(this, other)
+		return a < b ? -1 : a > b ? 1 : 0
+	}
+
+	public isZero(): boolean {
+		return this.coefficient === 0n
+	}
+
+	/**
+	 * Rounded to a number of decimal places (half away from zero)
+	 */
+	public round(places = 0): Decimal {
+		if (this.scale <= places) return this
+		// Keep one more digit than needed and round on it
+		const digits = this.coefficient / 10n ** BigInt(this.scale - places - 1)
+		return Decimal.rounded(digits, places)
+	}
+
+	/**
+	 * Fixed-point string with exactly `places` decimal places, like Number.prototype.toFixed
+	 * but exact: decimal("1.005").toFixed(2) is "1.01"
+	 */
+	public toFixed(places = 0): string {
+		const rounded = this.round(places)
+		const text = rounded.toString()
+		if (places === 0) return text
+		const [whole, fraction = ''] = text.split('.')
+		return `${whole}.${fraction.padEnd(places, '0')}`
+	}
+
+	/**
+	 * Plain decimal notation without exponent: "-0.005", "1200"
+	 */
+	public toString(): string {
+		const negative = this.coefficient < 0n
+		const digits = (negative ? -this.coefficient : this.coefficient).toString()
+		let text = digits
+		if (this.scale > 0) {
+			const padded = digits.padStart(this.scale + 1, '0')
+			text = `${padded.slice(0, -this.scale)}.${padded.slice(-this.scale)}`
+		}
+		return negative ? `-${text}` : text
+	}
+
+	/**
+	 * The nearest number; also what host functions such as Math.round see
+	 */
+	public toNumber(): number {
+		return Number(this.toString())
+	}
+
+	public valueOf(): number {
+		return this.toNumber()
+	}
+
+	public toJSON(): number {
+		return this.toNumber()
+	}
+
+	/**
+	 * Round a coefficient that has one digit more than `places` (half away from zero)
+	 */
+	private static rounded(digits: bigint, places: number): Decimal {
+		const last = digits % 10n
+		let coefficient = digits / 10n
+		if (last >= 5n) coefficient++
+		else if (last <= -5n) coefficient--
+		return new Decimal(coefficient, places)
+	}
+}
+
+/**
+ * Both coefficients at the larger of the two scales
+ */
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+	const scale = Math.max(a.scale, b.scale)
+	return [
+		a.coefficient * 10n ** BigInt(scale - a.scale),
+		b.coefficient * 10n ** BigInt(scale - b.scale),
+		scale,
+	]
+}
+
+/**
+ * Numbers and decimals as decimals (null for other values, including NaN and Infinity)
+ */
+function decimalOperands(a: unknown, b: unknown): [Decimal, Decimal] | null {
+	if (typeof a !== 'number' && !(a instanceof Decimal)) return null
+	if (typeof b !== 'number' && !(b instanceof Decimal)) return null
+	const x = Decimal.from(a)
+	const y = Decimal.from(b)
+	return x && y ? [x, y] : null
+}
+
+/**
+ * The decimal a number literal's source text spells, like 1_000.5, 12345678901234567891.5 or -0xff
+ */
+function literalDecimal(raw: string): Decimal | null {
+	const text = raw.replace(/_/g, '')
+	const radix = /^(-?)(0[box].+)$/i.exec(text)
+	if (radix) {
+		const integer = BigInt(radix[2])
+		return Decimal.from(radix[1] ? -integer : integer)
+	}
+	return Decimal.from(text)
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: operands follow JS semantics when not decimal
+type AnyValue = any
+
+/**
+ * Operators of the 'decimal' arithmetic mode. Numbers and decimals combine as decimals,
+ * and compare by value whichever of the two they are; + with a string concatenates.
+ * Other operands, and results a decimal cannot hold (division by zero), work as by default.
+ */
+export const decimalOperators = {
+	/** A number literal as a decimal, exactly as written (from its number if there is no source text) */
+	literal: (value: number, raw?: string): Decimal | number =>
+		(raw === undefined ? null : literalDecimal(raw)) ?? Decimal.from(value) ?? value,
+
+	'+': (a: AnyValue, b: AnyValue): unknown => {
+		if (typeof a === 'string' || typeof b === 'string') {
+			return String(a) + String(b)
+		}
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].add(operands[1]) : a + b
+	},
+	'-': (a: AnyValue, b: AnyValue): unknown => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].sub(operands[1]) : a - b
+	},
+	'*': (a: AnyValue, b: AnyValue): unknown => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].mul(operands[1]) : a * b
+	},
+	'/': (a: AnyValue, b: AnyValue): unknown => {
+		const operands = decimalOperands(a, b)
+		const result = operands ? operands[0].div(operands[1]) : null
+		return result ?? a / b
+	},
+	'%': (a: AnyValue, b: AnyValue): unknown => {
+		const operands = decimalOperands(a, b)
+		const result = operands ? operands[0].mod(operands[1]) : null
+		return result ?? a % b
+	},
+
+	'==': (a: AnyValue, b: AnyValue): boolean => decimalOperators['==='](a, b),
+	'!=': (a: AnyValue, b: AnyValue): boolean => !decimalOperators['==='](a, b),
+	'===': (a: AnyValue, b: AnyValue): boolean => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].compare(operands[1]) === 0 : a === b
+	},
+	'!==': (a: AnyValue, b: AnyValue): boolean => !decimalOperators['==='](a, b),
+	'<': (a: AnyValue, b: AnyValue): boolean => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].compare(operands[1]) < 0 : a < b
+	},
+	'<=': (a: AnyValue, b: AnyValue): boolean => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].compare(operands[1]) <= 0 : a <= b
+	},
+	'>': (a: AnyValue, b: AnyValue): boolean => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].compare(operands[1]) > 0 : a > b
+	},
+	'>=': (a: AnyValue, b: AnyValue): boolean => {
+		const operands = decimalOperands(a, b)
+		return operands ? operands[0].compare(operands[1]) >= 0 : a >= b
+	},
+
+	/** Unary minus */
+	neg: (a: AnyValue): unknown => (a instanceof Decimal ? a.neg() : decimalOperators.numeric(-a)),
+
+	/** The numeric value of an operand, like unary + (the previous value of x++) */
+	numeric: (a: AnyValue): unknown => (a instanceof Decimal ? a : (Decimal.from(+a) ?? +a)),
+
+	/** Truthiness: a zero decimal is falsy, like 0 */
+	truthy: (a: unknown): boolean => (a instanceof Decimal ? !a.isZero() : Boolean(a)),
+} satisfies SevalOperators
@@ -0,0 +1,113 @@
+/**
+ * Seval Diagnostics
+ *
+ * Structured, positioned errors for Seval source with rendered code frames.
+ */
+
+import type { SourceLocation } from './seval-ast'
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export interface SevalDiagnostic {
+	severity: DiagnosticSeverity
+	message: string
+	loc: SourceLocation
+	/** Source excerpt with the span underlined (empty when source is unavailable) */
+	frame: string
+}
+
+/**
+ * Thrown for tokenizer and parser errors.
+ * Carries every diagnostic collected so far; the first one is the primary error.
+ */
+export class SevalSyntaxError extends Error {
+	public readonly diagnostics: SevalDiagnostic[]
+
+	constructor(diagnostics: SevalDiagnostic[]) {
+		const [first] = diagnostics
+		super(
+			first
+				? `${first.message} at line ${first.loc.start.line}, column ${first.loc.start.column}`
+				: 'Syntax error',
+		)
+		this.name = 'SevalSyntaxError'
+		this.diagnostics = diagnostics
+	}
+
+	get diagnostic(): SevalDiagnostic {
+		// biome-ignore lint/style/noNonNullAssertion: constructed with at least one diagnostic
+		return this.diagnostics[0]!
+	}
+
+	get severity(): DiagnosticSeverity {
+		return this.diagnostic.severity
+	}
+
+	get loc(): SourceLocation {
+		return this.diagnostic.loc
+	}
+
+	get frame(): string {
+		return this.diagnostic.frame
+	}
+}
+
+/**
+ * Create a diagnostic, rendering its code frame from source
+ */
+export function createDiagnostic(
+	message: string,
+	loc: SourceLocation,
+	source: string,
+	severity: DiagnosticSeverity = 'error',
+): SevalDiagnostic {
+	return {
+		severity,
+		message,
+		loc,
+		frame: source ? renderCodeFrame(source, loc) : '',
+	}
+}
+
+/**
+ * Render the lines around loc with a gutter and carets under the span:
+ *
+ *     2 |   calc(a, b) {
+ *   > 3 |     a +* b
+ *       |        ^
+ *     4 |   }
+ */
+export function renderCodeFrame(source: string, loc: SourceLocation, contextLines = 2): string {
+	const lines = source.split(/\r?\n/)
+	const { start, end } = loc
+	const first = Math.max(1, start.line - contextLines)
+	const last = Math.min(lines.length, start.line + contextLines)
+	const gutterWidth = String(last).length
+
+	const output: string[] = []
+	for (let lineNo = first; lineNo <= last; lineNo++) {
+		const text = lines[lineNo - 1] ?? ''
+		const gutter = String(lineNo).padStart(gutterWidth)
+		const marker = lineNo === start.line ? '>' : ' '
+		output.push(`${marker} ${gutter} | ${text}`.trimEnd())
+
+		if (lineNo === start.line) {
+			// Keep tabs so the carets line up with the source text
+			const indent = text.slice(0, start.column - 1).replace(/[^\t]/g, ' ')
+			const endColumn = end.line === start.line ? end.column : text.length + 1
+			const width = Math.max(1, endColumn - start.column)
+			output.push(`  ${' '.repeat(gutterWidth)} | ${indent}${'^'.repeat(width)}`)
+		}
+	}
+
+	return output.join('\n')
+}
+
+/**
+ * Format a diagnostic for display: "file.seval:3:7 error: message" followed by its frame
+ */
+export function formatDiagnostic(diagnostic: SevalDiagnostic, filename = '<seval>'): string {
+	const { line, column } = diagnostic.loc.start
+	const header = `${filename}:${line}:${column} ${diagnostic.severity}: ${diagnostic.message}`
+	return diagnostic.frame ? `${header}\n${diagnostic.frame}` : header
+}
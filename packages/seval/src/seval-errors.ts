@@ -0,0 +1,62 @@
+/**
+ * Seval Errors
+ *
+ * The error a Seval `throw` statement raises, and the structured value a
+ * `catch` clause binds for any error thrown inside its `try` block.
+ */
+
+import { SevalBudgetExceededError } from './seval-budget'
+
+/**
+ * What a catch clause binds: the same shape for thrown values and runtime errors
+ */
+export interface SevalErrorValue {
+	message: string
+	/** The code of a thrown { message, code } object, or the name of a runtime error */
+	code: string | null
+}
+
+/**
+ * Thrown by a Seval `throw` statement; an uncaught one reaches the host with its code
+ */
+export class SevalError extends Error {
+	public readonly code: string | null
+
+	constructor(message: string, code: string | null = null) {
+		super(message)
+		this.name = 'SevalError'
+		this.code = code
+	}
+}
+
+/**
+ * The error raised by `throw value`: a string is the message, an object gives its
+ * message and code (so a caught error can be thrown again), anything else is converted
+ */
+export function toSevalError(value: unknown): SevalError {
+	if (typeof value === 'object' && value !== null) {
+		const { message, code } = value as { message?: unknown; code?: unknown }
+		return new SevalError(
+			message == null ? '' : String(message),
+			code == null ? null : String(code),
+		)
+	}
+	return new SevalError(String(value))
+}
+
+/**
+ * The value a catch clause binds for an error. Budget errors cannot be caught:
+ * they are thrown again, so a catch cannot keep a runaway action alive.
+ */
+export function toErrorValue(error: unknown): SevalErrorValue {
+	if (error instanceof SevalBudgetExceededError) {
+		throw error
+	}
+	if (error instanceof SevalError) {
+		return { message: error.message, code: error.code }
+	}
+	if (error instanceof Error) {
+		return { message: error.message, code: error.name }
+	}
+	return { message: String(error), code: null }
+}
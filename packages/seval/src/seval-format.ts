@@ -0,0 +1,1004 @@
+/**
+ * Seval Formatter
+ *
+ * Prints a program back as canonical source: one member or statement per line, commas
+ * between entries, spaces around operators and parentheses only where precedence needs
+ * them. Groups (calls, arrays, objects, operator chains) stay on one line when they fit
+ * and break one entry per line otherwise; objects and match expressions whose first entry
+ * was on a new line stay expanded. Line comments are kept before or after the entry they
+ * annotate (a comment inside an expression moves to the end of its entry), and single
+ * blank lines between entries are kept. The output parses to the same AST as the input,
+ * and formatting it again changes nothing.
+ */
+
+import type {
+	ASTNode,
+	ArrowFunction,
+	BinaryExpression,
+	CallExpression,
+	FunctionDef,
+	IfStatement,
+	ImportDeclaration,
+	MatchArm,
+	MatchExpression,
+	NumberLiteral,
+	ObjectLiteral,
+	ObjectProperty,
+	PatternTarget,
+	Program,
+	PropertyDef,
+	SourceLocation,
+	SourcePosition,
+	SpreadElement,
+	TemplateLiteral,
+} from './seval-ast'
+import { Parser } from './seval-parser'
+import { type Comment, type Token, TokenType, Tokenizer } from './seval-tokenizer'
+
+export interface FormatOptions {
+	/** One level of indentation (default: two spaces) */
+	indent?: string
+	/** Line width the printer wraps at (default: 100) */
+	printWidth?: number
+}
+
+/**
+ * Format Seval source
+ *
+ * @param source Seval source code
+ * @param options Indentation and line width
+ * @returns The canonical source, ending with a newline
+ * @throws SevalSyntaxError if the source does not parse
+ */
+export function formatSeval(source: string, options: FormatOptions = {}): string {
+	const tokenizer = new Tokenizer(source)
+	const tokens = tokenizer.tokenize()
+	const program = new Parser(tokens, { source }).parseProgram()
+
+	const doc = new Printer(tokens, tokenizer.comments).program(program)
+	return `${render(doc, options.indent ?? '  ', options.printWidth ?? 100)}\n`
+}
+
+// Layout documents: text and lines in groups, which print flat when they fit
+
+type Doc = string | Doc[] | Group | Indent | Line | Choice | BreakParent
+
+interface Group {
+	kind: 'group'
+	contents: Doc
+	broken: boolean // must break: contains a hard line or a line comment
+}
+
+interface Indent {
+	kind: 'indent'
+	contents: Doc
+}
+
+/**
+ * A space in a flat group (nothing when soft), a newline otherwise; hard lines always break
+ */
+interface Line {
+	kind: 'line'
+	soft?: boolean
+	hard?: boolean
+}
+
+/**
+ * preferred when its first line fits, otherwise fallback
+ */
+interface Choice {
+	kind: 'choice'
+	preferred: Doc
+	fallback: Doc
+}
+
+/**
+ * Breaks the enclosing groups without printing anything (after a line comment)
+ */
+interface BreakParent {
+	kind: 'break-parent'
+}
+
+const line: Line = { kind: 'line' }
+const softline: Line = { kind: 'line', soft: true }
+const hardline: Line = { kind: 'line', hard: true }
+const breakParent: BreakParent = { kind: 'break-parent' }
+
+function group(contents: Doc, broken = false): Group {
+	return { kind: 'group', contents, broken: broken || forcesBreak(contents) }
+}
+
+function indent(contents: Doc): Indent {
+	return { kind: 'indent', contents }
+}
+
+function join(separator: Doc, docs: Doc[]): Doc[] {
+	return docs.flatMap((doc, i) => (i === 0 ? [doc] : [separator, doc]))
+}
+
+function forcesBreak(doc: Doc): boolean {
+	if (typeof doc === 'string') return false
+	if (Array.isArray(doc)) return doc.some(forcesBreak)
+	switch (doc.kind) {
+		case 'group':
+			return doc.broken
+		case 'indent':
+			return forcesBreak(doc.contents)
+		case 'line':
+			return doc.hard === true
+		case 'choice':
+			return forcesBreak(doc.fallback)
+		case 'break-parent':
+			return true
+	}
+}
+
+/**
+ * A doc to print, with its indentation and whether it is in a flat group
+ */
+type Command = [indentation: string, flat: boolean, doc: Doc]
+
+function render(doc: Doc, indentUnit: string, width: number): string {
+	let out = ''
+	let column = 0
+	// Indentation of a new line, written with its first text so blank lines stay empty
+	let lineStart: string | null = null
+	const write = (text: string) => {
+		if (lineStart !== null) {
+			out += lineStart
+			lineStart = null
+		}
+		out += text
+		const newline = text.lastIndexOf('\n')
+		column = newline === -1 ? column + text.length : text.length - newline - 1
+	}
+
+	const stack: Command[] = [['', false, doc]]
+	while (stack.length > 0) {
+		const [indentation, flat, item] = stack.pop() as Command
+		if (typeof item === 'string') {
+			if (item) write(item)
+		} else if (Array.isArray(item)) {
+			for (let i = item.length - 1; i >= 0; i--) {
+				stack.push([indentation, flat, item[i]])
+			}
+		} else {
+			switch (item.kind) {
+				case 'indent':
+					stack.push([indentation + indentUnit, flat, item.contents])
+					break
+				case 'group': {
+					const next: Command = [indentation, true, item.contents]
+					const fitsFlat = !item.broken && (flat || fits(next, stack, width - column))
+					stack.push(fitsFlat ? next : [indentation, false, item.contents])
+					break
+				}
+				case 'choice': {
+					const preferred: Command = [indentation, false, item.preferred]
+					if (flat) {
+						stack.push([indentation, true, item.fallback])
+					} else {
+						stack.push(
+							fits(preferred, stack, width - column)
+								? preferred
+								: [indentation, false, item.fallback],
+						)
+					}
+					break
+				}
+				case 'line':
+					if (flat && !item.hard) {
+						if (!item.soft) write(' ')
+					} else {
+						out += '\n'
+						lineStart = indentation
+						column = indentation.length
+					}
+					break
+			}
+		}
+	}
+	return out
+}
+
+/**
+ * Whether next, followed by the rest of the stack up to its next line break, fits in width
+ */
+function fits(next: Command, rest: Command[], width: number): boolean {
+	let remaining = width
+	let restIndex = rest.length
+	const queue: Command[] = [next]
+	while (remaining >= 0) {
+		const command = queue.pop() ?? (restIndex > 0 ? rest[--restIndex] : undefined)
+		if (!command) return true
+		const [indentation, flat, item] = command
+		if (typeof item === 'string') {
+			const newline = item.indexOf('\n')
+			if (newline !== -1) return newline <= remaining
+			remaining -= item.length
+		} else if (Array.isArray(item)) {
+			for (let i = item.length - 1; i >= 0; i--) {
+				queue.push([indentation, flat, item[i]])
+			}
+		} else {
+			switch (item.kind) {
+				case 'indent':
+					queue.push([indentation, flat, item.contents])
+					break
+				case 'group':
+					queue.push([indentation, flat && !item.broken, item.contents])
+					break
+				case 'choice':
+					queue.push([indentation, flat, flat ? item.fallback : item.preferred])
+					break
+				case 'line':
+					if (!flat || item.hard) return true
+					if (!item.soft) remaining--
+					break
+			}
+		}
+	}
+	return false
+}
+
+// Printing
+
+/**
+ * Binding power of each binary operator, loosest first (as in the parser)
+ */
+const BINARY_PRECEDENCE: Record<string, number> = {
+	'??': 2,
+	'||': 3,
+	'&&': 4,
+	'==': 5,
+	'!=': 5,
+	'===': 5,
+	'!==': 5,
+	'<': 6,
+	'<=': 6,
+	'>': 6,
+	'>=': 6,
+	'+': 7,
+	'-': 7,
+	'*': 8,
+	'/': 8,
+	'%': 8,
+}
+
+// Levels around the binary operators
+const ASSIGNMENT = 0 // also arrow functions
+const TERNARY = 1
+const NULLISH = 2
+const UNARY = 9
+const POSTFIX = 10 // calls, members and x++
+const PRIMARY = 11
+
+/**
+ * Names that are keywords, so keys spelled like them are quoted
+ */
+const KEYWORDS = new Set([
+	'true',
+	'false',
+	'null',
+	'if',
+	'elif',
+	'else',
+	'for',
+	'in',
+	'let',
+	'return',
+	'break',
+	'continue',
+	'try',
+	'catch',
+	'finally',
+	'throw',
+	'match',
+])
+
+const STRING_ESCAPES: Record<string, string> = {
+	'\\': '\\\\',
+	'"': '\\"',
+	'\n': '\\n',
+	'\r': '\\r',
+	'\t': '\\t',
+}
+
+function precedence(node: ASTNode): number {
+	switch (node.kind) {
+		case 'AssignmentStatement':
+		case 'ArrowFunction':
+			return ASSIGNMENT
+		case 'TernaryExpression':
+			return TERNARY
+		case 'BinaryExpression':
+			return BINARY_PRECEDENCE[node.operator] ?? NULLISH
+		case 'UnaryExpression':
+			return UNARY
+		case 'UpdateExpression':
+			return node.prefix ? UNARY : POSTFIX
+		case 'CallExpression':
+		case 'MemberExpression':
+			return POSTFIX
+		case 'NumberLiteral':
+			// Negative literals only come from match patterns
+			return isNegative(node.value) ? UNARY : PRIMARY
+		default:
+			return PRIMARY
+	}
+}
+
+function isNegative(value: number): boolean {
+	return value < 0 || Object.is(value, -0)
+}
+
+/**
+ * Statements, which are printed as a { ... } body where an expression is expected
+ */
+function isStatement(node: ASTNode): boolean {
+	switch (node.kind) {
+		case 'LetDeclaration':
+		case 'LetPatternDeclaration':
+		case 'ReturnStatement':
+		case 'BreakStatement':
+		case 'ContinueStatement':
+		case 'ThrowStatement':
+		case 'TryStatement':
+		case 'IfStatement':
+		case 'ForStatement':
+		case 'ForInStatement':
+		case 'BlockExpression':
+			return true
+		default:
+			return false
+	}
+}
+
+/**
+ * Whether an expression ends with an arrow function, whose body would take a following '{'
+ */
+function endsWithArrow(node: ASTNode): boolean {
+	if (node.kind === 'AssignmentStatement') return endsWithArrow(node.value)
+	return node.kind === 'ArrowFunction'
+}
+
+function isName(key: string): boolean {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && !KEYWORDS.has(key)
+}
+
+/**
+ * A static key as a name where possible, then as a number, else as a string
+ */
+function keyText(key: string): string {
+	if (isName(key)) return key
+	if (/^\d+$/.test(key) && String(Number(key)) === key) return key
+	return quote(key)
+}
+
+/**
+ * Whether { key: value } can be written { key }
+ */
+function isShorthand(key: string, value: ASTNode): boolean {
+	return value.kind === 'Identifier' && value.name === key && isName(key) && key !== 'this'
+}
+
+function quote(text: string): string {
+	return `"${text.replace(/[\\"\n\r\t]/g, (ch) => STRING_ESCAPES[ch])}"`
+}
+
+function templateText(text: string): string {
+	return text
+		.replace(/\\/g, '\\\\')
+		.replace(/`/g, '\\`')
+		.replace(/\$\{/g, '\\${')
+		.replace(/\r/g, '\\r')
+}
+
+function numberText(node: NumberLiteral): string {
+	if (node.raw !== undefined) return node.raw
+	return Object.is(node.value, -0) ? '-0' : String(node.value)
+}
+
+function isBefore(position: { line: number; column: number }, other: SourcePosition): boolean {
+	return (
+		position.line < other.line || (position.line === other.line && position.column < other.column)
+	)
+}
+
+function singleLine(loc: SourceLocation | undefined): boolean {
+	return !loc || loc.start.line === loc.end.line
+}
+
+function commentText(comment: Comment): string {
+	return `//${comment.value.trimEnd()}`
+}
+
+interface EntryOptions {
+	comma: boolean
+	separator: Doc
+	blankLines: boolean
+}
+
+class Printer {
+	private tokens: Token[]
+	private comments: Comment[]
+	// Comments are printed in source order: the index of the first one not printed yet
+	private nextComment = 0
+
+	constructor(tokens: Token[], comments: Comment[]) {
+		this.tokens = tokens
+		this.comments = comments
+	}
+
+	program(node: Program): Doc {
+		const parts: Doc[] = []
+		let lastLine: number | undefined
+		const start = node.loc?.start
+		for (const comment of start ? this.takeComments((c) => isBefore(c, start)) : []) {
+			parts.push(...this.gap(lastLine, comment.line), commentText(comment), hardline)
+			lastLine = comment.line
+		}
+		if (start) parts.push(...this.gap(lastLine, start.line))
+		parts.push(...this.imports(node.imports ?? []))
+
+		const members = this.entries(node.members, (member) => this.member(member), node.loc?.end, {
+			comma: true,
+			separator: hardline,
+			blankLines: true,
+		})
+		parts.push(members.length > 0 ? ['{', indent([hardline, ...members]), hardline, '}'] : '{}')
+
+		this.takeComments(() => true).forEach((comment, i) => {
+			const sameLine = i === 0 && comment.line === node.loc?.end.line
+			parts.push(sameLine ? ' ' : hardline, commentText(comment))
+		})
+		return parts
+	}
+
+	/**
+	 * One import per line with its comments, then a blank line before the opening brace
+	 */
+	private imports(nodes: ImportDeclaration[]): Doc[] {
+		const parts: Doc[] = []
+		for (const node of nodes) {
+			const { start, end } = node.loc ?? {}
+			for (const comment of start ? this.takeComments((c) => isBefore(c, start)) : []) {
+				parts.push(commentText(comment), hardline)
+			}
+			const names = node.specifiers.map(({ imported, local }) =>
+				imported === local ? imported : `${imported} as ${local}`,
+			)
+			const list = names.length > 0 ? `{ ${names.join(', ')} }` : '{}'
+			parts.push(`import ${list} from ${quote(node.source)}`)
+			for (const comment of end ? this.takeComments((c) => c.line === end.line) : []) {
+				parts.push(' ', commentText(comment))
+			}
+			parts.push(hardline)
+		}
+		if (nodes.length === 0) return parts
+
+		parts.push(hardline)
+		const brace = this.closingBrace(nodes[nodes.length - 1].loc?.end)
+		for (const comment of brace ? this.takeComments((c) => isBefore(c, brace)) : []) {
+			parts.push(commentText(comment), hardline)
+		}
+		return parts
+	}
+
+	private member(node: PropertyDef | FunctionDef): Doc {
+		if (node.kind === 'FunctionDef') {
+			return this.method(node, node.name)
+		}
+		return [keyText(node.name), ': ', this.expression(node.value, ASSIGNMENT)]
+	}
+
+	private method(node: FunctionDef, name: string): Doc {
+		return [
+			keyText(name),
+			this.params(node.params, node.rest),
+			' ',
+			this.block(node.body, singleLine(node.loc)),
+		]
+	}
+
+	private params(params: string[], rest: string | undefined): string {
+		const names = rest === undefined ? params : [...params, `...${rest}`]
+		return `(${names.join(', ')})`
+	}
+
+	/**
+	 * A { ... } body with a statement per line, or `{ statement }` when inline and it fits
+	 */
+	private block(body: ASTNode, inline = false): Doc {
+		const statements = body.kind === 'BlockExpression' ? body.statements : [body]
+		const end = body.kind === 'BlockExpression' ? body.loc?.end : this.closingBrace(body.loc?.end)
+		const parts = this.entries(
+			statements,
+			(statement, i) => this.statement(statement, i === 0),
+			end,
+			{
+				comma: false,
+				separator: hardline,
+				blankLines: true,
+			},
+		)
+		if (parts.length === 0) return '{}'
+		return group(['{', indent([line, ...parts]), line, '}'], !inline || statements.length > 1)
+	}
+
+	private statement(node: ASTNode, first: boolean): Doc {
+		switch (node.kind) {
+			case 'LetDeclaration':
+				return [
+					'let ',
+					node.name,
+					node.value ? [' = ', this.expression(node.value, ASSIGNMENT)] : '',
+				]
+			case 'LetPatternDeclaration':
+				return ['let ', this.pattern(node.pattern), ' = ', this.expression(node.value, ASSIGNMENT)]
+			case 'ReturnStatement':
+				return node.value ? ['return ', this.expression(node.value, ASSIGNMENT)] : 'return'
+			case 'BreakStatement':
+				return 'break'
+			case 'ContinueStatement':
+				return 'continue'
+			case 'ThrowStatement':
+				return ['throw ', this.expression(node.value, ASSIGNMENT)]
+			case 'IfStatement':
+				return this.ifStatement(node, 'if')
+			case 'ForStatement': {
+				const head =
+					node.init || node.update
+						? [
+								node.init ? this.statement(node.init, true) : '',
+								'; ',
+								this.expression(node.condition, ASSIGNMENT),
+								'; ',
+								node.update ? this.beforeBrace(node.update) : '',
+							]
+						: this.beforeBrace(node.condition)
+				return ['for ', head, ' ', this.block(node.body)]
+			}
+			case 'ForInStatement':
+				return [
+					'for ',
+					node.variables.join(', '),
+					' in ',
+					this.beforeBrace(node.iterable),
+					' ',
+					this.block(node.body),
+				]
+			case 'TryStatement':
+				return [
+					'try ',
+					this.block(node.block),
+					node.handler
+						? [
+								node.param === undefined ? ' catch ' : ` catch (${node.param}) `,
+								this.block(node.handler),
+							]
+						: '',
+					node.finalizer ? [' finally ', this.block(node.finalizer)] : '',
+				]
+			case 'BlockExpression':
+				return this.block(node)
+			case 'PropertyDef':
+				return this.member(node)
+			default: {
+				const doc = this.expression(node, ASSIGNMENT)
+				// A statement starting with ( or - would continue the one before it
+				const start = this.firstChar(node, ASSIGNMENT)
+				return !first && (start === '(' || start === '-') ? [';', doc] : doc
+			}
+		}
+	}
+
+	private ifStatement(node: IfStatement, keyword: 'if' | 'elif'): Doc {
+		const parts: Doc[] = [
+			keyword,
+			' (',
+			this.expression(node.condition, ASSIGNMENT),
+			') ',
+			this.block(node.consequent),
+		]
+		// else { if ... } is the same statement as elif
+		if (node.alternate?.kind === 'IfStatement') {
+			parts.push(' ', this.ifStatement(node.alternate, 'elif'))
+		} else if (node.alternate) {
+			parts.push(' else ', this.block(node.alternate))
+		}
+		return parts
+	}
+
+	/**
+	 * An expression followed by a { ... } body, which an arrow function at its end would take
+	 */
+	private beforeBrace(node: ASTNode): Doc {
+		const doc = this.expression(node, ASSIGNMENT)
+		return endsWithArrow(node) ? ['(', doc, ')'] : doc
+	}
+
+	private pattern(node: PatternTarget): Doc {
+		switch (node.kind) {
+			case 'ArrayPattern': {
+				const elements = node.elements.map((element) => this.pattern(element))
+				if (node.rest) elements.push(['...', this.pattern(node.rest)])
+				return ['[', join(', ', elements), ']']
+			}
+			case 'ObjectPattern': {
+				const properties = node.properties.map(({ key, value }) =>
+					isShorthand(key, value) ? key : [keyText(key), ': ', this.pattern(value)],
+				)
+				if (node.rest) properties.push(['...', this.pattern(node.rest)])
+				return properties.length > 0 ? ['{ ', join(', ', properties), ' }'] : '{}'
+			}
+			default:
+				return this.expression(node, POSTFIX)
+		}
+	}
+
+	/**
+	 * An expression where one binding at least as tight as minPrecedence is expected,
+	 * in parentheses when it binds looser
+	 */
+	private expression(node: ASTNode, minPrecedence: number): Doc {
+		const doc = this.operation(node)
+		return precedence(node) < minPrecedence ? ['(', doc, ')'] : doc
+	}
+
+	private operation(node: ASTNode): Doc {
+		switch (node.kind) {
+			case 'NumberLiteral':
+				return numberText(node)
+			case 'StringLiteral':
+				return quote(node.value)
+			case 'BooleanLiteral':
+				return String(node.value)
+			case 'NullLiteral':
+				return 'null'
+			case 'Identifier':
+				return node.name
+			case 'TemplateLiteral':
+				return this.template(node)
+			case 'BinaryExpression':
+				return this.binary(node)
+			case 'UnaryExpression': {
+				const operand = this.expression(node.operand, UNARY)
+				// - -x would read as --x
+				if (node.operator === '-' && this.firstChar(node.operand, UNARY) === '-') {
+					return ['-(', operand, ')']
+				}
+				return [node.operator, operand]
+			}
+			case 'UpdateExpression':
+				return node.prefix
+					? [node.operator, this.expression(node.target, UNARY)]
+					: [this.expression(node.target, POSTFIX), node.operator]
+			case 'TernaryExpression':
+				return group([
+					this.expression(node.condition, NULLISH),
+					indent([
+						line,
+						'? ',
+						this.expression(node.consequent, TERNARY),
+						line,
+						': ',
+						this.expression(node.alternate, TERNARY),
+					]),
+				])
+			case 'MatchExpression':
+				return this.match(node)
+			case 'CallExpression':
+				return [this.expression(node.callee, POSTFIX), node.optional ? '?.' : '', this.args(node)]
+			case 'ArrowFunction':
+				return this.arrow(node)
+			case 'ArrayLiteral': {
+				const parts = this.entries(
+					node.elements,
+					(element) => this.expression(element, ASSIGNMENT),
+					node.loc?.end,
+					{ comma: true, separator: line, blankLines: false },
+				)
+				return parts.length > 0 ? group(['[', indent([softline, ...parts]), softline, ']']) : '[]'
+			}
+			case 'ObjectLiteral':
+				return this.object(node)
+			case 'SpreadElement':
+				return ['...', this.expression(node.argument, ASSIGNMENT)]
+			case 'MemberExpression': {
+				const object = this.expression(node.object, POSTFIX)
+				if (typeof node.property === 'string') {
+					return [object, node.optional ? '?.' : '.', node.property]
+				}
+				return [
+					object,
+					node.optional ? '?.' : '',
+					'[',
+					this.expression(node.property, ASSIGNMENT),
+					']',
+				]
+			}
+			case 'AssignmentStatement':
+				return [
+					this.pattern(node.target),
+					` ${node.operator ?? '='} `,
+					this.expression(node.value, ASSIGNMENT),
+				]
+			case 'ArrayPattern':
+			case 'ObjectPattern':
+				return this.pattern(node)
+			case 'FunctionDef':
+				return this.method(node, node.name)
+			default:
+				return this.statement(node, true)
+		}
+	}
+
+	/**
+	 * An operator chain like a + b - c, which breaks after its operators
+	 */
+	private binary(node: BinaryExpression): Doc {
+		const level = precedence(node)
+		const operators: string[] = []
+		const operands: ASTNode[] = []
+		let left: ASTNode = node
+		while (left.kind === 'BinaryExpression' && precedence(left) === level) {
+			operators.unshift(left.operator)
+			operands.unshift(left.right)
+			left = left.left
+		}
+		const first = this.expression(left, level)
+		const rest = operators.map((operator, i) => [
+			' ',
+			operator,
+			line,
+			this.expression(operands[i], level + 1),
+		])
+		return group([first, indent(rest)])
+	}
+
+	private template(node: TemplateLiteral): Doc {
+		const parts: Doc[] = ['`', templateText(node.quasis[0])]
+		node.expressions.forEach((expression, i) => {
+			parts.push(
+				'${',
+				this.expression(expression, ASSIGNMENT),
+				'}',
+				templateText(node.quasis[i + 1]),
+			)
+		})
+		parts.push('`')
+		return parts
+	}
+
+	private args(node: CallExpression): Doc {
+		const last = node.args.at(-1)
+		const huggable = (arg: ASTNode) =>
+			arg.kind === 'ObjectLiteral' ||
+			arg.kind === 'ArrayLiteral' ||
+			arg.kind === 'MatchExpression' ||
+			(arg.kind === 'ArrowFunction' && isStatement(arg.body))
+		const end = node.loc?.end
+		if (
+			last &&
+			huggable(last) &&
+			!node.args.slice(0, -1).some(huggable) &&
+			!(end && this.hasCommentBefore(end))
+		) {
+			// f(a, { ... }): the last argument breaks instead of the argument list
+			const args = node.args.map((arg) => this.expression(arg, ASSIGNMENT))
+			return {
+				kind: 'choice',
+				preferred: ['(', join(', ', args), ')'],
+				fallback: group(['(', indent([softline, join([',', line], args)]), softline, ')']),
+			}
+		}
+
+		const parts = this.entries(node.args, (arg) => this.expression(arg, ASSIGNMENT), end, {
+			comma: true,
+			separator: line,
+			blankLines: false,
+		})
+		return parts.length > 0 ? group(['(', indent([softline, ...parts]), softline, ')']) : '()'
+	}
+
+	private arrow(node: ArrowFunction): Doc {
+		const params =
+			node.params.length === 1 && node.rest === undefined
+				? node.params[0]
+				: this.params(node.params, node.rest)
+		if (isStatement(node.body)) {
+			return [params, ' => ', this.block(node.body, singleLine(node.loc))]
+		}
+		// An expression body starting with { would read as a block
+		const body = this.expression(node.body, ASSIGNMENT)
+		return [params, ' => ', this.firstChar(node.body, ASSIGNMENT) === '{' ? ['(', body, ')'] : body]
+	}
+
+	private object(node: ObjectLiteral): Doc {
+		const parts = this.entries(
+			node.properties,
+			(property) => this.property(property),
+			node.loc?.end,
+			{ comma: true, separator: line, blankLines: true },
+		)
+		if (parts.length === 0) return '{}'
+		return group(
+			['{', indent([line, ...parts]), line, '}'],
+			this.expanded(node, node.properties[0]),
+		)
+	}
+
+	private property(property: ObjectProperty | SpreadElement): Doc {
+		if ('kind' in property) {
+			return this.expression(property, ASSIGNMENT)
+		}
+		const { key, value } = property
+		if (typeof key !== 'string') {
+			return ['[', this.expression(key, ASSIGNMENT), ']: ', this.expression(value, ASSIGNMENT)]
+		}
+		if (value.kind === 'FunctionDef') {
+			return this.method(value, key)
+		}
+		if (isShorthand(key, value)) {
+			return key
+		}
+		return [keyText(key), ': ', this.expression(value, ASSIGNMENT)]
+	}
+
+	private match(node: MatchExpression): Doc {
+		const subject = this.beforeBrace(node.subject)
+		const arms = this.entries(node.arms, (arm) => this.arm(arm), node.loc?.end, {
+			comma: true,
+			separator: line,
+			blankLines: true,
+		})
+		if (arms.length === 0) return ['match ', subject, ' {}']
+		return group(
+			['match ', subject, ' {', indent([line, ...arms]), line, '}'],
+			this.expanded(node, node.arms[0]),
+		)
+	}
+
+	private arm(arm: MatchArm): Doc {
+		return [
+			arm.pattern ? this.expression(arm.pattern, ASSIGNMENT) : '_',
+			arm.guard ? [' if ', this.expression(arm.guard, TERNARY)] : '',
+			' => ',
+			this.expression(arm.body, ASSIGNMENT),
+		]
+	}
+
+	/**
+	 * Whether a bracketed node had its first entry on a new line, which keeps it expanded
+	 */
+	private expanded(node: ASTNode, first: { loc?: SourceLocation } | undefined): boolean {
+		return !!(node.loc && first?.loc && first.loc.start.line > node.loc.start.line)
+	}
+
+	/**
+	 * The first character node prints as where one binding at least as tight as
+	 * minPrecedence is expected
+	 */
+	private firstChar(node: ASTNode, minPrecedence: number): string {
+		if (precedence(node) < minPrecedence) return '('
+		switch (node.kind) {
+			case 'BinaryExpression':
+				return this.firstChar(node.left, precedence(node))
+			case 'TernaryExpression':
+				return this.firstChar(node.condition, NULLISH)
+			case 'AssignmentStatement':
+			case 'UpdateExpression':
+				if (node.kind === 'UpdateExpression' && node.prefix) return node.operator[0]
+				return this.firstChar(node.target, POSTFIX)
+			case 'CallExpression':
+				return this.firstChar(node.callee, POSTFIX)
+			case 'MemberExpression':
+				return this.firstChar(node.object, POSTFIX)
+			case 'UnaryExpression':
+				return node.operator[0]
+			case 'ArrowFunction':
+				return node.params.length === 1 && node.rest === undefined ? node.params[0][0] : '('
+			case 'ObjectLiteral':
+			case 'ObjectPattern':
+				return '{'
+			case 'ArrayLiteral':
+			case 'ArrayPattern':
+				return '['
+			case 'NumberLiteral':
+				return numberText(node)[0]
+			default:
+				return 'a'
+		}
+	}
+
+	/**
+	 * Entries of a list with the comments around them: comments before an entry go on
+	 * their own lines above it, comments inside it or after it on its last line follow it,
+	 * and comments after the last entry go before the list's end
+	 */
+	private entries<T extends { loc?: SourceLocation }>(
+		items: T[],
+		print: (item: T, index: number) => Doc,
+		end: SourcePosition | undefined,
+		options: EntryOptions,
+	): Doc[] {
+		const parts: Doc[] = []
+		// Last source line printed so far, to keep blank lines
+		let lastLine: number | undefined
+		const gap = (line: number) => (options.blankLines ? this.gap(lastLine, line) : [])
+
+		items.forEach((item, index) => {
+			const loc = item.loc
+			if (index > 0) parts.push(options.separator)
+			if (loc) {
+				for (const comment of this.takeComments((c) => isBefore(c, loc.start))) {
+					parts.push(...gap(comment.line), commentText(comment), hardline)
+					lastLine = comment.line
+				}
+				parts.push(...gap(loc.start.line))
+			}
+
+			parts.push(print(item, index))
+			if (options.comma && index < items.length - 1) parts.push(',')
+
+			if (loc) {
+				const limit = items[index + 1]?.loc?.start ?? end
+				const trailing = this.takeComments(
+					(c) =>
+						isBefore(c, loc.end) || (c.line === loc.end.line && (!limit || isBefore(c, limit))),
+				)
+				trailing.forEach((comment, i) => {
+					parts.push(i === 0 ? ` ${commentText(comment)}` : [hardline, commentText(comment)])
+				})
+				if (trailing.length > 0) parts.push(breakParent)
+				lastLine = trailing.at(-1)?.line ?? loc.end.line
+			}
+		})
+
+		if (end) {
+			for (const comment of this.takeComments((c) => isBefore(c, end))) {
+				if (parts.length > 0) parts.push(hardline)
+				parts.push(...gap(comment.line), commentText(comment))
+				lastLine = comment.line
+			}
+		}
+		return parts
+	}
+
+	/**
+	 * An empty line when the source had blank lines between lastLine and line
+	 */
+	private gap(lastLine: number | undefined, line: number): Doc[] {
+		return lastLine !== undefined && line - lastLine > 1 ? [hardline] : []
+	}
+
+	private takeComments(predicate: (comment: Comment) => boolean): Comment[] {
+		const taken: Comment[] = []
+		while (this.nextComment < this.comments.length) {
+			const comment = this.comments[this.nextComment]
+			if (!predicate(comment)) break
+			taken.push(comment)
+			this.nextComment++
+		}
+		return taken
+	}
+
+	private hasCommentBefore(position: SourcePosition): boolean {
+		const comment = this.comments[this.nextComment]
+		return comment !== undefined && isBefore(comment, position)
+	}
+
+	/**
+	 * Start of the '}' closing a body whose last statement ends at position: the next token
+	 * other than a statement separator
+	 */
+	private closingBrace(position: SourcePosition | undefined): SourcePosition | undefined {
+		if (!position) return undefined
+		const token = this.tokens.find(
+			(t) =>
+				t.type !== TokenType.NEWLINE && t.type !== TokenType.SEMICOLON && !isBefore(t, position),
+		)
+		return token && { line: token.line, column: token.column }
+	}
+}
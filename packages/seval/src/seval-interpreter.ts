@@ -0,0 +1,788 @@
+/**
+ * Seval Interpreter
+ *
+ * Evaluates Seval AST directly by walking the tree.
+ * Never uses new Function(), so it runs under a strict Content-Security-Policy
+ * (no 'unsafe-eval'). Semantics match SevalCompiler for every node kind.
+ */
+
+import {
+	type ASTNode,
+	type CallExpression,
+	type ForInStatement,
+	type ForStatement,
+	type FunctionDef,
+	type Identifier,
+	type MemberExpression,
+	type Program,
+	type SourceLocation,
+	type TryStatement,
+	declaredNames,
+	initializer,
+	isConstantValue,
+	patternTargets,
+} from './seval-ast'
+import { BudgetTracker, type ExecutionBudget } from './seval-budget'
+import type { CompilerOptions } from './seval-compiler'
+import {
+	PREDICATE_METHODS,
+	type SevalOperators,
+	defaultOperators,
+	isBinaryOperator,
+	resolveOperators,
+} from './seval-operators'
+import { isPrimitive, primitives } from './seval-primitives'
+import { guardedGet, guardedSet } from './seval-sandbox'
+import { recordSevalErrorLocation } from './seval-sourcemap'
+
+/**
+ * Thrown to unwind to the enclosing function or loop for return, break and continue
+ */
+class ControlSignal {
+	constructor(
+		public readonly kind: 'return' | 'break' | 'continue',
+		public readonly value: unknown = null,
+	) {}
+}
+
+const BREAK = new ControlSignal('break')
+const CONTINUE = new ControlSignal('continue')
+
+/**
+ * Value of a let binding between the start of its block and its declaration
+ */
+const UNINITIALIZED = Symbol('uninitialized')
+
+/**
+ * Local bindings of one function, arrow or block, chained to the enclosing scope.
+ * Parameters are read-only (assigning to one writes this.xxx); let bindings are assignable.
+ */
+class Scope {
+	private values = new Map<string, unknown>()
+	private lets = new Set<string>()
+
+	constructor(private parent: Scope | null = null) {}
+
+	public declare(name: string, value: unknown, kind: 'param' | 'let'): void {
+		this.values.set(name, value)
+		if (kind === 'let') {
+			this.lets.add(name)
+		}
+	}
+
+	public has(name: string): boolean {
+		return this.lookup(name) !== null
+	}
+
+	public isLet(name: string): boolean {
+		return this.lookup(name)?.lets.has(name) ?? false
+	}
+
+	public get(name: string): unknown {
+		const value = this.lookup(name)?.values.get(name)
+		if (value === UNINITIALIZED) {
+			throw new ReferenceError(`Cannot access '${name}' before initialization`)
+		}
+		return value
+	}
+
+	/**
+	 * Assign an initialized let binding
+	 */
+	public assign(name: string, value: unknown): void {
+		this.get(name)
+		this.lookup(name)?.values.set(name, value)
+	}
+
+	/**
+	 * Initialize a let binding declared in this scope
+	 */
+	public initialize(name: string, value: unknown): void {
+		this.values.set(name, value)
+	}
+
+	/**
+	 * Copy of this scope's own bindings, for the per-iteration bindings of for loops
+	 */
+	public copy(): Scope {
+		const scope = new Scope(this.parent)
+		scope.values = new Map(this.values)
+		scope.lets = this.lets
+		return scope
+	}
+
+	private lookup(name: string): Scope | null {
+		let scope: Scope | null = this
+		while (scope && !scope.values.has(name)) {
+			scope = scope.parent
+		}
+		return scope
+	}
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: evaluated values are dynamically typed
+type AnyValue = any
+
+/**
+ * Value of a chain link after a ?. found null or undefined: the rest of the chain is skipped
+ */
+const SHORT_CIRCUIT = Symbol('short-circuit')
+
+export class SevalInterpreter {
+	private source: string
+	private filename: string
+	private budget: ExecutionBudget | undefined
+	private operators: SevalOperators
+	private tracker: BudgetTracker | null = null
+	/** Innermost statement each in-flight error was thrown from */
+	private failedAt = new WeakMap<object, SourceLocation>()
+
+	constructor(options: CompilerOptions = {}) {
+		this.source = options.source ?? ''
+		this.filename = options.filename ?? '<seval>'
+		this.budget = options.budget
+		this.operators = resolveOperators(options)
+	}
+
+	/**
+	 * Build a native JavaScript object whose methods interpret the program's AST
+	 * @param imports Values of the program's imports by local name (see resolveImports)
+	 */
+	public compile(program: Program, imports: Record<string, unknown> = {}): Record<string, unknown> {
+		// Imported members are keys of the object like the program's own
+		const obj: Record<string, unknown> = { ...imports }
+		// Budget usage is shared by all methods of the resulting object
+		this.tracker = this.budget ? new BudgetTracker(this.budget) : null
+
+		// Methods first, so property initializers can call any of them;
+		// properties get their slot now to keep the declaration order of keys
+		for (const member of program.members) {
+			if (member.kind === 'FunctionDef') {
+				// Methods: native JS functions that walk the body on each call
+				obj[member.name] = this.createFunction(member)
+			} else {
+				obj[member.name] = undefined
+			}
+		}
+
+		// Properties: literal data is stored directly; other initializers run once, in
+		// declaration order, with this bound to the object (earlier properties are set)
+		for (const member of program.members) {
+			if (member.kind === 'PropertyDef') {
+				obj[member.name] = isConstantValue(member.value)
+					? this.evaluateValue(member.value)
+					: this.createFunction(initializer(member)).call(obj)
+			}
+		}
+
+		return obj
+	}
+
+	/**
+	 * Evaluate a literal value (numbers, strings, arrays, objects)
+	 */
+	private evaluateValue(node: ASTNode): unknown {
+		switch (node.kind) {
+			case 'NumberLiteral':
+			case 'StringLiteral':
+			case 'BooleanLiteral':
+				return node.value
+
+			case 'TemplateLiteral':
+				if (node.expressions.length === 0) {
+					return node.quasis[0]
+				}
+				throw new Error('Cannot compile value of kind: TemplateLiteral')
+
+			case 'NullLiteral':
+				return null
+
+			case 'ArrayLiteral':
+				return node.elements.map((el) => this.evaluateValue(el))
+
+			case 'ObjectLiteral': {
+				const obj: Record<string, unknown> = {}
+				for (const prop of node.properties) {
+					if ('kind' in prop) {
+						throw new Error('Cannot compile value of kind: SpreadElement')
+					}
+					// A computed key must be constant too
+					const key = typeof prop.key === 'string' ? prop.key : String(this.evaluateValue(prop.key))
+					obj[key] = this.evaluateValue(prop.value)
+				}
+				return obj
+			}
+
+			default:
+				throw new Error(`Cannot compile value of kind: ${(node as { kind: string }).kind}`)
+		}
+	}
+
+	/**
+	 * Create a native function that interprets the method body with proper this binding
+	 * @param parent Enclosing scope of a method shorthand in an object literal
+	 */
+	private createFunction(
+		func: FunctionDef,
+		parent: Scope | null = null,
+	): (...args: unknown[]) => unknown {
+		const interpreter = this
+		const tracker = this.tracker
+
+		return function (this: unknown, ...args: unknown[]) {
+			const scope = new Scope(parent)
+			func.params.forEach((param, i) => scope.declare(param, args[i], 'param'))
+			if (func.rest !== undefined) {
+				scope.declare(
+					func.rest,
+					primitives.__createArray(...args.slice(func.params.length)),
+					'param',
+				)
+			}
+			tracker?.enter()
+			try {
+				return interpreter.evaluateBody(func.body, scope, this)
+			} catch (error) {
+				if (error instanceof ControlSignal) {
+					return error.value
+				}
+				const loc = interpreter.failedStatement(error) ?? func.loc
+				if (loc) {
+					const { source, filename } = interpreter
+					recordSevalErrorLocation(error, source, filename, func.name, loc)
+				}
+				throw error
+			} finally {
+				tracker?.exit()
+			}
+		}
+	}
+
+	private failedStatement(error: unknown): SourceLocation | undefined {
+		return typeof error === 'object' && error !== null ? this.failedAt.get(error) : undefined
+	}
+
+	/**
+	 * Evaluate a function, if or for body in a new block scope and return the
+	 * last statement's value. Its let declarations are visible throughout it, like JS.
+	 */
+	private evaluateBody(node: ASTNode, scope: Scope, thisArg: AnyValue): unknown {
+		const statements = node.kind === 'BlockExpression' ? node.statements : [node]
+		const blockScope = new Scope(scope)
+		for (const name of statements.flatMap(declaredNames)) {
+			blockScope.declare(name, UNINITIALIZED, 'let')
+		}
+
+		let result: unknown
+		for (const stmt of statements) {
+			result = this.evaluateStatement(stmt, blockScope, thisArg)
+		}
+		return result
+	}
+
+	/**
+	 * Evaluate a statement of a body. Runtime errors are located at the innermost
+	 * statement: remember the one that failed.
+	 */
+	private evaluateStatement(node: ASTNode, scope: Scope, thisArg: AnyValue): unknown {
+		if (!node.loc) {
+			return this.evaluate(node, scope, thisArg)
+		}
+
+		try {
+			return this.evaluate(node, scope, thisArg)
+		} catch (error) {
+			if (error instanceof ControlSignal) {
+				throw error
+			}
+			if (typeof error === 'object' && error !== null && !this.failedAt.has(error)) {
+				this.failedAt.set(error, node.loc)
+			}
+			throw error
+		}
+	}
+
+	/**
+	 * Evaluate an expression
+	 * @param scope Local bindings (parameters and let bindings)
+	 * @param thisArg Value of `this` (the object the method was called on)
+	 */
+	private evaluate(node: ASTNode, scope: Scope, thisArg: AnyValue): unknown {
+		switch (node.kind) {
+			case 'NumberLiteral':
+				return this.operators.literal(node.value, node.raw)
+
+			case 'StringLiteral':
+			case 'BooleanLiteral':
+				return node.value
+
+			case 'TemplateLiteral':
+				// Values are converted with String(), as + does with a string operand
+				return node.expressions.reduce<string>(
+					(text, expr, i) =>
+						text + String(this.evaluate(expr, scope, thisArg)) + node.quasis[i + 1],
+					node.quasis[0],
+				)
+
+			case 'NullLiteral':
+				return null
+
+			case 'Identifier':
+				// Same resolution order as the compiler: this, local, primitive, object member
+				if (node.name === 'this') {
+					return thisArg
+				}
+				if (scope.has(node.name)) {
+					return scope.get(node.name)
+				}
+				if (isPrimitive(node.name)) {
+					return primitives[node.name]
+				}
+				return guardedGet(thisArg, node.name)
+
+			case 'MemberExpression':
+			case 'CallExpression': {
+				const value = this.evaluateLink(node, scope, thisArg)
+				return value === SHORT_CIRCUIT ? undefined : value
+			}
+
+			case 'BinaryExpression':
+				return this.evaluateBinary(node.operator, node.left, node.right, scope, thisArg)
+
+			case 'UnaryExpression': {
+				const operand = this.evaluate(node.operand, scope, thisArg) as AnyValue
+				switch (node.operator) {
+					case '-':
+						return this.operators.neg(operand)
+					case '!':
+						return !this.truthy(operand)
+					default:
+						throw new Error(`Unknown unary operator: ${node.operator}`)
+				}
+			}
+
+			case 'UpdateExpression': {
+				const operator = node.operator === '++' ? '+' : '-'
+				return this.evaluateUpdate(node.target, operator, () => 1, scope, thisArg, !node.prefix)
+			}
+
+			case 'TernaryExpression':
+				return this.truthy(this.evaluate(node.condition, scope, thisArg))
+					? this.evaluate(node.consequent, scope, thisArg)
+					: this.evaluate(node.alternate, scope, thisArg)
+
+			case 'MatchExpression': {
+				const subject = this.evaluate(node.subject, scope, thisArg)
+				for (const arm of node.arms) {
+					const pattern = arm.pattern && this.evaluate(arm.pattern, scope, thisArg)
+					if (arm.pattern && !this.applyOperator('===', subject, pattern)) continue
+					if (arm.guard && !this.truthy(this.evaluate(arm.guard, scope, thisArg))) continue
+					return this.evaluate(arm.body, scope, thisArg)
+				}
+				return null
+			}
+
+			case 'AssignmentStatement': {
+				if (node.operator) {
+					const target = node.target as Identifier | MemberExpression
+					// x += value: the operator without its trailing '='
+					const operator = node.operator.slice(0, -1)
+					return this.evaluateUpdate(
+						target,
+						operator,
+						() => this.evaluate(node.value, scope, thisArg),
+						scope,
+						thisArg,
+					)
+				}
+				const value = this.evaluate(node.value, scope, thisArg)
+				const target = node.target
+				if (target.kind === 'ArrayPattern' || target.kind === 'ObjectPattern') {
+					const values = primitives.__destructure(target, value)
+					patternTargets(target).forEach((leaf, i) => {
+						this.assign(leaf, values[i], scope, thisArg)
+					})
+				} else {
+					this.assign(target, value, scope, thisArg)
+				}
+				return value
+			}
+
+			case 'ArrayLiteral': {
+				const elements = this.evaluateElements(node.elements, scope, thisArg)
+				// Use Proxy wrapper for sandbox protection (spread items included)
+				return primitives.__createArray(...elements)
+			}
+
+			case 'ObjectLiteral': {
+				// Define own data properties: assigning "__proto__" would set the prototype
+				const entries = node.properties.flatMap((prop) => {
+					if ('kind' in prop) {
+						return Object.entries({ ...(this.evaluate(prop.argument, scope, thisArg) as AnyValue) })
+					}
+					const key =
+						typeof prop.key === 'string' ? prop.key : this.evaluate(prop.key, scope, thisArg)
+					return [[key, this.evaluate(prop.value, scope, thisArg)]]
+				})
+				return Object.fromEntries(entries)
+			}
+
+			case 'LetDeclaration': {
+				const value = node.value ? this.evaluate(node.value, scope, thisArg) : null
+				scope.initialize(node.name, value)
+				return value
+			}
+
+			case 'LetPatternDeclaration': {
+				const value = this.evaluate(node.value, scope, thisArg)
+				const values = primitives.__destructure(node.pattern, value)
+				declaredNames(node).forEach((name, i) => {
+					scope.initialize(name, values[i])
+				})
+				return value
+			}
+
+			case 'ReturnStatement':
+				throw new ControlSignal(
+					'return',
+					node.value ? this.evaluate(node.value, scope, thisArg) : null,
+				)
+
+			case 'BreakStatement':
+				throw BREAK
+
+			case 'ContinueStatement':
+				throw CONTINUE
+
+			case 'ThrowStatement':
+				throw primitives.__throw(this.evaluate(node.value, scope, thisArg))
+
+			case 'TryStatement':
+				return this.evaluateTry(node, scope, thisArg)
+
+			case 'ArrowFunction':
+				// Arrows capture the enclosing scope and this, like native arrow functions
+				return (...args: unknown[]) => {
+					const arrowScope = new Scope(scope)
+					node.params.forEach((param, i) => arrowScope.declare(param, args[i], 'param'))
+					if (node.rest !== undefined) {
+						const rest = primitives.__createArray(...args.slice(node.params.length))
+						arrowScope.declare(node.rest, rest, 'param')
+					}
+					// Arrows count towards call depth too (they can recurse through this.xxx)
+					this.tracker?.enter()
+					try {
+						return this.evaluateBody(node.body, arrowScope, thisArg)
+					} catch (error) {
+						if (error instanceof ControlSignal) {
+							return error.value
+						}
+						throw error
+					} finally {
+						this.tracker?.exit()
+					}
+				}
+
+			case 'FunctionDef':
+				// Method shorthand in an object literal: this is the object it is called on
+				return this.createFunction(node, scope)
+
+			case 'BlockExpression':
+				return this.evaluateBody(node, scope, thisArg)
+
+			case 'IfStatement':
+				if (this.truthy(this.evaluate(node.condition, scope, thisArg))) {
+					return this.evaluateBody(node.consequent, scope, thisArg)
+				}
+				return node.alternate ? this.evaluateBody(node.alternate, scope, thisArg) : null
+
+			case 'ForStatement':
+				return this.evaluateFor(node, scope, thisArg)
+
+			case 'ForInStatement':
+				return this.evaluateForIn(node, scope, thisArg)
+
+			default:
+				throw new Error(`Cannot compile expression of kind: ${(node as { kind: string }).kind}`)
+		}
+	}
+
+	/**
+	 * Run a try statement: the value of its block, or of the catch body when the block threw.
+	 * return, break and continue pass through to their function or loop.
+	 */
+	private evaluateTry(node: TryStatement, scope: Scope, thisArg: AnyValue): unknown {
+		try {
+			return this.evaluateBody(node.block, scope, thisArg)
+		} catch (error) {
+			if (error instanceof ControlSignal || !node.handler) {
+				throw error
+			}
+			// __catch rethrows budget errors, so the handler only runs for catchable ones
+			const value = primitives.__catch(error)
+			const handlerScope = new Scope(scope)
+			if (node.param !== undefined) {
+				handlerScope.declare(node.param, value, 'let')
+			}
+			return this.evaluateBody(node.handler, handlerScope, thisArg)
+		} finally {
+			if (node.finalizer) {
+				this.evaluateBody(node.finalizer, scope, thisArg)
+			}
+		}
+	}
+
+	/**
+	 * Run a for loop. A let in init gets a fresh binding per iteration, like JS,
+	 * so arrows created in the body keep the value of their own iteration.
+	 */
+	private evaluateFor(node: ForStatement, scope: Scope, thisArg: AnyValue): null {
+		let loopScope = new Scope(scope)
+		if (node.init?.kind === 'LetDeclaration') {
+			loopScope.declare(node.init.name, UNINITIALIZED, 'let')
+		}
+		if (node.init) {
+			this.evaluate(node.init, loopScope, thisArg)
+		}
+
+		loopScope = loopScope.copy()
+		while (this.truthy(this.evaluate(node.condition, loopScope, thisArg))) {
+			this.tracker?.tick()
+			try {
+				this.evaluateBody(node.body, loopScope, thisArg)
+			} catch (signal) {
+				if (signal === BREAK) break
+				if (signal !== CONTINUE) throw signal
+			}
+			loopScope = loopScope.copy()
+			if (node.update) {
+				this.evaluate(node.update, loopScope, thisArg)
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Run a collection loop; the loop variables are fresh let bindings per iteration
+	 */
+	private evaluateForIn(node: ForInStatement, scope: Scope, thisArg: AnyValue): null {
+		const pairs = node.variables.length === 2
+		const items = primitives.__forIn(this.evaluate(node.iterable, scope, thisArg), pairs)
+
+		for (const item of items) {
+			const iterationScope = new Scope(scope)
+			const values = pairs ? item : [item]
+			node.variables.forEach((name, i) => iterationScope.declare(name, values[i], 'let'))
+
+			this.tracker?.tick()
+			try {
+				this.evaluateBody(node.body, iterationScope, thisArg)
+			} catch (signal) {
+				if (signal === BREAK) break
+				if (signal !== CONTINUE) throw signal
+			}
+		}
+		return null
+	}
+
+	/**
+	 * Evaluate array elements or call arguments, expanding spreads
+	 */
+	private evaluateElements(nodes: ASTNode[], scope: Scope, thisArg: AnyValue): unknown[] {
+		return nodes.flatMap((node) =>
+			node.kind === 'SpreadElement'
+				? [...(this.evaluate(node.argument, scope, thisArg) as AnyValue)]
+				: [this.evaluate(node, scope, thisArg)],
+		)
+	}
+
+	/**
+	 * Assign to a variable or property, like an assignment statement
+	 */
+	private assign(
+		target: Identifier | MemberExpression,
+		value: unknown,
+		scope: Scope,
+		thisArg: AnyValue,
+	): void {
+		if (target.kind === 'Identifier') {
+			if (scope.isLet(target.name)) {
+				scope.assign(target.name, value)
+			} else {
+				// Other identifier targets write to this.xxx, never to parameters or primitives
+				guardedSet(thisArg, target.name, value)
+			}
+		} else {
+			const object = this.evaluate(target.object, scope, thisArg) as AnyValue
+			guardedSet(object, this.memberKey(target, scope, thisArg), value)
+		}
+	}
+
+	/**
+	 * Assign target <operator> value to target, evaluating the target's object and key once.
+	 * A postfix update returns the target's previous value, converted to a number like x++ in JS.
+	 */
+	private evaluateUpdate(
+		target: Identifier | MemberExpression,
+		operator: string,
+		value: () => unknown,
+		scope: Scope,
+		thisArg: AnyValue,
+		postfix = false,
+	): unknown {
+		let read: () => unknown
+		let write: (value: unknown) => void
+		if (target.kind === 'Identifier') {
+			read = () => this.evaluate(target, scope, thisArg)
+			write = (newValue) => this.assign(target, newValue, scope, thisArg)
+		} else {
+			const object = this.evaluate(target.object, scope, thisArg) as AnyValue
+			const key = this.memberKey(target, scope, thisArg)
+			read = () => guardedGet(object, key)
+			write = (newValue) => guardedSet(object, key, newValue)
+		}
+
+		const old = postfix ? this.numeric(read()) : read()
+		const result = this.applyOperator(operator, old, value())
+		write(result)
+		return postfix ? old : result
+	}
+
+	/**
+	 * Evaluate one link of a member/call chain; SHORT_CIRCUIT if an optional link
+	 * at or below it found null or undefined
+	 */
+	private evaluateLink(
+		node: MemberExpression | CallExpression,
+		scope: Scope,
+		thisArg: AnyValue,
+	): AnyValue {
+		if (node.kind === 'CallExpression') {
+			return this.evaluateCall(node, scope, thisArg)
+		}
+		const object = this.evaluateChainPart(node.object, scope, thisArg)
+		if (object === SHORT_CIRCUIT || (node.optional && object == null)) {
+			return SHORT_CIRCUIT
+		}
+		return guardedGet(object, this.memberKey(node, scope, thisArg))
+	}
+
+	/**
+	 * Evaluate the object or callee of a chain link, passing SHORT_CIRCUIT through
+	 */
+	private evaluateChainPart(node: ASTNode, scope: Scope, thisArg: AnyValue): AnyValue {
+		return node.kind === 'MemberExpression' || node.kind === 'CallExpression'
+			? this.evaluateLink(node, scope, thisArg)
+			: this.evaluate(node, scope, thisArg)
+	}
+
+	/**
+	 * Resolve the property key of a member expression (dot or bracket notation)
+	 */
+	private memberKey(node: MemberExpression, scope: Scope, thisArg: AnyValue): AnyValue {
+		return node.computed
+			? this.evaluate(node.property as ASTNode, scope, thisArg)
+			: (node.property as string)
+	}
+
+	/**
+	 * Evaluate a binary operator with the operator table the compiler uses
+	 */
+	private evaluateBinary(
+		operator: string,
+		leftNode: ASTNode,
+		rightNode: ASTNode,
+		scope: Scope,
+		thisArg: AnyValue,
+	): unknown {
+		const left = this.evaluate(leftNode, scope, thisArg) as AnyValue
+
+		// Logical operators short-circuit and return an operand
+		if (operator === '&&') {
+			return this.truthy(left) ? this.evaluate(rightNode, scope, thisArg) : left
+		}
+		if (operator === '||') {
+			return this.truthy(left) ? left : this.evaluate(rightNode, scope, thisArg)
+		}
+		if (operator === '??') {
+			return left ?? this.evaluate(rightNode, scope, thisArg)
+		}
+
+		const right = this.evaluate(rightNode, scope, thisArg) as AnyValue
+		return this.applyOperator(operator, left, right)
+	}
+
+	private applyOperator(operator: string, left: AnyValue, right: AnyValue): unknown {
+		if (!isBinaryOperator(operator)) {
+			throw new Error(`Unknown binary operator: ${operator}`)
+		}
+		return this.operators[operator](left, right)
+	}
+
+	/**
+	 * Truthiness of a condition
+	 */
+	private truthy(value: unknown): boolean {
+		return this.operators.truthy(value)
+	}
+
+	/**
+	 * The numeric value of an operand, like unary + in JS
+	 */
+	private numeric(value: unknown): unknown {
+		return this.operators.numeric(value)
+	}
+
+	/**
+	 * Evaluate a call, binding `this` the way a native JS call expression would
+	 */
+	private evaluateCall(node: CallExpression, scope: Scope, thisArg: AnyValue): AnyValue {
+		const callee = node.callee
+		let receiver: AnyValue
+		let func: AnyValue
+		let name: string
+
+		if (callee.kind === 'MemberExpression') {
+			// obj.method(...) - call with obj as this
+			receiver = this.evaluateChainPart(callee.object, scope, thisArg)
+			if (receiver === SHORT_CIRCUIT || (callee.optional && receiver == null)) {
+				return SHORT_CIRCUIT
+			}
+			const key = this.memberKey(callee, scope, thisArg)
+			func = guardedGet(receiver, key)
+			name = String(key)
+		} else if (callee.kind === 'Identifier' && callee.name !== 'this' && !scope.has(callee.name)) {
+			// primitives.xxx(...) or this.xxx(...)
+			receiver = isPrimitive(callee.name) ? primitives : thisArg
+			func = guardedGet(receiver, callee.name)
+			name = callee.name
+		} else {
+			func = this.evaluateChainPart(callee, scope, thisArg)
+			if (func === SHORT_CIRCUIT) {
+				return SHORT_CIRCUIT
+			}
+			name = callee.kind === 'Identifier' ? callee.name : 'expression'
+		}
+
+		// fn?.() skips the call, and its arguments, when fn is null or undefined
+		if (node.optional && func == null) {
+			return SHORT_CIRCUIT
+		}
+		const args = this.evaluateElements(node.args, scope, thisArg)
+		if (
+			this.operators.truthy !== defaultOperators.truthy &&
+			callee.kind === 'MemberExpression' &&
+			!callee.computed &&
+			PREDICATE_METHODS.has(name) &&
+			node.args.length > 0 &&
+			node.args[0]?.kind !== 'SpreadElement'
+		) {
+			// list.filter(fn) tests the callback's result with the compile's truthy
+			args[0] = primitives.__predicate(args[0], this.operators.truthy)
+		}
+		if (typeof func !== 'function') {
+			throw new TypeError(`${name} is not a function`)
+		}
+		return func.apply(receiver, args)
+	}
+}
@@ -0,0 +1,414 @@
+/**
+ * Seval Linter
+ *
+ * Static checks over a parsed program. Identifiers resolve like they do in the backends:
+ * `this`, then parameters and let bindings, then primitives, and otherwise a member of
+ * `this` - the program's own or imported members, or the state it runs with. Names that reach `this`
+ * but are neither are likely typos, since they silently read undefined or create state.
+ */
+
+import {
+	type ASTNode,
+	type FunctionDef,
+	type Identifier,
+	type MemberExpression,
+	type PatternTarget,
+	type Program,
+	type SourceLocation,
+	declaredNames,
+	patternTargets,
+} from './seval-ast'
+import {
+	type DiagnosticSeverity,
+	type SevalDiagnostic,
+	createDiagnostic,
+} from './seval-diagnostics'
+import { isPrimitive } from './seval-primitives'
+import { childNodes } from './seval-visitor'
+
+export type LintRule =
+	| 'undefined-function'
+	| 'undefined-name'
+	| 'shadowed-primitive'
+	| 'unused-function'
+	| 'unused-action'
+
+/**
+ * Default severity of each rule
+ */
+export const LINT_RULES: Record<LintRule, DiagnosticSeverity> = {
+	// Calls a name that is not a primitive, member or state key (throws at runtime)
+	'undefined-function': 'error',
+	// Reads or assigns a name that is not a member or state key
+	'undefined-name': 'warning',
+	// A member, import or state key named like a primitive, which bare references never reach
+	'shadowed-primitive': 'warning',
+	// A method nothing calls (action handlers and runtime hooks excepted)
+	'unused-function': 'warning',
+	// An action_ handler for an action the UI never dispatches
+	'unused-action': 'warning',
+}
+
+export interface LintOptions {
+	/**
+	 * Keys on `this` besides the program's members and RUNTIME_STATE_KEYS: the data model, and
+	 * helpers the host injects. Names outside these are reported by undefined-name.
+	 */
+	stateKeys?: string[]
+	/**
+	 * Actions the UI dispatches (e.g. by Buttons); action_x handles action x. When given,
+	 * handlers for other actions are reported, and methods named here count as used.
+	 */
+	actionNames?: string[]
+	/** Severity per rule, or 'off' to disable it */
+	rules?: Partial<Record<LintRule, DiagnosticSeverity | 'off'>>
+	/** Seval source text, used to render code frames */
+	source?: string
+}
+
+export interface LintDiagnostic extends SevalDiagnostic {
+	rule: LintRule
+}
+
+/**
+ * Check a program for likely mistakes
+ *
+ * @param program Parsed program (see parseSeval)
+ * @param options Names known at runtime, rule severities and source for code frames
+ * @returns Diagnostics in source order
+ */
+export function lintSeval(program: Program, options: LintOptions = {}): LintDiagnostic[] {
+	return new Linter(program, options).run()
+}
+
+/**
+ * Locals in scope, mapped to how they were bound. Assigning to a parameter writes
+ * this.xxx; let bindings are assigned in place.
+ */
+type Scope = ReadonlyMap<string, 'param' | 'let'>
+
+const ACTION_PREFIX = 'action_'
+
+/**
+ * Keys SevalRuntime puts on this for every action, known without being listed in stateKeys
+ */
+export const RUNTIME_STATE_KEYS: readonly string[] = ['context', 'set', 'getData', 'setData']
+
+/**
+ * Methods SevalRuntime calls by itself (updateDerived runs after every action), which count
+ * as used like action handlers
+ */
+const RUNTIME_HOOKS: ReadonlySet<string> = new Set(['updateDerived'])
+
+function declare(scope: Scope, names: string[], kind: 'param' | 'let'): Scope {
+	if (names.length === 0) return scope
+	const inner = new Map(scope)
+	for (const name of names) {
+		inner.set(name, kind)
+	}
+	return inner
+}
+
+function paramNames(func: { params: string[]; rest?: string }): string[] {
+	return func.rest === undefined ? func.params : [...func.params, func.rest]
+}
+
+/**
+ * The property name of this.name (not this[name])
+ */
+function thisMember(node: ASTNode): string | null {
+	if (
+		node.kind === 'MemberExpression' &&
+		node.object.kind === 'Identifier' &&
+		node.object.name === 'this' &&
+		typeof node.property === 'string'
+	) {
+		return node.property
+	}
+	return null
+}
+
+class Linter {
+	private program: Program
+	private options: LintOptions
+	private methods = new Map<string, FunctionDef>()
+	private members = new Set<string>()
+	private stateKeys: Set<string>
+	private actionNames: Set<string> | null
+	// Methods reached by a bare name or this.name anywhere in the program
+	private referenced = new Set<string>()
+	private diagnostics: LintDiagnostic[] = []
+	// Reported for nodes without a loc: the member being checked
+	private fallback: SourceLocation
+	// Inside object literal methods this is the object, so names on it cannot be checked
+	private objectMethods = 0
+
+	constructor(program: Program, options: LintOptions) {
+		this.program = program
+		this.options = options
+		this.stateKeys = new Set([...RUNTIME_STATE_KEYS, ...(options.stateKeys ?? [])])
+		this.actionNames = options.actionNames ? new Set(options.actionNames) : null
+		this.fallback = program.loc ?? {
+			start: { line: 1, column: 1 },
+			end: { line: 1, column: 1 },
+		}
+		for (const { specifiers } of program.imports ?? []) {
+			for (const specifier of specifiers) this.members.add(specifier.local)
+		}
+		for (const member of program.members) {
+			this.members.add(member.name)
+			if (member.kind === 'FunctionDef') {
+				this.methods.set(member.name, member)
+			}
+		}
+	}
+
+	run(): LintDiagnostic[] {
+		const programLoc = this.fallback
+		for (const specifier of (this.program.imports ?? []).flatMap((node) => node.specifiers)) {
+			if (isPrimitive(specifier.local)) {
+				this.report(
+					'shadowed-primitive',
+					`Import '${specifier.local}' is shadowed by the primitive ${specifier.local}; import it with another name`,
+					specifier,
+				)
+			}
+		}
+		for (const member of this.program.members) {
+			this.fallback = member.loc ?? programLoc
+			if (isPrimitive(member.name)) {
+				this.report(
+					'shadowed-primitive',
+					`Member '${member.name}' is shadowed by the primitive ${member.name}; use this.${member.name}`,
+					member,
+				)
+			}
+			if (member.kind === 'FunctionDef') {
+				this.walkBody(member.body, declare(new Map(), paramNames(member), 'param'))
+			} else {
+				this.walk(member.value, new Map())
+			}
+		}
+
+		for (const [name, method] of this.methods) {
+			this.fallback = method.loc ?? programLoc
+			if (this.referenced.has(name) || this.actionNames?.has(name) || RUNTIME_HOOKS.has(name)) {
+				continue
+			}
+			if (!name.startsWith(ACTION_PREFIX)) {
+				this.report('unused-function', `Function '${name}' is never called`, method)
+			} else if (this.actionNames && !this.actionNames.has(name.slice(ACTION_PREFIX.length))) {
+				this.report(
+					'unused-action',
+					`Action handler '${name}' is not referenced by any action`,
+					method,
+				)
+			}
+		}
+
+		return this.diagnostics.sort(
+			(a, b) => a.loc.start.line - b.loc.start.line || a.loc.start.column - b.loc.start.column,
+		)
+	}
+
+	/**
+	 * A function, if or for body: its let declarations are visible throughout it
+	 */
+	private walkBody(node: ASTNode, scope: Scope): void {
+		const statements = node.kind === 'BlockExpression' ? node.statements : [node]
+		const blockScope = declare(scope, statements.flatMap(declaredNames), 'let')
+		for (const statement of statements) {
+			this.walk(statement, blockScope)
+		}
+	}
+
+	private walk(node: ASTNode, scope: Scope): void {
+		switch (node.kind) {
+			case 'Identifier':
+				this.read(node, scope)
+				return
+
+			case 'MemberExpression': {
+				const name = thisMember(node)
+				if (name !== null) {
+					this.useMember(name, node, 'read')
+				} else {
+					this.walkChildren(node, scope)
+				}
+				return
+			}
+
+			case 'CallExpression': {
+				const callee = node.callee
+				const name =
+					callee.kind === 'Identifier' && this.resolvesToThis(callee.name, scope)
+						? callee.name
+						: thisMember(callee)
+				if (name !== null) {
+					this.useMember(name, callee, 'call')
+				} else {
+					this.walk(callee, scope)
+				}
+				for (const arg of node.args) {
+					this.walk(arg, scope)
+				}
+				return
+			}
+
+			case 'AssignmentStatement':
+				this.assign(node.target, scope)
+				this.walk(node.value, scope)
+				return
+
+			case 'UpdateExpression':
+				this.assign(node.target, scope)
+				return
+
+			case 'LetDeclaration':
+				if (node.value) this.walk(node.value, scope)
+				return
+
+			case 'LetPatternDeclaration':
+				this.walk(node.value, scope)
+				return
+
+			case 'BlockExpression':
+				this.walkBody(node, scope)
+				return
+
+			case 'IfStatement':
+				this.walk(node.condition, scope)
+				this.walkBody(node.consequent, scope)
+				if (node.alternate) this.walkBody(node.alternate, scope)
+				return
+
+			case 'ForStatement': {
+				const init = node.init
+				const loopScope =
+					init?.kind === 'LetDeclaration' ? declare(scope, [init.name], 'let') : scope
+				if (init) this.walk(init, loopScope)
+				this.walk(node.condition, loopScope)
+				if (node.update) this.walk(node.update, loopScope)
+				this.walkBody(node.body, loopScope)
+				return
+			}
+
+			case 'ForInStatement':
+				this.walk(node.iterable, scope)
+				this.walkBody(node.body, declare(scope, node.variables, 'let'))
+				return
+
+			case 'TryStatement':
+				this.walkBody(node.block, scope)
+				if (node.handler) {
+					const params = node.param === undefined ? [] : [node.param]
+					this.walkBody(node.handler, declare(scope, params, 'let'))
+				}
+				if (node.finalizer) this.walkBody(node.finalizer, scope)
+				return
+
+			case 'ArrowFunction':
+				// Arrows keep the enclosing this and see the enclosing locals
+				this.walkBody(node.body, declare(scope, paramNames(node), 'param'))
+				return
+
+			case 'FunctionDef':
+				// Method shorthand in an object literal
+				this.objectMethods++
+				this.walkBody(node.body, declare(scope, paramNames(node), 'param'))
+				this.objectMethods--
+				return
+
+			default:
+				this.walkChildren(node, scope)
+		}
+	}
+
+	private walkChildren(node: ASTNode, scope: Scope): void {
+		for (const child of childNodes(node)) {
+			this.walk(child as ASTNode, scope)
+		}
+	}
+
+	/**
+	 * Whether a bare name reaches this.name: it is not a local or a primitive
+	 */
+	private resolvesToThis(name: string, scope: Scope): boolean {
+		return name !== 'this' && !scope.has(name) && !isPrimitive(name)
+	}
+
+	private read(node: Identifier, scope: Scope): void {
+		if (this.resolvesToThis(node.name, scope)) {
+			this.useMember(node.name, node, 'read')
+		} else if (
+			isPrimitive(node.name) &&
+			!scope.has(node.name) &&
+			this.stateKeys.has(node.name) &&
+			!this.members.has(node.name)
+		) {
+			this.report(
+				'shadowed-primitive',
+				`'${node.name}' is the primitive, not the state key ${node.name}; use this.${node.name}`,
+				node,
+			)
+		}
+	}
+
+	/**
+	 * An assignment or update target: let bindings are assigned in place, any other name
+	 * (parameters included) writes this.name
+	 */
+	private assign(target: PatternTarget, scope: Scope): void {
+		for (const node of patternTargets(target)) {
+			if (node.kind === 'Identifier') {
+				if (scope.get(node.name) !== 'let') {
+					this.useMember(node.name, node, 'write')
+				}
+				continue
+			}
+			const name = thisMember(node)
+			if (name !== null) {
+				this.useMember(name, node, 'write')
+			} else {
+				this.walkTarget(node, scope)
+			}
+		}
+	}
+
+	private walkTarget(node: MemberExpression, scope: Scope): void {
+		this.walk(node.object, scope)
+		if (typeof node.property !== 'string') {
+			this.walk(node.property, scope)
+		}
+	}
+
+	private useMember(name: string, node: ASTNode, use: 'read' | 'write' | 'call'): void {
+		if (this.objectMethods > 0) return
+		if (this.methods.has(name)) {
+			this.referenced.add(name)
+		}
+		if (this.members.has(name) || this.stateKeys.has(name)) return
+
+		if (use === 'call') {
+			this.report('undefined-function', `Call to undefined function '${name}'`, node)
+		} else if (use === 'write') {
+			this.report(
+				'undefined-name',
+				`Assignment to unknown state '${name}': not a member or state key`,
+				node,
+			)
+		} else {
+			this.report('undefined-name', `Unknown name '${name}': not a member or state key`, node)
+		}
+	}
+
+	private report(rule: LintRule, message: string, node: { loc?: SourceLocation }): void {
+		const severity = this.options.rules?.[rule] ?? LINT_RULES[rule]
+		if (severity === 'off') return
+		const loc = node.loc ?? this.fallback
+		this.diagnostics.push({
+			...createDiagnostic(message, loc, this.options.source ?? '', severity),
+			rule,
+		})
+	}
+}
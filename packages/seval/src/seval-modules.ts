@@ -0,0 +1,194 @@
+/**
+ * Seval Modules
+ *
+ * A program can import members of library modules before its opening brace:
+ *
+ *   import { formatNum, hasDecimal as isDecimal } from "numfmt"
+ *   { show(n) { formatNum(n) } }
+ *
+ * SevalModules resolves module names to source, compiles each module once (again only when
+ * its source or a module it imports changed) and reports import cycles. Imported methods
+ * run with this bound to their own module: they can call its other members, but do not
+ * see the importing program's state.
+ */
+
+import type { CompileOptions } from './seval'
+import type { Program } from './seval-ast'
+import { SevalCompiler } from './seval-compiler'
+import { SevalInterpreter } from './seval-interpreter'
+import { Parser } from './seval-parser'
+import { Tokenizer } from './seval-tokenizer'
+
+/**
+ * Resolves module names to compiled modules (CompileOptions.modules)
+ */
+export interface ModuleLoader {
+	load(name: string): Record<string, unknown>
+}
+
+/**
+ * Thrown when an import cannot be resolved: an unknown module or member, a name that is
+ * bound twice, or an import cycle
+ */
+export class SevalModuleError extends Error {
+	/** Name of the module being imported */
+	public readonly module: string
+
+	constructor(message: string, module: string) {
+		super(message)
+		this.name = 'SevalModuleError'
+		this.module = module
+	}
+}
+
+export interface SevalModulesOptions {
+	/** Module sources by name */
+	modules?: Record<string, string>
+	/** Source of a module that was not registered, or undefined when there is none */
+	resolve?: (name: string) => string | undefined
+	/** Options modules are compiled with; the filename defaults to `<name>.seval` */
+	compileOptions?: Omit<CompileOptions, 'modules'>
+}
+
+interface CompiledModule {
+	source: string
+	env: Record<string, unknown>
+	// The modules it imports, as they were when it was compiled
+	imports: Map<string, Record<string, unknown>>
+}
+
+/**
+ * A registry of modules, with a cache of the compiled ones
+ */
+export class SevalModules implements ModuleLoader {
+	private sources: Map<string, string>
+	private resolve: ((name: string) => string | undefined) | undefined
+	private compileOptions: Omit<CompileOptions, 'modules'>
+	private compiled = new Map<string, CompiledModule>()
+	// Modules being compiled, outermost first
+	private loading: string[] = []
+
+	constructor(options: SevalModulesOptions = {}) {
+		this.sources = new Map(Object.entries(options.modules ?? {}))
+		this.resolve = options.resolve
+		this.compileOptions = options.compileOptions ?? {}
+	}
+
+	/**
+	 * Add or replace a module; programs compiled later import the new version
+	 */
+	register(name: string, source: string): void {
+		this.sources.set(name, source)
+	}
+
+	/**
+	 * The compiled module, from the cache unless its source or one of its imports changed
+	 *
+	 * @throws SevalModuleError for unknown modules and import cycles
+	 */
+	load(name: string): Record<string, unknown> {
+		const cycleStart = this.loading.indexOf(name)
+		if (cycleStart !== -1) {
+			const cycle = [...this.loading.slice(cycleStart), name].join(' -> ')
+			throw new SevalModuleError(`Import cycle: ${cycle}`, name)
+		}
+		const source = this.sources.get(name) ?? this.resolve?.(name)
+		if (source === undefined) {
+			throw new SevalModuleError(`Unknown module '${name}'`, name)
+		}
+
+		this.loading.push(name)
+		try {
+			const cached = this.compiled.get(name)
+			if (
+				cached?.source === source &&
+				[...cached.imports].every(([dependency, env]) => this.load(dependency) === env)
+			) {
+				return cached.env
+			}
+
+			const imports = new Map<string, Record<string, unknown>>()
+			const program = new Parser(new Tokenizer(source).tokenize(), { source }).parseProgram()
+			const env = compileProgram(program, source, {
+				filename: `${name}.seval`,
+				...this.compileOptions,
+				modules: {
+					load: (dependency) => {
+						const module = this.load(dependency)
+						imports.set(dependency, module)
+						return module
+					},
+				},
+			})
+			this.compiled.set(name, { source, env, imports })
+			return env
+		} finally {
+			this.loading.pop()
+		}
+	}
+}
+
+/**
+ * Compile a parsed program with the backend the options select, after resolving its imports
+ * (the part of compileSeval that modules share)
+ *
+ * @throws SevalModuleError when an import cannot be resolved
+ */
+export function compileProgram(
+	program: Program,
+	source: string,
+	options: CompileOptions,
+): Record<string, unknown> {
+	// Imported members are resolved first, so property initializers can use them
+	const imports = resolveImports(program, options.modules)
+
+	const compilerOptions = {
+		source,
+		filename: options.filename,
+		budget: options.budget,
+		arithmetic: options.arithmetic,
+		operators: options.operators,
+	}
+	const compiler =
+		options.backend === 'interpreter'
+			? new SevalInterpreter(compilerOptions)
+			: new SevalCompiler(compilerOptions)
+	return compiler.compile(program, imports)
+}
+
+/**
+ * The values a program imports, by local name
+ *
+ * @throws SevalModuleError when a module or member does not exist, or a name is bound twice
+ */
+function resolveImports(
+	program: Program,
+	modules: ModuleLoader | undefined,
+): Record<string, unknown> {
+	const values: Record<string, unknown> = {}
+	const memberNames = new Set(program.members.map((member) => member.name))
+
+	for (const declaration of program.imports ?? []) {
+		const source = declaration.source
+		if (!modules) {
+			throw new SevalModuleError(`Cannot import from '${source}': no modules are available`, source)
+		}
+		const module = modules.load(source)
+		for (const { imported, local } of declaration.specifiers) {
+			if (!Object.hasOwn(module, imported)) {
+				throw new SevalModuleError(`Module '${source}' has no member '${imported}'`, source)
+			}
+			if (memberNames.has(local) || Object.hasOwn(values, local)) {
+				throw new SevalModuleError(
+					`'${local}' is already declared; import it with another name`,
+					source,
+				)
+			}
+			const value = module[imported]
+			// Methods keep their module as this
+			values[local] =
+				typeof value === 'function' ? (...args: unknown[]) => value.apply(module, args) : value
+		}
+	}
+	return values
+}
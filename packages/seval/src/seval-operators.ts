@@ -0,0 +1,141 @@
+/**
+ * Seval Operators
+ *
+ * The semantics of every operator, as one table shared by the compiler and the
+ * interpreter. A compile resolves its table from the defaults, the arithmetic
+ * mode and the host's overrides (e.g. for decimal or unit types).
+ */
+
+import { decimalOperators } from './seval-decimal'
+
+export type BinaryOperator =
+	| '+'
+	| '-'
+	| '*'
+	| '/'
+	| '%'
+	| '=='
+	| '!='
+	| '==='
+	| '!=='
+	| '<'
+	| '<='
+	| '>'
+	| '>='
+
+// biome-ignore lint/suspicious/noExplicitAny: operands are any Seval value
+type Operand = any
+
+/**
+ * Implementations of the operators. && || and ?? short-circuit, so they are not
+ * entries: && and || test their left operand with truthy, ?? tests it for null.
+ */
+export type SevalOperators = Record<BinaryOperator, (a: Operand, b: Operand) => unknown> & {
+	/** Unary minus */
+	neg: (a: Operand) => unknown
+	/** The numeric value of an operand: what x++ evaluates to */
+	numeric: (a: Operand) => unknown
+	/** Truthiness for if, for, ?:, match guards, !, && and ||, and array predicate callbacks */
+	truthy: (a: Operand) => boolean
+	/** The value of a number literal, given its number and its source text when parsed */
+	literal: (value: number, raw?: string) => unknown
+}
+
+export const BINARY_OPERATORS: readonly BinaryOperator[] = [
+	'+',
+	'-',
+	'*',
+	'/',
+	'%',
+	'==',
+	'!=',
+	'===',
+	'!==',
+	'<',
+	'<=',
+	'>',
+	'>=',
+]
+
+/**
+ * Default semantics: == is strict, + concatenates when either operand is a string
+ * (the other is converted with String()), everything else is the JS operator
+ */
+export const defaultOperators: SevalOperators = {
+	'+': (a, b) => {
+		if (typeof a === 'string' || typeof b === 'string') {
+			return String(a) + String(b)
+		}
+		return a + b
+	},
+	'-': (a, b) => a - b,
+	'*': (a, b) => a * b,
+	'/': (a, b) => a / b,
+	'%': (a, b) => a % b,
+	'==': (a, b) => a === b,
+	'!=': (a, b) => a !== b,
+	'===': (a, b) => a === b,
+	'!==': (a, b) => a !== b,
+	'<': (a, b) => a < b,
+	'<=': (a, b) => a <= b,
+	'>': (a, b) => a > b,
+	'>=': (a, b) => a >= b,
+	neg: (a) => -a,
+	numeric: (a) => +a,
+	truthy: (a) => Boolean(a),
+	literal: (value) => value,
+}
+
+/**
+ * JS operators with exactly the default semantics, which compiled code may use directly
+ */
+export const NATIVE_OPERATORS: Partial<Record<BinaryOperator, string>> = {
+	'-': '-',
+	'*': '*',
+	'/': '/',
+	'%': '%',
+	'==': '===',
+	'!=': '!==',
+	'===': '===',
+	'!==': '!==',
+	'<': '<',
+	'<=': '<=',
+	'>': '>',
+	'>=': '>=',
+}
+
+/**
+ * Native array methods that test their callback's result for truthiness. When truthy is not
+ * the default, a callback passed to them by name (list.filter(fn)) is tested with it too.
+ */
+export const PREDICATE_METHODS: ReadonlySet<string> = new Set([
+	'every',
+	'filter',
+	'find',
+	'findIndex',
+	'findLast',
+	'findLastIndex',
+	'some',
+])
+
+export interface OperatorOptions {
+	/** 'decimal' runs number literals, + - * / % and comparisons on exact decimals */
+	arithmetic?: 'float' | 'decimal'
+	/** Operators replacing those of the defaults and the arithmetic mode */
+	operators?: Partial<SevalOperators>
+}
+
+/**
+ * The operator table of a compile: the defaults, then the arithmetic mode, then the host's overrides
+ */
+export function resolveOperators(options: OperatorOptions = {}): SevalOperators {
+	return {
+		...defaultOperators,
+		...(options.arithmetic === 'decimal' ? decimalOperators : {}),
+		...options.operators,
+	}
+}
+
+export function isBinaryOperator(operator: string): operator is BinaryOperator {
+	return (BINARY_OPERATORS as readonly string[]).includes(operator)
+}
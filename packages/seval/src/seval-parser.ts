@@ -5,18 +5,183 @@
  * Uses recursive descent parsing with bounded depth.
  */
 
-import type { ASTNode, FunctionDef, Program, PropertyDef } from './seval-ast'
+import {
+	type ASTNode,
+	type ArrayPattern,
+	type CompoundOperator,
+	type FunctionDef,
+	type Identifier,
+	type ImportDeclaration,
+	type ImportSpecifier,
+	type LetDeclaration,
+	type LetPatternDeclaration,
+	type MatchArm,
+	type MatchExpression,
+	type MemberExpression,
+	type ObjectPattern,
+	type ObjectProperty,
+	type PatternTarget,
+	type Program,
+	type PropertyDef,
+	type SourceLocation,
+	type SpreadElement,
+	type TryStatement,
+	declaredNames,
+	hasOptionalLink,
+} from './seval-ast'
+import { type SevalDiagnostic, SevalSyntaxError, createDiagnostic } from './seval-diagnostics'
 import type { Token } from './seval-tokenizer'
-import { TokenType } from './seval-tokenizer'
+import { TokenType, numberValue } from './seval-tokenizer'
+
+export interface ParserOptions {
+	/** Source text, used to render code frames in diagnostics */
+	source?: string
+	/** Collect errors in `diagnostics` and resynchronize instead of throwing */
+	recover?: boolean
+}
+
+/**
+ * Whether a token is the identifier word (a keyword only in some positions)
+ */
+function isWord(token: Token, word: string): boolean {
+	return token.type === TokenType.IDENTIFIER && token.value === word
+}
+
+/**
+ * Keywords that are still names after . and ?. and as object keys, where no statement can start
+ */
+const KEYWORD_NAMES: ReadonlySet<TokenType> = new Set([
+	TokenType.IN,
+	TokenType.LET,
+	TokenType.RETURN,
+	TokenType.BREAK,
+	TokenType.CONTINUE,
+	TokenType.TRY,
+	TokenType.CATCH,
+	TokenType.FINALLY,
+	TokenType.THROW,
+	TokenType.MATCH,
+])
 
 export class Parser {
 	private tokens: Token[]
 	private pos = 0
+	private previous: Token | undefined // last consumed token
 	private depth = 0
+	private loopDepth = 0 // for loops enclosing the current statement
 	private maxDepth = 50
+	private source: string
+	private recover: boolean
+	public readonly diagnostics: SevalDiagnostic[] = []
 
-	constructor(tokens: Token[]) {
+	constructor(tokens: Token[], options: ParserOptions = {}) {
 		this.tokens = tokens
+		this.source = options.source ?? ''
+		this.recover = options.recover ?? false
+	}
+
+	/**
+	 * Source span from the start of a token to the end of the last consumed token
+	 */
+	private span(start: Token): SourceLocation {
+		const end = this.previous ?? start
+		return {
+			start: { line: start.line, column: start.column },
+			end: { line: end.endLine, column: end.endColumn },
+		}
+	}
+
+	/**
+	 * Give a node the span from start to the last consumed token
+	 */
+	private located<T extends ASTNode | Program | ImportDeclaration | ImportSpecifier>(
+		node: T,
+		start: Token,
+	): T {
+		node.loc = this.span(start)
+		return node
+	}
+
+	/**
+	 * Create a syntax error spanning the given token
+	 */
+	private error(message: string, token: Token): SevalSyntaxError {
+		const loc = {
+			start: { line: token.line, column: token.column },
+			end: { line: token.endLine, column: token.endColumn },
+		}
+		return new SevalSyntaxError([createDiagnostic(message, loc, this.source)])
+	}
+
+	/**
+	 * Run a parse step. When recovering, a syntax error is recorded and the
+	 * tokens of the broken construct that began at the current position are skipped.
+	 * @param separators - tokens that end the construct (consumed on resync)
+	 */
+	private attempt(parse: () => void, separators: TokenType[]): void {
+		const startPos = this.pos
+		const depth = this.depth
+		try {
+			parse()
+		} catch (error) {
+			if (!this.recover || !(error instanceof SevalSyntaxError)) {
+				throw error
+			}
+			this.diagnostics.push(...error.diagnostics)
+			this.depth = depth
+			this.synchronize(startPos, separators)
+		}
+	}
+
+	/**
+	 * Skip to the end of a broken statement or member that began at startPos.
+	 * Brackets are matched from startPos, so the scan stops at a separator on the
+	 * starting nesting level, or before a '}' that closes the enclosing block.
+	 */
+	private synchronize(startPos: number, separators: TokenType[]): void {
+		const closers: TokenType[] = []
+		const errorPos = this.pos
+
+		for (let pos = startPos; pos < this.tokens.length; pos++) {
+			// biome-ignore lint/style/noNonNullAssertion: pos is within bounds
+			const token = this.tokens[pos]!
+
+			if (pos >= errorPos && closers.length === 0) {
+				if (separators.includes(token.type)) {
+					this.pos = pos
+					this.advance() // consume separator and any following newlines
+					return
+				}
+				if (token.type === TokenType.EOF) {
+					this.pos = pos
+					return
+				}
+			}
+
+			if (token.type === TokenType.LPAREN) {
+				closers.push(TokenType.RPAREN)
+			} else if (token.type === TokenType.LBRACKET) {
+				closers.push(TokenType.RBRACKET)
+			} else if (token.type === TokenType.LBRACE) {
+				closers.push(TokenType.RBRACE)
+			} else if (
+				token.type === TokenType.RPAREN ||
+				token.type === TokenType.RBRACKET ||
+				token.type === TokenType.RBRACE
+			) {
+				const index = closers.lastIndexOf(token.type)
+				if (index !== -1) {
+					// Implicitly close anything left open inside the matching bracket
+					closers.length = index
+				} else if (token.type === TokenType.RBRACE && pos >= errorPos) {
+					// Closes the enclosing block: leave it for the caller
+					this.pos = pos
+					return
+				}
+			}
+		}
+
+		this.pos = this.tokens.length - 1
 	}
 
 	/**
@@ -44,6 +209,7 @@ export class Parser {
 	private advance(skipNewlines = true): Token {
 		// biome-ignore lint/style/noNonNullAssertion: Token always exists
 		const token = this.tokens[this.pos++]!
+		this.previous = token
 
 		if (skipNewlines) {
 			// Skip subsequent newlines
@@ -63,9 +229,7 @@ export class Parser {
 	private expect(type: TokenType, skipNewlines = true): Token {
 		const token = this.peek(skipNewlines)
 		if (token.type !== type) {
-			throw new Error(
-				`Expected ${type} but got ${token.type} at line ${token.line}, column ${token.column}`,
-			)
+			throw this.error(`Expected ${type} but got ${token.type}`, token)
 		}
 		return this.advance(skipNewlines)
 	}
@@ -73,15 +237,61 @@ export class Parser {
 	private checkDepth(): void {
 		this.depth++
 		if (this.depth > this.maxDepth) {
-			throw new Error('Maximum parser depth exceeded')
+			throw this.error('Maximum parser depth exceeded', this.peek())
 		}
 	}
 
 	// Parse program: { prop: value, func(params) { body }, ... }
+	// When recovering, never throws: errors are collected in `diagnostics`
 	public parseProgram(): Program {
+		const imports: ImportDeclaration[] = []
+		const members: Array<PropertyDef | FunctionDef> = []
+		// Skip blank and comment lines before the imports and the opening brace
+		while (this.peek(false).type === TokenType.NEWLINE) {
+			this.advance(false)
+		}
+		const start = this.peek()
+
+		while (isWord(this.peek(), 'import')) {
+			this.attempt(() => imports.push(this.parseImport()), [TokenType.NEWLINE, TokenType.SEMICOLON])
+		}
+		this.attempt(() => this.parseMembers(members), [])
+
+		const program: Program = { kind: 'Program', members }
+		if (imports.length > 0) program.imports = imports
+		return this.located(program, start)
+	}
+
+	// Parse import: import { name, other as alias } from "module"
+	// import, from and as are only keywords here, so they remain valid names elsewhere
+	private parseImport(): ImportDeclaration {
+		const start = this.advance()
 		this.expect(TokenType.LBRACE)
 
-		const members: Array<PropertyDef | FunctionDef> = []
+		const specifiers: ImportSpecifier[] = []
+		while (this.peek().type !== TokenType.RBRACE) {
+			const name = this.expect(TokenType.IDENTIFIER)
+			let local = name.value
+			if (isWord(this.peek(), 'as')) {
+				this.advance()
+				local = this.expect(TokenType.IDENTIFIER).value
+			}
+			specifiers.push(this.located({ imported: name.value, local }, name))
+			if (this.peek().type !== TokenType.COMMA) break
+			this.advance()
+		}
+		this.expect(TokenType.RBRACE)
+
+		if (!isWord(this.peek(), 'from')) {
+			throw this.error(`Expected 'from' but got ${this.peek().type}`, this.peek())
+		}
+		this.advance()
+		const source = this.expect(TokenType.STRING).value
+		return this.located({ kind: 'ImportDeclaration', specifiers, source }, start)
+	}
+
+	private parseMembers(members: Array<PropertyDef | FunctionDef>): void {
+		this.expect(TokenType.LBRACE)
 
 		// Skip leading newlines
 		while (this.peek().type === TokenType.NEWLINE) {
@@ -89,66 +299,215 @@ export class Parser {
 		}
 
 		while (this.peek().type !== TokenType.RBRACE && this.peek().type !== TokenType.EOF) {
-			const nameToken = this.expect(TokenType.IDENTIFIER)
-			const name = nameToken.value
-
-			// Check if it's a property (name: value) or method (name(...) { ... })
-			if (this.peek().type === TokenType.COLON) {
-				// Property definition: name: value
-				this.advance() // consume :
-				const value = this.parseExpression()
-
-				members.push({
-					kind: 'PropertyDef',
-					name,
-					value,
-				})
-			} else if (this.peek().type === TokenType.LPAREN) {
-				// Method definition: name(params) { body }
-				this.advance() // consume (
-				const params: string[] = []
+			this.attempt(
+				() => members.push(this.parseMember()),
+				[TokenType.COMMA, TokenType.NEWLINE, TokenType.SEMICOLON],
+			)
 
-				while (this.peek().type !== TokenType.RPAREN) {
-					const param = this.expect(TokenType.IDENTIFIER)
-					params.push(param.value)
-					if (this.peek().type === TokenType.COMMA) {
-						this.advance()
-					}
-				}
+			// Skip optional comma and newlines
+			if (this.peek().type === TokenType.COMMA) {
+				this.advance()
+			}
 
-				this.expect(TokenType.RPAREN)
+			// Skip newlines between members
+			while (this.peek().type === TokenType.NEWLINE) {
+				this.advance()
+			}
+		}
 
-				const body = this.parseFunctionBody()
+		this.expect(TokenType.RBRACE)
+	}
 
-				members.push({
-					kind: 'FunctionDef',
-					name,
-					params,
-					body,
-				})
-			} else {
-				throw new Error(
-					`Expected ':' or '(' after identifier '${name}' at line ${nameToken.line}, column ${nameToken.column}`,
-				)
+	// Parse member: name: value or name(params) { body }; the name may be quoted or a number
+	private parseMember(): PropertyDef | FunctionDef {
+		const nameToken = this.peek()
+		const name = this.parseStaticKey()
+
+		// Check if it's a property (name: value) or method (name(...) { ... })
+		if (this.peek().type === TokenType.COLON) {
+			// Property definition: name: value
+			this.advance() // consume :
+			const value = this.parseExpression()
+
+			return {
+				kind: 'PropertyDef',
+				name,
+				value,
+				loc: this.span(nameToken),
 			}
+		}
 
-			// Skip optional comma and newlines
+		if (this.peek().type === TokenType.LPAREN) {
+			// Method definition: name(params) { body }
+			return this.parseMethod(name, nameToken)
+		}
+
+		throw this.error(`Expected ':' or '(' after identifier '${name}'`, nameToken)
+	}
+
+	// Parse a name, string or number key; numbers are keyed by their canonical string, as in JS
+	private parseStaticKey(): string {
+		const token = this.peek()
+		if (token.type === TokenType.STRING) {
+			return this.advance().value
+		}
+		if (token.type === TokenType.NUMBER) {
+			return String(numberValue(this.advance().value))
+		}
+		return this.expectName().value
+	}
+
+	// Expect a property name: an identifier or a keyword in KEYWORD_NAMES
+	private expectName(): Token {
+		if (KEYWORD_NAMES.has(this.peek().type)) {
+			return this.advance()
+		}
+		return this.expect(TokenType.IDENTIFIER)
+	}
+
+	// Parse the rest of a method: (params) { body }
+	private parseMethod(name: string, nameToken: Token): FunctionDef {
+		this.expect(TokenType.LPAREN)
+		const params: string[] = []
+		let rest: string | undefined
+
+		while (this.peek().type !== TokenType.RPAREN) {
+			if (this.peek().type === TokenType.ELLIPSIS) {
+				rest = this.parseRestParameter()
+				break
+			}
+			const param = this.expect(TokenType.IDENTIFIER)
+			params.push(param.value)
 			if (this.peek().type === TokenType.COMMA) {
 				this.advance()
 			}
+		}
 
-			// Skip newlines between members
-			while (this.peek().type === TokenType.NEWLINE) {
-				this.advance()
+		this.expect(TokenType.RPAREN)
+
+		// break and continue cannot reach a loop outside the method
+		const loopDepth = this.loopDepth
+		this.loopDepth = 0
+		try {
+			return {
+				kind: 'FunctionDef',
+				name,
+				params,
+				...(rest !== undefined && { rest }),
+				body: this.parseFunctionBody(),
+				loc: this.span(nameToken),
 			}
+		} finally {
+			this.loopDepth = loopDepth
+		}
+	}
+
+	// Parse arrow body after =>: a { ... } block with the statements of a method body,
+	// or a single expression (an object literal body needs parentheses, like JS)
+	private parseArrowBody(): ASTNode {
+		if (this.peek().type !== TokenType.LBRACE) {
+			return this.parseExpression()
+		}
+		// break and continue cannot reach a loop outside the arrow
+		const loopDepth = this.loopDepth
+		this.loopDepth = 0
+		try {
+			return this.parseFunctionBody()
+		} finally {
+			this.loopDepth = loopDepth
 		}
+	}
+
+	// Parse match expression: match subject { pattern [if guard] => body, ... }
+	// Arms are separated by commas or newlines; an arm that can never be chosen is an error
+	private parseMatch(): MatchExpression {
+		const matchToken = this.expect(TokenType.MATCH)
+		const subject = this.parseExpression()
+		this.expect(TokenType.LBRACE)
 
+		const arms: MatchArm[] = []
+		let wildcard = false
+		// Literal patterns of the arms without a guard, as JSON
+		const matched = new Set<string>()
+		while (this.peek().type !== TokenType.RBRACE) {
+			const start = this.peek()
+			const pattern = this.parseMatchPattern()
+			let guard: ASTNode | undefined
+			if (this.peek().type === TokenType.IF) {
+				this.advance() // consume 'if'
+				// Not an expression: `if ok => body` must not read as an arrow function
+				guard = this.parseTernary()
+			}
+			this.expect(TokenType.ARROW)
+			const body = this.parseExpression()
+
+			if (wildcard) {
+				throw this.error("Unreachable match arm: '_' above matches every value", start)
+			}
+			if (pattern) {
+				// Literal patterns (numbers, strings, booleans and null) all have a value
+				const value = JSON.stringify((pattern as { value: unknown }).value)
+				if (matched.has(value)) {
+					throw this.error(`Unreachable match arm: ${value} is matched above`, start)
+				}
+				if (!guard) matched.add(value)
+			}
+			wildcard = !pattern && !guard
+
+			arms.push({
+				...(pattern && { pattern }),
+				...(guard && { guard }),
+				body,
+				loc: this.span(start),
+			})
+			if (this.peek().type === TokenType.COMMA) {
+				this.advance()
+			}
+		}
 		this.expect(TokenType.RBRACE)
 
-		return {
-			kind: 'Program',
-			members,
+		return this.located({ kind: 'MatchExpression', subject, arms }, matchToken)
+	}
+
+	// Parse match pattern: a number, string, boolean or null literal, or undefined for _
+	private parseMatchPattern(): ASTNode | undefined {
+		const token = this.peek()
+		if (token.type === TokenType.IDENTIFIER && token.value === '_') {
+			this.advance()
+			return undefined
+		}
+		if (token.type === TokenType.MINUS) {
+			this.advance()
+			const number = this.expect(TokenType.NUMBER)
+			return this.located(
+				{
+					kind: 'NumberLiteral',
+					value: -numberValue(number.value),
+					raw: `-${number.value}`,
+				},
+				token,
+			)
+		}
+		if (
+			token.type === TokenType.NUMBER ||
+			token.type === TokenType.STRING ||
+			token.type === TokenType.TRUE ||
+			token.type === TokenType.FALSE ||
+			token.type === TokenType.NULL
+		) {
+			return this.parsePrimary()
 		}
+		throw this.error("A match pattern must be a literal or '_'", token)
+	}
+
+	// Parse rest parameter: ...name, which must be the last parameter
+	private parseRestParameter(): string {
+		this.expect(TokenType.ELLIPSIS)
+		const name = this.expect(TokenType.IDENTIFIER).value
+		if (this.peek().type === TokenType.COMMA) {
+			throw this.error('A rest parameter must be last', this.peek())
+		}
+		return name
 	}
 
 	// Parse function: name(param1, param2) { body }
@@ -174,12 +533,7 @@ export class Parser {
 
 		this.expect(TokenType.RBRACE)
 
-		return {
-			kind: 'FunctionDef',
-			name,
-			params,
-			body,
-		}
+		return this.located({ kind: 'FunctionDef', name, params, body }, nameToken)
 	}
 
 	/**
@@ -187,9 +541,11 @@ export class Parser {
 	 * Newlines and semicolons are treated as statement separators
 	 */
 	private parseFunctionBody(): ASTNode {
-		this.expect(TokenType.LBRACE)
+		const open = this.expect(TokenType.LBRACE)
 
 		const statements: ASTNode[] = []
+		// Names declared with let directly in this block
+		const declared = new Set<string>()
 
 		// Skip leading separators (newlines and semicolons)
 		while (
@@ -201,7 +557,18 @@ export class Parser {
 
 		// Parse statements until closing brace
 		while (this.peek(false).type !== TokenType.RBRACE && this.peek(false).type !== TokenType.EOF) {
-			statements.push(this.parseStatement())
+			this.attempt(() => {
+				const start = this.peek(false)
+				const statement = this.parseStatement()
+				statement.loc = this.span(start)
+				for (const name of declaredNames(statement)) {
+					if (declared.has(name)) {
+						throw this.error(`'${name}' is already declared in this block`, start)
+					}
+					declared.add(name)
+				}
+				statements.push(statement)
+			}, [TokenType.NEWLINE, TokenType.SEMICOLON])
 
 			// Skip separators after statement
 			while (
@@ -220,14 +587,57 @@ export class Parser {
 		}
 
 		// Multiple statements: return BlockExpression
-		return {
-			kind: 'BlockExpression',
-			statements,
-		}
+		return this.located({ kind: 'BlockExpression', statements }, open)
 	}
 
-	// Parse statement (if statement, for loop, or expression)
+	// Parse statement (let declaration, if statement, for loop, or expression)
 	private parseStatement(): ASTNode {
+		const token = this.peek()
+		if (token.type === TokenType.LET) {
+			return this.parseLetDeclaration()
+		}
+
+		if (token.type === TokenType.RETURN) {
+			this.advance(false)
+			// A value must start on the same line: `return` alone returns null
+			const next = this.peek(false).type
+			const hasValue =
+				next !== TokenType.NEWLINE &&
+				next !== TokenType.SEMICOLON &&
+				next !== TokenType.RBRACE &&
+				next !== TokenType.EOF
+			const value = hasValue ? this.parseExpression() : undefined
+			return this.located({ kind: 'ReturnStatement', value }, token)
+		}
+
+		if (token.type === TokenType.BREAK || token.type === TokenType.CONTINUE) {
+			if (this.loopDepth === 0) {
+				throw this.error(`'${token.value}' outside of a for loop`, token)
+			}
+			this.advance()
+			const kind = token.type === TokenType.BREAK ? 'BreakStatement' : 'ContinueStatement'
+			return this.located({ kind }, token)
+		}
+
+		if (token.type === TokenType.THROW) {
+			this.advance(false)
+			// The value must start on the same line, like a return value
+			const next = this.peek(false).type
+			if (
+				next === TokenType.NEWLINE ||
+				next === TokenType.SEMICOLON ||
+				next === TokenType.RBRACE ||
+				next === TokenType.EOF
+			) {
+				throw this.error("'throw' needs a value on the same line", token)
+			}
+			return this.located({ kind: 'ThrowStatement', value: this.parseExpression() }, token)
+		}
+
+		if (token.type === TokenType.TRY) {
+			return this.parseTryStatement()
+		}
+
 		// Check for if statement
 		if (this.peek().type === TokenType.IF) {
 			return this.parseIfStatement()
@@ -242,9 +652,120 @@ export class Parser {
 		return this.parseAssignment()
 	}
 
+	// Parse let declaration: let name = value (or let name, which starts as null)
+	// or destructuring: let [a, b] = value, let { a, b: c } = value
+	private parseLetDeclaration(): LetDeclaration | LetPatternDeclaration {
+		const letToken = this.expect(TokenType.LET)
+		const type = this.peek().type
+		if (type === TokenType.LBRACKET || type === TokenType.LBRACE) {
+			const pattern = this.parseBindingPattern()
+			this.expect(TokenType.ASSIGN)
+			const value = this.parseExpression()
+			return this.located({ kind: 'LetPatternDeclaration', pattern, value }, letToken)
+		}
+
+		const nameToken = this.expect(TokenType.IDENTIFIER)
+		if (nameToken.value === 'this') {
+			throw this.error("Cannot declare 'this' with let", nameToken)
+		}
+
+		let value: ASTNode | undefined
+		if (this.peek(false).type === TokenType.ASSIGN) {
+			this.advance() // consume =
+			value = this.parseExpression()
+		}
+
+		return this.located({ kind: 'LetDeclaration', name: nameToken.value, value }, letToken)
+	}
+
+	// Parse a let destructuring pattern: [a, [b, c], ...rest] or { a, b: c, ...rest }
+	private parseBindingPattern(): ArrayPattern | ObjectPattern {
+		const start = this.peek()
+		if (start.type === TokenType.LBRACKET) {
+			this.advance() // consume [
+			const elements: PatternTarget[] = []
+			let rest: PatternTarget | undefined
+
+			while (this.peek().type !== TokenType.RBRACKET) {
+				if (this.peek().type === TokenType.ELLIPSIS) {
+					this.advance() // consume ...
+					rest = this.parseBindingTarget()
+					this.expectPatternEnd(TokenType.RBRACKET)
+					break
+				}
+				elements.push(this.parseBindingTarget())
+				if (this.peek().type !== TokenType.RBRACKET) {
+					this.expect(TokenType.COMMA)
+				}
+			}
+
+			this.expect(TokenType.RBRACKET)
+			return this.located({ kind: 'ArrayPattern', elements, ...(rest && { rest }) }, start)
+		}
+
+		this.expect(TokenType.LBRACE)
+		const properties: ObjectPattern['properties'] = []
+		let rest: PatternTarget | undefined
+
+		while (this.peek().type !== TokenType.RBRACE) {
+			if (this.peek().type === TokenType.ELLIPSIS) {
+				this.advance() // consume ...
+				rest = this.parseBindingName()
+				this.expectPatternEnd(TokenType.RBRACE)
+				break
+			}
+			// { key: target } or the shorthand { key }, which binds a variable named key
+			const keyToken = this.peek()
+			const key = this.parseStaticKey()
+			if (this.peek().type === TokenType.COLON || keyToken.type !== TokenType.IDENTIFIER) {
+				this.expect(TokenType.COLON)
+				const value = this.parseBindingTarget()
+				properties.push({ key, value, loc: this.span(keyToken) })
+			} else {
+				properties.push({ key, value: this.bindingName(keyToken), loc: this.span(keyToken) })
+			}
+			if (this.peek().type !== TokenType.RBRACE) {
+				this.expect(TokenType.COMMA)
+			}
+		}
+
+		this.expect(TokenType.RBRACE)
+		return this.located({ kind: 'ObjectPattern', properties, ...(rest && { rest }) }, start)
+	}
+
+	// Parse what a let pattern binds: a name or a nested pattern
+	private parseBindingTarget(): PatternTarget {
+		const type = this.peek().type
+		if (type === TokenType.LBRACKET || type === TokenType.LBRACE) {
+			return this.parseBindingPattern()
+		}
+		return this.parseBindingName()
+	}
+
+	private parseBindingName(): Identifier {
+		return this.bindingName(this.expect(TokenType.IDENTIFIER))
+	}
+
+	private bindingName(token: Token): Identifier {
+		if (token.value === 'this') {
+			throw this.error("Cannot declare 'this' with let", token)
+		}
+		return this.located({ kind: 'Identifier', name: token.value }, token)
+	}
+
+	// After a rest element only the closing bracket may follow
+	private expectPatternEnd(close: TokenType): void {
+		if (this.peek().type === TokenType.COMMA) {
+			throw this.error('A rest element must be last', this.peek())
+		}
+		if (this.peek().type !== close) {
+			this.expect(close)
+		}
+	}
+
 	// Parse if statement: if (condition) { ... } elif (condition) { ... } else { ... }
 	private parseIfStatement(): ASTNode {
-		this.expect(TokenType.IF)
+		const ifToken = this.expect(TokenType.IF)
 
 		// Parse condition
 		const condition = this.parseExpression()
@@ -255,24 +776,75 @@ export class Parser {
 		// Check for elif or else
 		const alternate = this.parseElseOrElif()
 
-		return {
-			kind: 'IfStatement',
-			condition,
-			consequent,
-			alternate,
+		return this.located({ kind: 'IfStatement', condition, consequent, alternate }, ifToken)
+	}
+
+	// Parse try statement: try { body } catch (e) { body } finally { body }
+	// The catch binding is optional, and a try needs a catch or finally block (or both)
+	private parseTryStatement(): TryStatement {
+		const tryToken = this.expect(TokenType.TRY)
+		const block = this.parseFunctionBody()
+
+		let param: string | undefined
+		let handler: ASTNode | undefined
+		if (this.peek().type === TokenType.CATCH) {
+			this.advance() // consume 'catch'
+			if (this.peek().type === TokenType.LPAREN) {
+				this.advance()
+				const nameToken = this.expect(TokenType.IDENTIFIER)
+				if (nameToken.value === 'this') {
+					throw this.error("Cannot use 'this' as a catch binding", nameToken)
+				}
+				param = nameToken.value
+				this.expect(TokenType.RPAREN)
+			}
+			handler = this.parseFunctionBody()
+		}
+
+		let finalizer: ASTNode | undefined
+		if (this.peek().type === TokenType.FINALLY) {
+			this.advance() // consume 'finally'
+			finalizer = this.parseFunctionBody()
 		}
+
+		if (!handler && !finalizer) {
+			throw this.error("'try' needs a catch or finally block", tryToken)
+		}
+
+		return this.located(
+			{
+				kind: 'TryStatement',
+				block,
+				...(param !== undefined && { param }),
+				...(handler && { handler }),
+				...(finalizer && { finalizer }),
+			},
+			tryToken,
+		)
 	}
 
 	// Parse for statement: for init; condition; update { body } or for condition { body }
+	// or collection iteration: for item in list { body } / for key, value in obj { body }
 	private parseForStatement(): ASTNode {
-		this.expect(TokenType.FOR)
+		const forToken = this.expect(TokenType.FOR)
+
+		const variables = this.parseForInVariables()
+		if (variables) {
+			const iterable = this.parseExpression()
+			const body = this.parseLoopBody()
+			return this.located({ kind: 'ForInStatement', variables, iterable, body }, forToken)
+		}
 
 		// Try to detect which form: three-part or condition-only
 		// Look for semicolons to distinguish
-		const savedPos = this.pos
 
-		// Parse what might be init or condition
-		const first = this.parseAssignment()
+		// Parse what might be init or condition (a let declaration can only be init)
+		const start = this.peek()
+		const first =
+			this.peek().type === TokenType.LET ? this.parseLetDeclaration() : this.parseAssignment()
+		if (first.kind === 'LetPatternDeclaration') {
+			throw this.error('Destructuring is not supported in a for loop initializer', start)
+		}
 
 		if (this.peek().type === TokenType.SEMICOLON) {
 			// Three-part form: for init; condition; update { body }
@@ -287,42 +859,73 @@ export class Parser {
 			const update = this.parseAssignment()
 
 			// Parse body
-			const body = this.parseFunctionBody()
+			const body = this.parseLoopBody()
 
-			return {
-				kind: 'ForStatement',
-				init: first,
-				condition,
-				update,
-				body,
-			}
+			return this.located({ kind: 'ForStatement', init: first, condition, update, body }, forToken)
+		}
+
+		if (first.kind === 'LetDeclaration') {
+			throw this.error(`Expected SEMICOLON but got ${this.peek().type}`, this.peek())
 		}
 
 		// Condition-only form: for condition { body }
-		const body = this.parseFunctionBody()
+		const body = this.parseLoopBody()
 
-		return {
-			kind: 'ForStatement',
-			init: undefined,
-			condition: first,
-			update: undefined,
-			body,
+		return this.located(
+			{ kind: 'ForStatement', init: undefined, condition: first, update: undefined, body },
+			forToken,
+		)
+	}
+
+	// Parse the `item in` or `key, value in` head of a collection loop, or return null
+	// (restoring the position) when the loop has another form
+	private parseForInVariables(): string[] | null {
+		const savedPos = this.pos
+		const variables: Token[] = []
+
+		while (this.peek().type === TokenType.IDENTIFIER) {
+			variables.push(this.advance())
+			if (variables.length === 2 || this.peek().type !== TokenType.COMMA) break
+			this.advance() // consume ,
+		}
+
+		if (variables.length === 0 || this.peek().type !== TokenType.IN) {
+			this.pos = savedPos
+			return null
+		}
+		this.advance() // consume in
+
+		for (const token of variables) {
+			if (token.value === 'this') {
+				throw this.error("Cannot use 'this' as a loop variable", token)
+			}
+		}
+		const [first, second] = variables
+		if (second && first?.value === second.value) {
+			throw this.error(`'${second.value}' is already declared in this loop`, second)
+		}
+		return variables.map((token) => token.value)
+	}
+
+	// Parse a for loop body, where break and continue are allowed
+	private parseLoopBody(): ASTNode {
+		this.loopDepth++
+		try {
+			return this.parseFunctionBody()
+		} finally {
+			this.loopDepth--
 		}
 	}
 
 	private parseElseOrElif(): ASTNode | undefined {
 		if (this.peek().type === TokenType.ELIF) {
-			this.advance() // consume 'elif'
+			const elifToken = this.advance() // consume 'elif'
 
 			const condition = this.parseExpression()
 			const consequent = this.parseFunctionBody()
+			const alternate = this.parseElseOrElif() // Recursively handle more elif/else
 
-			return {
-				kind: 'IfStatement',
-				condition,
-				consequent,
-				alternate: this.parseElseOrElif(), // Recursively handle more elif/else
-			}
+			return this.located({ kind: 'IfStatement', condition, consequent, alternate }, elifToken)
 		}
 		if (this.peek().type === TokenType.ELSE) {
 			this.advance() // consume 'else'
@@ -347,20 +950,17 @@ export class Parser {
 		// Arrow functions have lower precedence than assignment
 		const savedPos = this.pos
 
+		const start = this.peek()
+
 		// Try to detect arrow function pattern: identifier => expr
-		if (this.peek().type === TokenType.IDENTIFIER) {
-			const identToken = this.peek()
+		if (start.type === TokenType.IDENTIFIER) {
 			this.advance() // consume identifier
 
 			if (this.peek().type === TokenType.ARROW) {
 				// It's an arrow function: x => expr
 				this.advance() // consume =>
-				const body = this.parseAssignment() // Parse body (right-associative)
-				return {
-					kind: 'ArrowFunction',
-					params: [identToken.value],
-					body,
-				}
+				const body = this.parseArrowBody()
+				return this.located({ kind: 'ArrowFunction', params: [start.value], body }, start)
 			}
 
 			// Not an arrow function, restore position
@@ -374,6 +974,7 @@ export class Parser {
 
 			// Collect potential parameters
 			const params: string[] = []
+			let rest: string | undefined
 			let isArrowFunction = false
 
 			if (this.peek().type === TokenType.RPAREN) {
@@ -382,15 +983,18 @@ export class Parser {
 				if (this.peek().type === TokenType.ARROW) {
 					isArrowFunction = true
 				}
-			} else if (this.peek().type === TokenType.IDENTIFIER) {
-				// (x) => expr or (x, y) => expr
-				params.push(this.advance().value)
-
-				while (this.peek().type === TokenType.COMMA) {
+			} else if (
+				this.peek().type === TokenType.IDENTIFIER ||
+				this.peek().type === TokenType.ELLIPSIS
+			) {
+				// (x) => expr, (x, y) => expr or (x, ...rest) => expr
+				while (this.peek().type === TokenType.IDENTIFIER) {
+					params.push(this.advance().value)
+					if (this.peek().type !== TokenType.COMMA) break
 					this.advance() // consume comma
-					if (this.peek().type === TokenType.IDENTIFIER) {
-						params.push(this.advance().value)
-					}
+				}
+				if (this.peek().type === TokenType.ELLIPSIS) {
+					rest = this.parseRestParameter()
 				}
 
 				if (this.peek().type === TokenType.RPAREN) {
@@ -403,12 +1007,11 @@ export class Parser {
 
 			if (isArrowFunction) {
 				this.advance() // consume =>
-				const body = this.parseAssignment()
-				return {
-					kind: 'ArrowFunction',
-					params,
-					body,
-				}
+				const body = this.parseArrowBody()
+				return this.located(
+					{ kind: 'ArrowFunction', params, ...(rest !== undefined && { rest }), body },
+					start,
+				)
 			}
 
 			// Not an arrow function, restore position
@@ -420,27 +1023,101 @@ export class Parser {
 
 		// Check if this is an assignment
 		if (this.peek().type === TokenType.ASSIGN) {
-			// Validate that left side is assignable
-			if (expr.kind !== 'Identifier' && expr.kind !== 'MemberExpression') {
-				throw new Error('Invalid assignment target')
-			}
+			// Validate that left side is assignable; [a, b] and { key: a } become patterns
+			const target = this.toAssignmentTarget(expr, this.peek())
 
 			this.advance() // consume =
 			const value = this.parseAssignment() // Right-associative
 
-			return {
-				kind: 'AssignmentStatement',
-				target: expr as import('./seval-ast').Identifier | import('./seval-ast').MemberExpression,
-				value,
-			}
+			return this.located({ kind: 'AssignmentStatement', target, value }, start)
+		}
+
+		// Compound assignment: x += value, obj.count *= 2
+		const type = this.peek().type
+		if (
+			type === TokenType.PLUS_ASSIGN ||
+			type === TokenType.MINUS_ASSIGN ||
+			type === TokenType.STAR_ASSIGN
+		) {
+			const target = this.toSimpleTarget(expr, this.peek())
+			const operator = this.advance().value as CompoundOperator
+			const value = this.parseAssignment() // Right-associative
+
+			return this.located({ kind: 'AssignmentStatement', target, value, operator }, start)
 		}
 
 		return expr
 	}
 
+	// Check the target of a compound assignment, ++ or --: a variable or a property
+	private toSimpleTarget(node: ASTNode, operator: Token): Identifier | MemberExpression {
+		if (node.kind === 'MemberExpression' && hasOptionalLink(node)) {
+			throw this.error('Invalid assignment target: cannot assign to an optional chain', operator)
+		}
+		if (node.kind !== 'Identifier' && node.kind !== 'MemberExpression') {
+			throw this.error('Invalid assignment target', operator)
+		}
+		return node
+	}
+
+	// Reinterpret the left side of `=` as an assignment target, turning array and
+	// object literals into destructuring patterns
+	private toAssignmentTarget(node: ASTNode | SpreadElement, assign: Token): PatternTarget {
+		switch (node.kind) {
+			case 'Identifier':
+			case 'MemberExpression':
+				return this.toSimpleTarget(node, assign)
+
+			case 'ArrayLiteral': {
+				const last = node.elements.at(-1)
+				const rest = last?.kind === 'SpreadElement' ? last.argument : undefined
+				const elements = rest ? node.elements.slice(0, -1) : node.elements
+				if (elements.some((element) => element.kind === 'SpreadElement')) {
+					throw this.error('A rest element must be last', assign)
+				}
+				return {
+					kind: 'ArrayPattern',
+					elements: elements.map((element) => this.toAssignmentTarget(element, assign)),
+					...(rest && { rest: this.toAssignmentTarget(rest, assign) }),
+					loc: node.loc,
+				}
+			}
+
+			case 'ObjectLiteral': {
+				const properties: ObjectPattern['properties'] = []
+				let rest: PatternTarget | undefined
+				node.properties.forEach((prop, i) => {
+					if (!('kind' in prop)) {
+						// Patterns only read static keys
+						if (typeof prop.key !== 'string') {
+							throw this.error('Invalid assignment target', assign)
+						}
+						const value = this.toAssignmentTarget(prop.value, assign)
+						properties.push({ key: prop.key, value, ...(prop.loc && { loc: prop.loc }) })
+						return
+					}
+					// The rest of an object pattern is a single variable or property
+					const target = prop.argument
+					if (i !== node.properties.length - 1) {
+						throw this.error('A rest element must be last', assign)
+					}
+					if (target.kind !== 'Identifier' && target.kind !== 'MemberExpression') {
+						throw this.error('Invalid assignment target', assign)
+					}
+					rest = this.toAssignmentTarget(target, assign)
+				})
+				return { kind: 'ObjectPattern', properties, ...(rest && { rest }), loc: node.loc }
+			}
+
+			default:
+				throw this.error('Invalid assignment target', assign)
+		}
+	}
+
 	// Parse ternary: condition ? consequent : alternate
 	private parseTernary(): ASTNode {
-		const expr = this.parseLogicalOr()
+		const start = this.peek()
+		const expr = this.parseNullish()
 
 		if (this.peek().type === TokenType.QUESTION) {
 			this.advance()
@@ -448,30 +1125,38 @@ export class Parser {
 			this.expect(TokenType.COLON)
 			const alternate = this.parseTernary()
 
-			return {
-				kind: 'TernaryExpression',
-				condition: expr,
-				consequent,
-				alternate,
-			}
+			return this.located(
+				{ kind: 'TernaryExpression', condition: expr, consequent, alternate },
+				start,
+			)
 		}
 
 		return expr
 	}
 
+	// Parse nullish coalescing: expr ?? expr
+	private parseNullish(): ASTNode {
+		const start = this.peek()
+		let left = this.parseLogicalOr()
+
+		while (this.peek().type === TokenType.NULLISH) {
+			const op = this.advance()
+			const right = this.parseLogicalOr()
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
+		}
+
+		return left
+	}
+
 	// Parse logical OR: expr || expr
 	private parseLogicalOr(): ASTNode {
+		const start = this.peek()
 		let left = this.parseLogicalAnd()
 
 		while (this.peek().type === TokenType.OR) {
 			const op = this.advance()
 			const right = this.parseLogicalAnd()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -479,17 +1164,13 @@ export class Parser {
 
 	// Parse logical AND: expr && expr
 	private parseLogicalAnd(): ASTNode {
+		const start = this.peek()
 		let left = this.parseEquality()
 
 		while (this.peek().type === TokenType.AND) {
 			const op = this.advance()
 			const right = this.parseEquality()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -497,6 +1178,7 @@ export class Parser {
 
 	// Parse equality: expr == expr, expr != expr, expr === expr, expr !== expr
 	private parseEquality(): ASTNode {
+		const start = this.peek()
 		let left = this.parseRelational()
 
 		while (
@@ -507,12 +1189,7 @@ export class Parser {
 		) {
 			const op = this.advance()
 			const right = this.parseRelational()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -520,6 +1197,7 @@ export class Parser {
 
 	// Parse relational: expr < expr, expr <= expr, etc.
 	private parseRelational(): ASTNode {
+		const start = this.peek()
 		let left = this.parseAdditive()
 
 		while (
@@ -530,12 +1208,7 @@ export class Parser {
 		) {
 			const op = this.advance()
 			const right = this.parseAdditive()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -543,17 +1216,13 @@ export class Parser {
 
 	// Parse additive: expr + expr, expr - expr
 	private parseAdditive(): ASTNode {
+		const start = this.peek()
 		let left = this.parseMultiplicative()
 
 		while (this.peek().type === TokenType.PLUS || this.peek().type === TokenType.MINUS) {
 			const op = this.advance()
 			const right = this.parseMultiplicative()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -561,6 +1230,7 @@ export class Parser {
 
 	// Parse multiplicative: expr * expr, expr / expr, expr % expr
 	private parseMultiplicative(): ASTNode {
+		const start = this.peek()
 		let left = this.parseUnary()
 
 		while (
@@ -570,12 +1240,7 @@ export class Parser {
 		) {
 			const op = this.advance()
 			const right = this.parseUnary()
-			left = {
-				kind: 'BinaryExpression',
-				operator: op.value,
-				left,
-				right,
-			}
+			left = this.located({ kind: 'BinaryExpression', operator: op.value, left, right }, start)
 		}
 
 		return left
@@ -583,71 +1248,176 @@ export class Parser {
 
 	// Parse unary: -expr, !expr
 	private parseUnary(): ASTNode {
+		if (this.peek().type === TokenType.INCREMENT || this.peek().type === TokenType.DECREMENT) {
+			// Prefix update: ++x, --obj.count
+			const op = this.advance()
+			const target = this.toSimpleTarget(this.parseUnary(), op)
+			return this.located(
+				{ kind: 'UpdateExpression', operator: op.value as '++' | '--', prefix: true, target },
+				op,
+			)
+		}
+
 		if (this.peek().type === TokenType.MINUS || this.peek().type === TokenType.NOT) {
 			const op = this.advance()
 			const operand = this.parseUnary()
-			return {
-				kind: 'UnaryExpression',
-				operator: op.value,
-				operand,
-			}
+			return this.located({ kind: 'UnaryExpression', operator: op.value, operand }, op)
 		}
 
 		return this.parsePostfix()
 	}
 
-	// Parse postfix: primary(...), primary[...], primary.prop
+	// Parse postfix: primary(...), primary[...], primary.prop and their ?. forms
 	private parsePostfix(): ASTNode {
+		const start = this.peek()
 		let expr = this.parsePrimary()
 
 		while (true) {
+			// obj?.prop, arr?.[index] and fn?.(args)
+			const optional = this.peek().type === TokenType.QUESTION_DOT
+			if (optional) {
+				this.advance() // consume ?.
+			}
+
 			if (this.peek().type === TokenType.LPAREN) {
 				// Function call
 				this.advance()
 				const args: ASTNode[] = []
 
 				while (this.peek().type !== TokenType.RPAREN) {
-					args.push(this.parseExpression())
+					args.push(this.parseElement())
 					if (this.peek().type === TokenType.COMMA) {
 						this.advance()
 					}
 				}
 				this.expect(TokenType.RPAREN)
 
-				expr = {
-					kind: 'CallExpression',
-					callee: expr,
-					args,
-				}
-			} else if (this.peek().type === TokenType.DOT) {
-				// Dot notation: obj.property
-				this.advance() // consume .
-				const propertyToken = this.expect(TokenType.IDENTIFIER)
-				expr = {
-					kind: 'MemberExpression',
-					object: expr,
-					property: propertyToken.value,
-					computed: false,
-				}
-			} else if (this.peek().type === TokenType.LBRACKET) {
+				expr = this.located(
+					{ kind: 'CallExpression', callee: expr, args, ...(optional && { optional }) },
+					start,
+				)
+			} else if (
+				this.peek().type === TokenType.LBRACKET &&
+				(optional || this.peek().line === this.previous?.endLine)
+			) {
 				// Bracket notation: arr[index] or obj["key"]
+				// (a [ on the next line starts a new statement, like [a, b] = [b, a])
 				this.advance() // consume [
 				const property = this.parseExpression() // Changed from 'index' to 'property' to match AST node structure
 				this.expect(TokenType.RBRACKET)
-				expr = {
-					kind: 'MemberExpression',
-					object: expr,
-					property,
-					computed: true,
+				expr = this.located(
+					{
+						kind: 'MemberExpression',
+						object: expr,
+						property,
+						computed: true,
+						...(optional && { optional }),
+					},
+					start,
+				)
+			} else if (this.peek().type === TokenType.DOT || optional) {
+				// Dot notation: obj.property (?. takes the place of the dot)
+				if (!optional) {
+					this.advance() // consume .
 				}
+				const propertyToken = this.expectName()
+				expr = this.located(
+					{
+						kind: 'MemberExpression',
+						object: expr,
+						property: propertyToken.value,
+						computed: false,
+						...(optional && { optional }),
+					},
+					start,
+				)
 			} else {
 				break
 			}
 		}
 
+		// Postfix update: x++, obj.count-- (on the same line; otherwise it starts the next statement)
+		const next = this.peek()
+		if (
+			(next.type === TokenType.INCREMENT || next.type === TokenType.DECREMENT) &&
+			next.line === this.previous?.endLine
+		) {
+			this.advance()
+			const target = this.toSimpleTarget(expr, next)
+			return this.located(
+				{ kind: 'UpdateExpression', operator: next.value as '++' | '--', prefix: false, target },
+				start,
+			)
+		}
+
 		return expr
 	}
 
+	// Parse an object literal property other than a spread
+	private parseObjectProperty(): ObjectProperty {
+		const keyToken = this.peek()
+		if (keyToken.type === TokenType.LBRACKET) {
+			// Computed key: [expr]: value
+			this.advance() // consume [
+			const key = this.parseExpression()
+			this.expect(TokenType.RBRACKET)
+			this.expect(TokenType.COLON)
+			const value = this.parseExpression()
+			return { key, computed: true, value, loc: this.span(keyToken) }
+		}
+
+		const key = this.parseStaticKey()
+		if (this.peek().type === TokenType.COLON) {
+			this.advance() // consume :
+			const value = this.parseExpression()
+			return { key, value, loc: this.span(keyToken) }
+		}
+		if (this.peek().type === TokenType.LPAREN) {
+			// Method shorthand: key(params) { body }
+			const value = this.parseMethod(key, keyToken)
+			return { key, value, loc: value.loc }
+		}
+		if (keyToken.type !== TokenType.IDENTIFIER || key === 'this') {
+			this.expect(TokenType.COLON)
+		}
+		// Shorthand: { key } is { key: key }
+		const loc = this.span(keyToken)
+		return { key, value: { kind: 'Identifier', name: key, loc }, loc }
+	}
+
+	// Parse an array element, object literal entry or call argument: expr or ...expr
+	private parseElement(): ASTNode | SpreadElement {
+		return this.peek().type === TokenType.ELLIPSIS ? this.parseSpread() : this.parseExpression()
+	}
+
+	// Parse spread: ...expr
+	private parseSpread(): SpreadElement {
+		const start = this.advance() // consume ...
+		return this.located({ kind: 'SpreadElement', argument: this.parseExpression() }, start)
+	}
+
+	// Parse template: `text${expr}text${expr}text`
+	private parseTemplate(): ASTNode {
+		const head = this.advance()
+		const quasis = [head.value]
+		const expressions: ASTNode[] = []
+
+		while (true) {
+			expressions.push(this.parseExpression())
+			const chunk = this.peek()
+			if (chunk.type !== TokenType.TEMPLATE_MIDDLE && chunk.type !== TokenType.TEMPLATE_TAIL) {
+				throw this.error("Expected '}' to close the template substitution", chunk)
+			}
+			this.advance()
+			quasis.push(chunk.value)
+			if (chunk.type === TokenType.TEMPLATE_TAIL) {
+				break
+			}
+		}
+
+		return this.located({ kind: 'TemplateLiteral', quasis, expressions }, head)
+	}
+
 	// Parse primary: number, string, boolean, identifier, array, object, (expr)
 	private parsePrimary(): ASTNode {
 		// Skip newlines before parsing primary expression
@@ -656,42 +1426,46 @@ export class Parser {
 
 		if (token.type === TokenType.NUMBER) {
 			this.advance()
-			return {
-				kind: 'NumberLiteral',
-				value: Number.parseFloat(token.value),
-			}
+			return this.located(
+				{ kind: 'NumberLiteral', value: numberValue(token.value), raw: token.value },
+				token,
+			)
+		}
+
+		if (token.type === TokenType.MATCH) {
+			return this.parseMatch()
 		}
 
 		if (token.type === TokenType.STRING) {
 			this.advance()
-			return {
-				kind: 'StringLiteral',
-				value: token.value,
-			}
+			return this.located({ kind: 'StringLiteral', value: token.value }, token)
+		}
+
+		if (token.type === TokenType.TEMPLATE_STRING) {
+			this.advance()
+			return this.located(
+				{ kind: 'TemplateLiteral', quasis: [token.value], expressions: [] },
+				token,
+			)
+		}
+
+		if (token.type === TokenType.TEMPLATE_HEAD) {
+			return this.parseTemplate()
 		}
 
 		if (token.type === TokenType.TRUE) {
 			this.advance()
-			return {
-				kind: 'BooleanLiteral',
-				value: true,
-			}
+			return this.located({ kind: 'BooleanLiteral', value: true }, token)
 		}
 
 		if (token.type === TokenType.FALSE) {
 			this.advance()
-			return {
-				kind: 'BooleanLiteral',
-				value: false,
-			}
+			return this.located({ kind: 'BooleanLiteral', value: false }, token)
 		}
 
 		if (token.type === TokenType.NULL) {
 			this.advance()
-			return {
-				kind: 'NullLiteral',
-				value: null,
-			}
+			return this.located({ kind: 'NullLiteral', value: null }, token)
 		}
 
 		if (token.type === TokenType.IDENTIFIER) {
@@ -703,39 +1477,29 @@ export class Parser {
 			if (nextToken.type === TokenType.ARROW) {
 				// It's an arrow function
 				this.advance() // consume =>
-				const body = this.parseExpression()
-				return {
-					kind: 'ArrowFunction',
-					params: [token.value],
-					body,
-				}
+				const body = this.parseArrowBody()
+				return this.located({ kind: 'ArrowFunction', params: [token.value], body }, token)
 			}
 
 			// Not an arrow function, restore position and treat as identifier
 			this.pos = savedPos
 			this.advance()
-			return {
-				kind: 'Identifier',
-				name: token.value,
-			}
+			return this.located({ kind: 'Identifier', name: token.value }, token)
 		}
 
 		if (token.type === TokenType.LBRACKET) {
 			// Array literal
 			this.advance()
-			const elements: ASTNode[] = []
+			const elements: Array<ASTNode | SpreadElement> = []
 
 			while (this.peek().type !== TokenType.RBRACKET) {
-				elements.push(this.parseExpression())
+				elements.push(this.parseElement())
 				if (this.peek().type === TokenType.COMMA) {
 					this.advance()
 				}
 			}
 			this.expect(TokenType.RBRACKET)
-			return {
-				kind: 'ArrayLiteral',
-				elements,
-			}
+			return this.located({ kind: 'ArrayLiteral', elements }, token)
 		}
 
 		if (token.type === TokenType.LPAREN) {
@@ -750,12 +1514,8 @@ export class Parser {
 				this.advance() // consume )
 				if (this.peek().type === TokenType.ARROW) {
 					this.advance() // consume =>
-					const body = this.parseExpression()
-					return {
-						kind: 'ArrowFunction',
-						params: [],
-						body,
-					}
+					const body = this.parseArrowBody()
+					return this.located({ kind: 'ArrowFunction', params: [], body }, token)
 				}
 				// Not arrow function, restore and parse as grouped
 				this.pos = savedPos
@@ -778,12 +1538,8 @@ export class Parser {
 					this.advance() // )
 					if (this.peek().type === TokenType.ARROW) {
 						this.advance() // =>
-						const body = this.parseExpression()
-						return {
-							kind: 'ArrowFunction',
-							params,
-							body,
-						}
+						const body = this.parseArrowBody()
+						return this.located({ kind: 'ArrowFunction', params, body }, token)
 					}
 				}
 				// Not an arrow function, restore and parse as grouped expression
@@ -800,19 +1556,21 @@ export class Parser {
 		}
 
 		if (token.type === TokenType.LBRACE) {
-			// Object literal: { key: value, key2: value2, ... }
+			// Object literal: { key: value, "key": value, 1: value, [key]: value, key, key() { body } }
 			this.advance() // consume {
-			const properties: Array<{ key: string; value: ASTNode }> = []
+			const properties: Array<ObjectProperty | SpreadElement> = []
 
 			while (this.peek().type !== TokenType.RBRACE && this.peek().type !== TokenType.EOF) {
-				const keyToken = this.expect(TokenType.IDENTIFIER)
-				this.expect(TokenType.COLON)
-				const value = this.parseExpression()
+				if (this.peek().type === TokenType.ELLIPSIS) {
+					// { ...other }: copies the properties of other
+					properties.push(this.parseSpread())
+					if (this.peek().type === TokenType.COMMA) {
+						this.advance()
+					}
+					continue
+				}
 
-				properties.push({
-					key: keyToken.value,
-					value,
-				})
+				properties.push(this.parseObjectProperty())
 
 				if (this.peek().type === TokenType.COMMA) {
 					this.advance()
@@ -820,12 +1578,9 @@ export class Parser {
 			}
 
 			this.expect(TokenType.RBRACE)
-			return {
-				kind: 'ObjectLiteral',
-				properties,
-			}
+			return this.located({ kind: 'ObjectLiteral', properties }, token)
 		}
 
-		throw new Error(`Unexpected token ${token.type} at line ${token.line}, column ${token.column}`)
+		throw this.error(`Unexpected token ${token.type}`, token)
 	}
 }
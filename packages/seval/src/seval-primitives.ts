@@ -2,9 +2,20 @@
 /**
  * Seval Primitives
  *
- * Built-in functions and operators for Seval.
+ * Built-in functions for Seval (operators are in seval-operators).
  */
 
+import { Decimal } from './seval-decimal'
+import { toErrorValue, toSevalError } from './seval-errors'
+import {
+	FORBIDDEN_KEYS,
+	guardedCall,
+	guardedGet,
+	guardedKey,
+	guardedSet,
+	sandboxGlobal,
+} from './seval-sandbox'
+
 export type PrimitiveValue = number | string | boolean | null
 export type Value = PrimitiveValue | ValueArray | ValueObject | SFunction
 
@@ -23,33 +34,6 @@ export interface SFunction {
 
 // biome-ignore lint/suspicious/noExplicitAny: primitives can be functions or global objects
 export const primitives: Record<string, any> = {
-	// Arithmetic (+ also handles string concatenation)
-	'+': (a, b) => {
-		if (typeof a === 'string' || typeof b === 'string') {
-			return String(a) + String(b)
-		}
-		return (a as number) + (b as number)
-	},
-	'-': (a, b) => (a as number) - (b as number),
-	'*': (...args) => args.reduce((a, b) => (a as number) * (b as number), 1) as number,
-	'/': (a, b) => (a as number) / (b as number),
-	'%': (a, b) => (a as number) % (b as number),
-
-	// Comparison
-	'=': (a, b) => a === b,
-	'!=': (a, b) => a !== b,
-	'==': (a, b) => a === b,
-	'!==': (a, b) => a !== b,
-	'<': (a, b) => (a as number) < (b as number),
-	'<=': (a, b) => (a as number) <= (b as number),
-	'>': (a, b) => (a as number) > (b as number),
-	'>=': (a, b) => (a as number) >= (b as number),
-
-	// Logical
-	'&&': (a, b) => a && b,
-	'||': (a, b) => a || b,
-	'!': (a) => !a,
-
 	// Object helpers
 	merge: (...objects) => {
 		const result: ValueObject = {}
@@ -63,31 +47,111 @@ export const primitives: Record<string, any> = {
 	// Get property from object: get(obj, key)
 	get: (obj, key) => {
 		if (obj == null) return null
-		return obj[key] ?? null
+		return guardedGet(obj, key) ?? null
 	},
 	// Whitelisted global objects (for sandbox safety)
-	Math: Math,
-	Number: Number,
-	Date: Date,
-	String: String,
-	Array: Array,
-	Object: Object,
+	// Frozen copies: Seval code can neither modify nor reflect on the real globals
+	Math: sandboxGlobal(Math),
+	Number: sandboxGlobal(Number),
+	Date: sandboxGlobal(Date),
+	String: sandboxGlobal(String),
+	Array: sandboxGlobal(Array),
+	Object: sandboxGlobal(Object, [
+		'keys',
+		'values',
+		'entries',
+		'assign',
+		'fromEntries',
+		'freeze',
+		'isFrozen',
+		'is',
+		'hasOwn',
+	]),
+
+	// Exact decimal of a number or numeric string, or null (e.g. decimal("19.99"))
+	decimal: (value) => Decimal.from(value),
+
+	// Internal: guarded member access emitted for computed and forbidden keys
+	// (__key checks the key of a native read inside an optional chain)
+	__get: guardedGet,
+	__set: guardedSet,
+	__call: guardedCall,
+	__key: guardedKey,
+
+	// Internal: the error `throw value` raises, and the { message, code } value a catch binds
+	__throw: toSevalError,
+	__catch: (error) => primitives.__createObject(toErrorValue(error)),
+
+	// Internal: a callback for a native method that tests its result (PREDICATE_METHODS),
+	// returning the result of the compile's truthy operator
+	__predicate: (callback, truthy: (value: Value) => boolean) =>
+		typeof callback === 'function'
+			? function (...args) {
+					return truthy(callback.apply(this, args))
+				}
+			: callback,
+
+	// Internal: what `for x in value` visits, or [key, item] pairs for `for k, v in value`
+	// Arrays and strings are keyed by index; a single variable gets the keys of a plain object
+	__forIn: (value, pairs: boolean) => {
+		if (Array.isArray(value) || typeof value === 'string') {
+			const items = Array.from(value)
+			return pairs ? items.map((item, i) => [i, item]) : items
+		}
+		if (typeof value === 'object' && value !== null) {
+			return pairs ? Object.entries(value) : Object.keys(value)
+		}
+		throw new TypeError(`Cannot iterate over ${value === null ? 'null' : typeof value}`)
+	},
+
+	// Internal: the values a destructuring pattern assigns, in the order of its targets
+	// Anything that is not an ArrayPattern or ObjectPattern is a target (null in compiled code)
+	__destructure: (pattern, value) => {
+		const values = []
+		const visit = (pattern, value) => {
+			if (pattern?.kind === 'ArrayPattern') {
+				if (value == null || typeof value[Symbol.iterator] !== 'function') {
+					throw new TypeError(`${value === null ? 'null' : typeof value} is not iterable`)
+				}
+				const items = [...value]
+				pattern.elements.forEach((element, i) => visit(element, items[i]))
+				if (pattern.rest !== undefined) {
+					visit(pattern.rest, primitives.__createArray(...items.slice(pattern.elements.length)))
+				}
+			} else if (pattern?.kind === 'ObjectPattern') {
+				if (value == null) {
+					throw new TypeError(`Cannot destructure ${value}`)
+				}
+				for (const property of pattern.properties) {
+					visit(property.value, guardedGet(value, property.key))
+				}
+				if (pattern.rest !== undefined) {
+					const used = new Set(pattern.properties.map((property) => property.key))
+					const entries = Object.entries(value).filter(([key]) => !used.has(key))
+					visit(pattern.rest, Object.fromEntries(entries))
+				}
+			} else {
+				values.push(value)
+			}
+		}
+		visit(pattern, value)
+		return values
+	},
 
 	// Internal: Proxy wrappers for sandbox protection
 	// These prevent access to dangerous reflection properties
 	// biome-ignore lint/suspicious/noExplicitAny: dynamic object creation requires any
 	__createObject: (props: Record<string, any>) => {
-		const FORBIDDEN = ['constructor', '__proto__', 'prototype']
 		const obj = Object.assign({}, props)
 		return new Proxy(obj, {
 			get(target, prop) {
-				if (typeof prop === 'string' && FORBIDDEN.includes(prop)) {
+				if (typeof prop === 'string' && FORBIDDEN_KEYS.has(prop)) {
 					return undefined
 				}
 				return Reflect.get(target, prop)
 			},
 			has(target, prop) {
-				if (typeof prop === 'string' && FORBIDDEN.includes(prop)) {
+				if (typeof prop === 'string' && FORBIDDEN_KEYS.has(prop)) {
 					return false
 				}
 				return Reflect.has(target, prop)
@@ -97,10 +161,9 @@ export const primitives: Record<string, any> = {
 
 	// biome-ignore lint/suspicious/noExplicitAny: dynamic array creation requires any
 	__createArray: (...items: any[]) => {
-		const FORBIDDEN = ['constructor', '__proto__', 'prototype']
 		return new Proxy([...items], {
 			get(target, prop) {
-				if (typeof prop === 'string' && FORBIDDEN.includes(prop)) {
+				if (typeof prop === 'string' && FORBIDDEN_KEYS.has(prop)) {
 					return undefined
 				}
 				return Reflect.get(target, prop)
@@ -108,3 +171,10 @@ export const primitives: Record<string, any> = {
 		})
 	},
 }
+
+/**
+ * Whether an identifier names a primitive (own members only, never Object.prototype)
+ */
+export function isPrimitive(name: string): boolean {
+	return Object.hasOwn(primitives, name)
+}
@@ -0,0 +1,119 @@
+/**
+ * Seval Sandbox
+ *
+ * Guards every property access made by Seval code so that no value, not even
+ * a string, number or function, leads back to Function, prototypes or other
+ * reflection hooks. Also builds the frozen copies of the whitelisted globals.
+ */
+
+/**
+ * Property names Seval code can never read or write
+ */
+export const FORBIDDEN_KEYS: ReadonlySet<string> = new Set([
+	'constructor',
+	'__proto__',
+	'prototype',
+	'__defineGetter__',
+	'__defineSetter__',
+	'__lookupGetter__',
+	'__lookupSetter__',
+	'caller',
+	'callee',
+])
+
+export function isForbiddenKey(key: PropertyKey): boolean {
+	return typeof key === 'string' && FORBIDDEN_KEYS.has(key)
+}
+
+/**
+ * Convert a computed key once, so an object with a custom toString cannot
+ * pass the check with one name and be read with another
+ */
+function toPropertyKey(key: unknown): PropertyKey {
+	return typeof key === 'symbol' ? key : String(key)
+}
+
+/**
+ * obj[key] for Seval code: forbidden keys read as undefined
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Seval values are dynamically typed
+export function guardedGet(obj: any, key: unknown): any {
+	const name = toPropertyKey(key)
+	if (isForbiddenKey(name)) {
+		// Still throw like native access would for null and undefined
+		if (obj == null) {
+			throw new TypeError(`Cannot read properties of ${obj} (reading '${String(name)}')`)
+		}
+		return undefined
+	}
+	return obj[name]
+}
+
+/**
+ * Stands in for forbidden keys in native reads: no object has this property
+ */
+const FORBIDDEN_KEY = Symbol('forbidden')
+
+/**
+ * Key for a native obj[key] read, used where guardedGet cannot be (inside
+ * optional chains): forbidden keys read as undefined
+ */
+export function guardedKey(key: unknown): PropertyKey {
+	const name = toPropertyKey(key)
+	return isForbiddenKey(name) ? FORBIDDEN_KEY : name
+}
+
+/**
+ * obj[key] = value for Seval code: forbidden keys cannot be assigned
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Seval values are dynamically typed
+export function guardedSet(obj: any, key: unknown, value: unknown): unknown {
+	const name = toPropertyKey(key)
+	if (isForbiddenKey(name)) {
+		throw new TypeError(`Cannot assign to forbidden property '${String(name)}'`)
+	}
+	obj[name] = value
+	return value
+}
+
+/**
+ * obj[key](...args) for Seval code: a guarded method call keeping obj as this
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Seval values are dynamically typed
+export function guardedCall(obj: any, key: unknown, ...args: unknown[]): unknown {
+	const name = toPropertyKey(key)
+	const method = guardedGet(obj, name)
+	if (typeof method !== 'function') {
+		throw new TypeError(`${String(name)} is not a function`)
+	}
+	return method.apply(obj, args)
+}
+
+/**
+ * Static members never copied onto sandboxed globals
+ */
+const SKIPPED_STATICS = new Set(['length', 'name', 'arguments'])
+
+/**
+ * Build a frozen stand-in for a global object. Callable globals (Number, String,
+ * Date...) become plain wrappers that forward calls; their static members are
+ * copied with methods bound to the original. Pass `allow` to copy only the
+ * listed members (used for Object, whose reflection methods must stay hidden).
+ */
+export function sandboxGlobal<T extends object>(global: T, allow?: readonly string[]): T {
+	// biome-ignore lint/suspicious/noExplicitAny: forwards to the wrapped global
+	const source = global as any
+	// biome-ignore lint/suspicious/noExplicitAny: stand-in mirrors the global's shape
+	const copy: any = typeof global === 'function' ? (...args: unknown[]) => source(...args) : {}
+
+	const names = allow ?? Object.getOwnPropertyNames(global)
+	for (const name of names) {
+		if (SKIPPED_STATICS.has(name) || isForbiddenKey(name)) continue
+		const descriptor = Object.getOwnPropertyDescriptor(global, name)
+		if (!descriptor || !('value' in descriptor)) continue
+		const value = descriptor.value
+		copy[name] = typeof value === 'function' ? value.bind(global) : value
+	}
+
+	return Object.freeze(copy)
+}
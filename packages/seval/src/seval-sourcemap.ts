@@ -0,0 +1,162 @@
+/**
+ * Seval Source Maps
+ *
+ * Maps positions in compiled JavaScript back to Seval source, and records
+ * where in the Seval program a runtime error was thrown.
+ */
+
+import type { SourceLocation, SourcePosition } from './seval-ast'
+import { renderCodeFrame } from './seval-diagnostics'
+
+/**
+ * Location markers are control characters, which never appear unescaped in
+ * generated code (string literals are emitted with JSON.stringify)
+ */
+const MARKER_START = '\u0001'
+const MARKER_END = '\u0002'
+const MARKER_PATTERN = new RegExp(`${MARKER_START}(\\d+)${MARKER_END}`, 'g')
+
+/**
+ * Offset between a line of a new Function() body and the line reported in stack
+ * traces: the engine prepends "function anonymous(params\n) {\n"
+ */
+const FUNCTION_BODY_LINE_OFFSET = 2
+
+export interface SourceMapping {
+	/** Position in the generated function body (1-based) */
+	generated: SourcePosition
+	/** Seval source span the generated code starting here was compiled from */
+	original: SourceLocation
+}
+
+/**
+ * Collects source locations while generating code and resolves generated
+ * positions back to them
+ */
+export class SevalSourceMap {
+	private locations: SourceLocation[] = []
+	private mappings: SourceMapping[] = []
+
+	/**
+	 * Prefix generated code with a marker for the source location it came from
+	 */
+	public mark(loc: SourceLocation, code: string): string {
+		this.locations.push(loc)
+		return `${MARKER_START}${this.locations.length - 1}${MARKER_END}${code}`
+	}
+
+	/**
+	 * Strip markers from finished code, recording the generated position of each
+	 */
+	public extract(code: string): string {
+		let output = ''
+		let line = 1
+		let column = 1
+		let last = 0
+
+		const advance = (text: string) => {
+			// Count UTF-16 code units, like engine-reported columns
+			for (let i = 0; i < text.length; i++) {
+				if (text[i] === '\n') {
+					line++
+					column = 1
+				} else {
+					column++
+				}
+			}
+			output += text
+		}
+
+		for (const match of code.matchAll(MARKER_PATTERN)) {
+			advance(code.slice(last, match.index))
+			const original = this.locations[Number(match[1])]
+			if (original) {
+				this.mappings.push({ generated: { line, column }, original })
+			}
+			last = (match.index ?? 0) + match[0].length
+		}
+		advance(code.slice(last))
+
+		return output
+	}
+
+	/**
+	 * Source location of the innermost marked code at or before a generated position
+	 */
+	public originalLocation(line: number, column: number): SourceLocation | undefined {
+		let found: SourceLocation | undefined
+		for (const { generated, original } of this.mappings) {
+			if (generated.line < line || (generated.line === line && generated.column <= column)) {
+				found = original
+			}
+		}
+		return found
+	}
+
+	/**
+	 * Resolve the position of the first stack frame running code from sourceURL
+	 */
+	public locateStackFrame(stack: string, sourceURL: string): SourceLocation | undefined {
+		for (const frame of stack.split('\n')) {
+			const index = frame.indexOf(`${sourceURL}:`)
+			if (index === -1) continue
+
+			const match = /^(\d+):(\d+)/.exec(frame.slice(index + sourceURL.length + 1))
+			if (match) {
+				const line = Number(match[1]) - FUNCTION_BODY_LINE_OFFSET
+				return this.originalLocation(line, Number(match[2]))
+			}
+		}
+		return undefined
+	}
+}
+
+/**
+ * Where in a Seval program a runtime error was thrown
+ */
+export interface SevalErrorLocation {
+	filename: string
+	functionName: string
+	loc: SourceLocation
+	/** Source excerpt with the failing statement underlined */
+	frame: string
+}
+
+const errorLocations = new WeakMap<object, SevalErrorLocation>()
+
+/**
+ * Get the Seval location recorded for an error thrown by compiled or interpreted code
+ */
+export function getSevalErrorLocation(error: unknown): SevalErrorLocation | undefined {
+	return typeof error === 'object' && error !== null ? errorLocations.get(error) : undefined
+}
+
+/**
+ * Record where an error was thrown. The innermost Seval function records it
+ * first; outer callers leave it unchanged.
+ */
+export function recordSevalErrorLocation(
+	error: unknown,
+	source: string,
+	filename: string,
+	functionName: string,
+	loc: SourceLocation,
+): void {
+	if (typeof error !== 'object' || error === null || errorLocations.has(error)) {
+		return
+	}
+	errorLocations.set(error, {
+		filename,
+		functionName,
+		loc,
+		frame: source ? renderCodeFrame(source, loc) : '',
+	})
+}
+
+/**
+ * Format a location as "calculator.seval:42:7 in action_equals"
+ */
+export function formatSevalErrorLocation(location: SevalErrorLocation): string {
+	const { line, column } = location.loc.start
+	return `${location.filename}:${line}:${column} in ${location.functionName}`
+}
@@ -5,10 +5,16 @@
  * No recursion - safe for any stack size.
  */
 
+import { type SevalDiagnostic, SevalSyntaxError, createDiagnostic } from './seval-diagnostics'
+
 export enum TokenType {
 	// Literals
 	NUMBER = 'NUMBER',
 	STRING = 'STRING',
+	TEMPLATE_STRING = 'TEMPLATE_STRING', // `text`
+	TEMPLATE_HEAD = 'TEMPLATE_HEAD', // `text${
+	TEMPLATE_MIDDLE = 'TEMPLATE_MIDDLE', // }text${
+	TEMPLATE_TAIL = 'TEMPLATE_TAIL', // }text`
 	IDENTIFIER = 'IDENTIFIER',
 
 	// Keywords
@@ -19,6 +25,16 @@ export enum TokenType {
 	ELIF = 'ELIF',
 	ELSE = 'ELSE',
 	FOR = 'FOR',
+	IN = 'IN',
+	LET = 'LET',
+	RETURN = 'RETURN',
+	BREAK = 'BREAK',
+	CONTINUE = 'CONTINUE',
+	TRY = 'TRY',
+	CATCH = 'CATCH',
+	FINALLY = 'FINALLY',
+	THROW = 'THROW',
+	MATCH = 'MATCH',
 
 	// Operators
 	PLUS = 'PLUS',
@@ -41,9 +57,16 @@ export enum TokenType {
 	NOT = 'NOT', // !
 
 	QUESTION = 'QUESTION', // ?
+	QUESTION_DOT = 'QUESTION_DOT', // ?.
+	NULLISH = 'NULLISH', // ??
 	COLON = 'COLON', // :
 	ARROW = 'ARROW', // =>
 	ASSIGN = 'ASSIGN', // =
+	PLUS_ASSIGN = 'PLUS_ASSIGN', // +=
+	MINUS_ASSIGN = 'MINUS_ASSIGN', // -=
+	STAR_ASSIGN = 'STAR_ASSIGN', // *=
+	INCREMENT = 'INCREMENT', // ++
+	DECREMENT = 'DECREMENT', // --
 
 	// Delimiters
 	LPAREN = 'LPAREN', // (
@@ -54,6 +77,7 @@ export enum TokenType {
 	RBRACKET = 'RBRACKET', // ]
 	COMMA = 'COMMA', // ,
 	DOT = 'DOT', // .
+	ELLIPSIS = 'ELLIPSIS', // ...
 	SEMICOLON = 'SEMICOLON', // ;
 	NEWLINE = 'NEWLINE', // \n
 
@@ -66,6 +90,51 @@ export interface Token {
 	value: string
 	line: number
 	column: number
+	/** Position just past the token's last character */
+	endLine: number
+	endColumn: number
+}
+
+/**
+ * A // comment; value is the text after the slashes. Comments are trivia: the tokenizer
+ * collects them in `comments` instead of returning them as tokens.
+ */
+export interface Comment {
+	value: string
+	line: number
+	column: number
+	endLine: number
+	endColumn: number
+}
+
+/**
+ * Token as scanned, before its end position is recorded
+ */
+type RawToken = Omit<Token, 'endLine' | 'endColumn'>
+
+/**
+ * Digits allowed after each radix prefix of a number
+ */
+const RADIX_DIGITS: Record<string, RegExp> = {
+	x: /[0-9a-fA-F]/,
+	o: /[0-7]/,
+	b: /[01]/,
+}
+
+const DECIMAL_DIGIT = /[0-9]/
+
+const WORD_CHAR = /[A-Za-z0-9_]/
+
+/**
+ * Value of a NUMBER token: separators are dropped and 0x, 0o and 0b use their radix
+ */
+export function numberValue(text: string): number {
+	return Number(text.replace(/_/g, ''))
+}
+
+export interface TokenizerOptions {
+	/** Collect errors in `diagnostics` and keep scanning instead of throwing */
+	recover?: boolean
 }
 
 export class Tokenizer {
@@ -73,9 +142,31 @@ export class Tokenizer {
 	private pos = 0
 	private line = 1
 	private column = 1
+	private recover: boolean
+	// Unclosed '{' count inside each open template substitution, innermost last
+	private templateBraces: number[] = []
+	public readonly diagnostics: SevalDiagnostic[] = []
+	public readonly comments: Comment[] = []
 
-	constructor(source: string) {
+	constructor(source: string, options: TokenizerOptions = {}) {
 		this.source = source
+		this.recover = options.recover ?? false
+	}
+
+	/**
+	 * Report a syntax error spanning from (line, column) to the current position.
+	 * Throws unless recovering.
+	 */
+	private report(message: string, line: number, column: number): void {
+		const diagnostic = createDiagnostic(
+			message,
+			{ start: { line, column }, end: { line: this.line, column: this.column } },
+			this.source,
+		)
+		if (!this.recover) {
+			throw new SevalSyntaxError([diagnostic])
+		}
+		this.diagnostics.push(diagnostic)
 	}
 
 	private peek(offset = 0): string {
@@ -100,12 +191,15 @@ export class Tokenizer {
 			if (ch === ' ' || ch === '\t' || ch === '\r') {
 				this.advance()
 			} else if (ch === '/' && this.peek(1) === '/') {
-				// Skip line comments
-				this.advance() // skip first /
-				this.advance() // skip second /
+				// Keep line comments as trivia
+				const start = this.pos
+				const line = this.line
+				const column = this.column
 				while (this.pos < this.source.length && this.peek() !== '\n') {
 					this.advance()
 				}
+				const value = this.source.slice(start + 2, this.pos).replace(/\r$/, '')
+				this.comments.push({ value, line, column, endLine: this.line, endColumn: this.column })
 				// Don't skip the newline - it will be returned as a token
 			} else {
 				break
@@ -113,18 +207,46 @@ export class Tokenizer {
 		}
 	}
 
-	private readNumber(): Token {
+	/**
+	 * Read a number: 42, 3.14, 1e-6, 1_000_000, 0xff, 0o17 or 0b1010.
+	 * The token keeps the source text; numberValue() converts it.
+	 */
+	private readNumber(): RawToken {
 		const start = this.pos
 		const line = this.line
 		const column = this.column
 
-		while (this.pos < this.source.length) {
-			const ch = this.peek()
-			if ((ch >= '0' && ch <= '9') || ch === '.') {
+		const radix = this.peek() === '0' ? this.peek(1).toLowerCase() : ''
+		let valid: boolean
+		if (radix in RADIX_DIGITS) {
+			this.advance() // 0
+			this.advance() // x, o or b
+			valid = this.readDigits(RADIX_DIGITS[radix])
+		} else {
+			valid = this.readDigits(DECIMAL_DIGIT)
+			// A dot not followed by a digit is member access, as in 1.5.toFixed(1)
+			if (this.peek() === '.' && DECIMAL_DIGIT.test(this.peek(1))) {
+				this.advance() // .
+				this.readDigits(DECIMAL_DIGIT)
+			}
+			if (this.peek() === 'e' || this.peek() === 'E') {
+				this.advance() // e
+				if (this.peek() === '+' || this.peek() === '-') {
+					this.advance()
+				}
+				valid = this.readDigits(DECIMAL_DIGIT)
+			}
+		}
+
+		// A number must not run into a name or another number: 12px, 0b102, 1.2.3
+		if (WORD_CHAR.test(this.peek()) || (this.peek() === '.' && DECIMAL_DIGIT.test(this.peek(1)))) {
+			while (WORD_CHAR.test(this.peek()) || (this.peek() === '.' && WORD_CHAR.test(this.peek(1)))) {
 				this.advance()
-			} else {
-				break
 			}
+			valid = false
+		}
+		if (!valid) {
+			this.report(`Invalid number '${this.source.slice(start, this.pos)}'`, line, column)
 		}
 
 		return {
@@ -135,16 +257,53 @@ export class Tokenizer {
 		}
 	}
 
-	private readString(quote: string): Token {
+	/**
+	 * Read digits, allowing single '_' separators between them. Returns whether any were read.
+	 */
+	private readDigits(digit: RegExp): boolean {
+		let count = 0
+		while (true) {
+			const ch = this.peek()
+			if (digit.test(ch)) {
+				count++
+			} else if (ch !== '_') {
+				return count > 0
+			} else if (count === 0 || !digit.test(this.peek(1))) {
+				const line = this.line
+				const column = this.column
+				this.advance()
+				this.report('Numeric separators are only allowed between digits', line, column)
+				continue
+			}
+			this.advance()
+		}
+	}
+
+	/**
+	 * Read a quoted string, or a template chunk: a backtick template up to its end
+	 * or its first `${`, or (when `continued`) the text after a substitution's '}'
+	 */
+	private readString(quote: string, continued = false): RawToken {
 		const line = this.line
 		const column = this.column
-		this.advance() // skip opening quote
+		this.advance() // skip opening quote, or the '}' ending a substitution
 
 		let value = ''
+		let terminated = false
+		let substitution = false
 		while (this.pos < this.source.length) {
 			const ch = this.peek()
 			if (ch === quote) {
 				this.advance() // skip closing quote
+				terminated = true
+				break
+			}
+			if (quote === '`' && ch === '$' && this.peek(1) === '{') {
+				this.advance()
+				this.advance()
+				this.templateBraces.push(0)
+				terminated = true
+				substitution = true
 				break
 			}
 			if (ch === '\\') {
@@ -177,15 +336,26 @@ export class Tokenizer {
 			}
 		}
 
-		return {
-			type: TokenType.STRING,
-			value,
-			line,
-			column,
+		if (quote !== '`') {
+			if (!terminated) {
+				this.report('Unterminated string literal', line, column)
+			}
+			return { type: TokenType.STRING, value, line, column }
+		}
+
+		if (!terminated) {
+			this.report('Unterminated template literal', line, column)
 		}
+		let type: TokenType
+		if (continued) {
+			type = substitution ? TokenType.TEMPLATE_MIDDLE : TokenType.TEMPLATE_TAIL
+		} else {
+			type = substitution ? TokenType.TEMPLATE_HEAD : TokenType.TEMPLATE_STRING
+		}
+		return { type, value, line, column }
 	}
 
-	private readIdentifier(): Token {
+	private readIdentifier(): RawToken {
 		const start = this.pos
 		const line = this.line
 		const column = this.column
@@ -214,11 +384,31 @@ export class Tokenizer {
 		else if (value === 'elif') type = TokenType.ELIF
 		else if (value === 'else') type = TokenType.ELSE
 		else if (value === 'for') type = TokenType.FOR
+		else if (value === 'in') type = TokenType.IN
+		else if (value === 'let') type = TokenType.LET
+		else if (value === 'return') type = TokenType.RETURN
+		else if (value === 'break') type = TokenType.BREAK
+		else if (value === 'continue') type = TokenType.CONTINUE
+		else if (value === 'try') type = TokenType.TRY
+		else if (value === 'catch') type = TokenType.CATCH
+		else if (value === 'finally') type = TokenType.FINALLY
+		else if (value === 'throw') type = TokenType.THROW
+		else if (value === 'match') type = TokenType.MATCH
 
 		return { type, value, line, column }
 	}
 
 	public next(): Token {
+		while (true) {
+			const token = this.scan()
+			// null: an invalid character was reported and skipped (recovering)
+			if (token) {
+				return { ...token, endLine: this.line, endColumn: this.column }
+			}
+		}
+	}
+
+	private scan(): RawToken | null {
 		this.skipWhitespace()
 
 		if (this.pos >= this.source.length) {
@@ -246,10 +436,22 @@ export class Tokenizer {
 		}
 
 		// Strings
-		if (ch === '"' || ch === "'") {
+		if (ch === '"' || ch === "'" || ch === '`') {
 			return this.readString(ch)
 		}
 
+		// Braces inside a template substitution; the '}' matching its '${' resumes the template
+		const braces = this.templateBraces.length - 1
+		if (ch === '{' && braces >= 0) {
+			this.templateBraces[braces]++
+		} else if (ch === '}' && braces >= 0) {
+			if (this.templateBraces[braces] === 0) {
+				this.templateBraces.pop()
+				return this.readString('`', true)
+			}
+			this.templateBraces[braces]--
+		}
+
 		// Identifiers
 		if ((ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_') {
 			return this.readIdentifier()
@@ -269,6 +471,13 @@ export class Tokenizer {
 			return { type: TokenType.STRICT_NE, value: '!==', line, column }
 		}
 
+		if (ch === '.' && this.peek(1) === '.' && this.peek(2) === '.') {
+			this.advance()
+			this.advance()
+			this.advance()
+			return { type: TokenType.ELLIPSIS, value: '...', line, column }
+		}
+
 		// Two-character operators
 		if (ch === '=' && this.peek(1) === '=') {
 			this.advance()
@@ -300,11 +509,48 @@ export class Tokenizer {
 			this.advance()
 			return { type: TokenType.OR, value: '||', line, column }
 		}
+		if (ch === '?' && this.peek(1) === '?') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.NULLISH, value: '??', line, column }
+		}
+		// Like JS, `a?.5:b` stays a conditional
+		if (ch === '?' && this.peek(1) === '.' && !(this.peek(2) >= '0' && this.peek(2) <= '9')) {
+			this.advance()
+			this.advance()
+			return { type: TokenType.QUESTION_DOT, value: '?.', line, column }
+		}
 		if (ch === '=' && this.peek(1) === '>') {
 			this.advance()
 			this.advance()
 			return { type: TokenType.ARROW, value: '=>', line, column }
 		}
+		if (ch === '+' && this.peek(1) === '=') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.PLUS_ASSIGN, value: '+=', line, column }
+		}
+		if (ch === '-' && this.peek(1) === '=') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.MINUS_ASSIGN, value: '-=', line, column }
+		}
+		if (ch === '*' && this.peek(1) === '=') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.STAR_ASSIGN, value: '*=', line, column }
+		}
+		// Like JS, `a--b` is a decrement followed by b; write `a - -b` for a subtraction
+		if (ch === '+' && this.peek(1) === '+') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.INCREMENT, value: '++', line, column }
+		}
+		if (ch === '-' && this.peek(1) === '-') {
+			this.advance()
+			this.advance()
+			return { type: TokenType.DECREMENT, value: '--', line, column }
+		}
 
 		// Single-character tokens
 		this.advance()
@@ -350,7 +596,8 @@ export class Tokenizer {
 			case ';':
 				return { type: TokenType.SEMICOLON, value: ch, line, column }
 			default:
-				throw new Error(`Unexpected character '${ch}' at line ${line}, column ${column}`)
+				this.report(`Unexpected character '${ch}'`, line, column)
+				return null
 		}
 	}
 
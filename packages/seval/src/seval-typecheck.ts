@@ -0,0 +1,1164 @@
+/**
+ * Seval Type Checker
+ *
+ * Infers types for Seval expressions from a JSON-Schema-like description of the data model
+ * and of the `context` actions receive, and reports operations that fail (or misbehave)
+ * for every value the types allow: arithmetic on strings, reading a property a value does
+ * not have, calling a helper with the wrong number of arguments, calling something that is
+ * not a function and assigning a value of the wrong type to a data model key.
+ *
+ * Names resolve like they do in the backends (see lintSeval). Anything not described -
+ * parameters, injected helpers, values from unknown sources - has the unknown type, which
+ * is never reported, so a program without a schema only gets checked against its own
+ * literals.
+ */
+
+import type {
+	ASTNode,
+	ArrowFunction,
+	FunctionDef,
+	PatternTarget,
+	Program,
+	PropertyDef,
+	SourceLocation,
+} from './seval-ast'
+import { declaredNames } from './seval-ast'
+import {
+	type DiagnosticSeverity,
+	type SevalDiagnostic,
+	createDiagnostic,
+} from './seval-diagnostics'
+import { isPrimitive } from './seval-primitives'
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object'
+
+/**
+ * The subset of JSON Schema the checker understands. Unlike JSON Schema, an object schema
+ * with properties is closed unless additionalProperties is true or a schema.
+ */
+export interface SevalSchema {
+	type?: SchemaType | SchemaType[]
+	properties?: Record<string, SevalSchema>
+	additionalProperties?: boolean | SevalSchema
+	items?: SevalSchema
+	enum?: unknown[]
+	const?: unknown
+	anyOf?: SevalSchema[]
+	oneOf?: SevalSchema[]
+}
+
+export interface CheckOptions {
+	/** The data model: an object schema whose properties are the keys on `this` */
+	dataModel?: SevalSchema
+	/** The `context` an action is called with */
+	context?: SevalSchema
+	/** Seval source text, used to render code frames */
+	source?: string
+}
+
+export type TypeRule =
+	| 'operand-type'
+	| 'concatenation'
+	| 'missing-property'
+	| 'arity'
+	| 'not-callable'
+	| 'assignment-type'
+
+/**
+ * Severity of each rule
+ */
+export const TYPE_RULES: Record<TypeRule, DiagnosticSeverity> = {
+	// Arithmetic, comparison or iteration on values that do not support it
+	'operand-type': 'error',
+	// + between a string and a number where neither is a literal: concatenates, not adds
+	concatenation: 'warning',
+	// A property the value's type does not have, or any property of null
+	'missing-property': 'error',
+	// A method, arrow function or primitive called with the wrong number of arguments
+	arity: 'error',
+	// Calling a value that is not a function
+	'not-callable': 'error',
+	// Assigning a data model key a value its schema does not allow
+	'assignment-type': 'error',
+}
+
+export interface TypeDiagnostic extends SevalDiagnostic {
+	rule: TypeRule
+}
+
+/**
+ * Check a program against the types of its data model
+ *
+ * @param program Parsed program (see parseSeval)
+ * @param options Schemas of the data model and context, and source for code frames
+ * @returns Diagnostics in source order
+ */
+export function checkSeval(program: Program, options: CheckOptions = {}): TypeDiagnostic[] {
+	return new Checker(program, options).run()
+}
+
+// Types
+
+type SevalType =
+	| { kind: 'unknown' }
+	| { kind: 'number' }
+	| { kind: 'string' }
+	| { kind: 'boolean' }
+	| { kind: 'null' }
+	| { kind: 'array'; items: SevalType }
+	// rest: type of the properties not listed, null when there are none
+	| { kind: 'object'; properties: Map<string, SevalType>; rest: SevalType | null }
+	// max is Infinity with a rest parameter; returns is computed on first call
+	| { kind: 'function'; min: number; max: number; returns: () => SevalType }
+	| { kind: 'union'; types: SevalType[] }
+
+type Kind = SevalType['kind']
+
+const UNKNOWN: SevalType = { kind: 'unknown' }
+const NUMBER: SevalType = { kind: 'number' }
+const STRING: SevalType = { kind: 'string' }
+const BOOLEAN: SevalType = { kind: 'boolean' }
+const NULL: SevalType = { kind: 'null' }
+
+function arrayOf(items: SevalType): SevalType {
+	return { kind: 'array', items }
+}
+
+function objectOf(entries: [string, SevalType][], rest: SevalType | null = null): SevalType {
+	return { kind: 'object', properties: new Map(entries), rest }
+}
+
+function fn(min: number, max: number, returns: SevalType): SevalType {
+	return { kind: 'function', min, max, returns: () => returns }
+}
+
+/**
+ * The members of a union (a single type otherwise)
+ */
+function members(type: SevalType): SevalType[] {
+	return type.kind === 'union' ? type.types : [type]
+}
+
+/**
+ * A type allowing any of types: unknown if one of them is
+ */
+function union(...types: SevalType[]): SevalType {
+	const list: SevalType[] = []
+	for (const type of types.flatMap(members)) {
+		if (type.kind === 'unknown') return UNKNOWN
+		if (!list.some((known) => sameType(known, type))) list.push(type)
+	}
+	if (list.length === 0) return UNKNOWN
+	return list.length === 1 ? list[0] : { kind: 'union', types: list }
+}
+
+/**
+ * Whether a and b are the same type; objects and functions only when they are the same instance
+ */
+function sameType(a: SevalType, b: SevalType): boolean {
+	if (a === b) return true
+	if (a.kind === 'array' && b.kind === 'array') return sameType(a.items, b.items)
+	return a.kind === b.kind && ['number', 'string', 'boolean', 'null'].includes(a.kind)
+}
+
+/**
+ * Whether every value of type has one of kinds (never for unknown)
+ */
+function always(type: SevalType, kinds: Kind[]): boolean {
+	return members(type).every((member) => kinds.includes(member.kind))
+}
+
+function withoutNull(type: SevalType): SevalType {
+	const rest = members(type).filter((member) => member.kind !== 'null')
+	return rest.length === 0 ? NULL : union(...rest)
+}
+
+function typeName(type: SevalType): string {
+	switch (type.kind) {
+		case 'array': {
+			const items = typeName(type.items)
+			return type.items.kind === 'union' ? `(${items})[]` : `${items}[]`
+		}
+		case 'union':
+			return type.types.map(typeName).join(' | ')
+		default:
+			return type.kind
+	}
+}
+
+/**
+ * Whether a value of type value can be stored where target is expected (shallow)
+ */
+function assignable(value: SevalType, target: SevalType): boolean {
+	return members(value).some((v) =>
+		members(target).some((t) => v.kind === 'unknown' || t.kind === 'unknown' || v.kind === t.kind),
+	)
+}
+
+function fromValue(value: unknown): SevalType {
+	if (value === null) return NULL
+	switch (typeof value) {
+		case 'number':
+			return NUMBER
+		case 'string':
+			return STRING
+		case 'boolean':
+			return BOOLEAN
+		default:
+			return Array.isArray(value) ? arrayOf(UNKNOWN) : UNKNOWN
+	}
+}
+
+function fromSchema(schema: SevalSchema | undefined): SevalType {
+	if (!schema) return UNKNOWN
+	const alternatives = schema.anyOf ?? schema.oneOf
+	if (alternatives) return union(...alternatives.map(fromSchema))
+	if (schema.const !== undefined) return fromValue(schema.const)
+	if (schema.enum) return union(...schema.enum.map(fromValue))
+
+	const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+	if (types.length === 0) {
+		return schema.properties ? objectSchema(schema) : UNKNOWN
+	}
+	return union(
+		...types.map((type): SevalType => {
+			switch (type) {
+				case 'integer':
+					return NUMBER
+				case 'array':
+					return arrayOf(fromSchema(schema.items))
+				case 'object':
+					return objectSchema(schema)
+				default:
+					return { kind: type }
+			}
+		}),
+	)
+}
+
+function objectSchema(schema: SevalSchema): SevalType {
+	const properties = Object.entries(schema.properties ?? {}).map(
+		([key, value]): [string, SevalType] => [key, fromSchema(value)],
+	)
+	const extra = schema.additionalProperties
+	// Without properties or additionalProperties nothing is known about the keys
+	const open = extra === true || (extra === undefined && !schema.properties)
+	const rest = typeof extra === 'object' ? fromSchema(extra) : open ? UNKNOWN : null
+	return objectOf(properties, rest)
+}
+
+// Members of built-in values
+
+function methods(returns: SevalType, names: string[]): [string, SevalType][] {
+	return names.map((name) => [name, fn(0, Number.POSITIVE_INFINITY, returns)])
+}
+
+const STRING_MEMBERS = new Map<string, SevalType>([
+	['length', NUMBER],
+	...methods(STRING, [
+		'at',
+		'charAt',
+		'concat',
+		'normalize',
+		'padEnd',
+		'padStart',
+		'repeat',
+		'replace',
+		'replaceAll',
+		'slice',
+		'substr',
+		'substring',
+		'toLocaleLowerCase',
+		'toLocaleUpperCase',
+		'toLowerCase',
+		'toString',
+		'toUpperCase',
+		'trim',
+		'trimEnd',
+		'trimStart',
+		'valueOf',
+	]),
+	...methods(NUMBER, [
+		'charCodeAt',
+		'codePointAt',
+		'indexOf',
+		'lastIndexOf',
+		'localeCompare',
+		'search',
+	]),
+	...methods(BOOLEAN, ['endsWith', 'includes', 'startsWith']),
+	...methods(arrayOf(STRING), ['split']),
+	...methods(UNKNOWN, ['match', 'matchAll']),
+])
+
+const NUMBER_MEMBERS = new Map<string, SevalType>([
+	...methods(STRING, ['toExponential', 'toFixed', 'toLocaleString', 'toPrecision', 'toString']),
+	...methods(NUMBER, ['valueOf']),
+])
+
+const BOOLEAN_MEMBERS = new Map<string, SevalType>([
+	...methods(STRING, ['toString']),
+	...methods(BOOLEAN, ['valueOf']),
+])
+
+/**
+ * Array methods that call a function with (item, index)
+ */
+const CALLBACK_METHODS = new Set([
+	'every',
+	'filter',
+	'find',
+	'findIndex',
+	'findLast',
+	'findLastIndex',
+	'flatMap',
+	'forEach',
+	'map',
+	'some',
+])
+
+function arrayMember(items: SevalType, name: string): SevalType | undefined {
+	const array = arrayOf(items)
+	switch (name) {
+		case 'length':
+			return NUMBER
+		case 'at':
+		case 'find':
+		case 'findLast':
+		case 'pop':
+		case 'shift':
+			return fn(0, Number.POSITIVE_INFINITY, union(items, NULL))
+		case 'concat':
+		case 'copyWithin':
+		case 'fill':
+		case 'filter':
+		case 'reverse':
+		case 'slice':
+		case 'sort':
+		case 'splice':
+		case 'toReversed':
+		case 'toSorted':
+		case 'toSpliced':
+		case 'with':
+			return fn(0, Number.POSITIVE_INFINITY, array)
+		case 'every':
+		case 'includes':
+		case 'some':
+			return fn(0, Number.POSITIVE_INFINITY, BOOLEAN)
+		case 'findIndex':
+		case 'findLastIndex':
+		case 'indexOf':
+		case 'lastIndexOf':
+		case 'push':
+		case 'unshift':
+			return fn(0, Number.POSITIVE_INFINITY, NUMBER)
+		case 'join':
+		case 'toString':
+			return fn(0, Number.POSITIVE_INFINITY, STRING)
+		case 'forEach':
+			return fn(0, Number.POSITIVE_INFINITY, NULL)
+		case 'entries':
+		case 'flat':
+		case 'flatMap':
+		case 'keys':
+		case 'map':
+		case 'reduce':
+		case 'reduceRight':
+		case 'values':
+			return fn(0, Number.POSITIVE_INFINITY, UNKNOWN)
+		default:
+			return undefined
+	}
+}
+
+const MATH = objectOf([
+	...[
+		'abs',
+		'acos',
+		'acosh',
+		'asin',
+		'asinh',
+		'atan',
+		'atanh',
+		'cbrt',
+		'ceil',
+		'clz32',
+		'cos',
+		'cosh',
+		'exp',
+		'expm1',
+		'floor',
+		'fround',
+		'log',
+		'log10',
+		'log1p',
+		'log2',
+		'round',
+		'sign',
+		'sin',
+		'sinh',
+		'sqrt',
+		'tan',
+		'tanh',
+		'trunc',
+	].map((name): [string, SevalType] => [name, fn(1, 1, NUMBER)]),
+	...['atan2', 'imul', 'pow'].map((name): [string, SevalType] => [name, fn(2, 2, NUMBER)]),
+	...['hypot', 'max', 'min'].map((name): [string, SevalType] => [
+		name,
+		fn(0, Number.POSITIVE_INFINITY, NUMBER),
+	]),
+	['random', fn(0, 0, NUMBER)],
+	...['E', 'LN10', 'LN2', 'LOG10E', 'LOG2E', 'PI', 'SQRT1_2', 'SQRT2'].map(
+		(name): [string, SevalType] => [name, NUMBER],
+	),
+])
+
+/**
+ * Types of the primitives code can call; the others are unknown
+ */
+const PRIMITIVE_TYPES: Record<string, SevalType> = {
+	get: fn(2, 2, UNKNOWN),
+	merge: fn(0, Number.POSITIVE_INFINITY, objectOf([], UNKNOWN)),
+	decimal: fn(1, 1, UNKNOWN),
+	String: fn(0, 1, STRING),
+	Number: fn(0, 1, NUMBER),
+	Math: MATH,
+}
+
+/**
+ * The value a catch clause binds
+ */
+const ERROR_VALUE = objectOf([['message', STRING]], UNKNOWN)
+
+/**
+ * The type of a property of a single (non-union) type, undefined when it has none
+ */
+function memberOf(type: SevalType, name: string): SevalType | undefined {
+	switch (type.kind) {
+		case 'string':
+			return STRING_MEMBERS.get(name)
+		case 'number':
+			return NUMBER_MEMBERS.get(name)
+		case 'boolean':
+			return BOOLEAN_MEMBERS.get(name)
+		case 'array':
+			return arrayMember(type.items, name)
+		case 'object':
+			return type.properties.get(name) ?? type.rest ?? undefined
+		case 'null':
+			return undefined
+		default:
+			return UNKNOWN
+	}
+}
+
+// Checking
+
+interface Binding {
+	kind: 'param' | 'let'
+	type: SevalType
+}
+
+/**
+ * Locals of a block, chained to the enclosing blocks
+ */
+class Scope {
+	private bindings = new Map<string, Binding>()
+	private parent: Scope | null
+
+	constructor(parent: Scope | null = null) {
+		this.parent = parent
+	}
+
+	declare(names: string[], kind: 'param' | 'let', types: SevalType[] = []): void {
+		names.forEach((name, i) => {
+			this.bindings.set(name, { kind, type: types[i] ?? UNKNOWN })
+		})
+	}
+
+	lookup(name: string): Binding | undefined {
+		return this.bindings.get(name) ?? this.parent?.lookup(name)
+	}
+}
+
+/**
+ * The type of a function's value, while it is being inferred
+ */
+const PENDING = Symbol('pending')
+
+class Checker {
+	private program: Program
+	private options: CheckOptions
+	private state: Map<string, SevalType>
+	private context: SevalType
+	private members = new Map<string, PropertyDef | FunctionDef>()
+	// Value types of program members, inferred on first use
+	private inferred = new Map<PropertyDef | FunctionDef, SevalType | typeof PENDING>()
+	// Types of the return statements of the functions being checked, innermost last
+	private returns: SevalType[][] = []
+	// Inside object literal methods this is the object, whose keys are not known
+	private objectMethods = 0
+	// Loop bodies are checked twice, reporting only the second time (see loopBody)
+	private silent = 0
+	private diagnostics: TypeDiagnostic[] = []
+	// Reported for nodes without a loc: the member being checked
+	private fallback: SourceLocation
+
+	constructor(program: Program, options: CheckOptions) {
+		this.program = program
+		this.options = options
+		const dataModel = fromSchema(options.dataModel)
+		this.state = dataModel.kind === 'object' ? dataModel.properties : new Map()
+		this.context = fromSchema(options.context)
+		this.fallback = program.loc ?? { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } }
+		for (const member of program.members) {
+			this.members.set(member.name, member)
+		}
+	}
+
+	run(): TypeDiagnostic[] {
+		for (const member of this.program.members) {
+			this.memberValue(member)
+		}
+		return this.diagnostics.sort(
+			(a, b) => a.loc.start.line - b.loc.start.line || a.loc.start.column - b.loc.start.column,
+		)
+	}
+
+	/**
+	 * The value of a property, or the return value of a method (checking it the first time)
+	 */
+	private memberValue(member: PropertyDef | FunctionDef): SevalType {
+		const known = this.inferred.get(member)
+		if (known === PENDING) return UNKNOWN
+		if (known) return known
+		this.inferred.set(member, PENDING)
+
+		// Members are checked on first use, possibly from inside another function
+		const saved = {
+			fallback: this.fallback,
+			objectMethods: this.objectMethods,
+			silent: this.silent,
+		}
+		this.fallback = member.loc ?? this.fallback
+		this.objectMethods = 0
+		this.silent = 0
+		const type =
+			member.kind === 'FunctionDef'
+				? this.functionValue(member, new Scope(), [])
+				: this.infer(member.value, new Scope())
+		this.fallback = saved.fallback
+		this.objectMethods = saved.objectMethods
+		this.silent = saved.silent
+
+		this.inferred.set(member, type)
+		return type
+	}
+
+	/**
+	 * The type of this.name: the data model's, else the program member's
+	 */
+	private stateType(name: string): SevalType {
+		if (this.objectMethods > 0) return UNKNOWN
+		if (name === 'context' && this.options.context) return this.context
+		const fromState = this.state.get(name)
+		if (fromState) return fromState
+		const member = this.members.get(name)
+		if (member?.kind === 'FunctionDef') {
+			const max = member.rest === undefined ? member.params.length : Number.POSITIVE_INFINITY
+			return {
+				kind: 'function',
+				min: member.params.length,
+				max,
+				returns: () => this.memberValue(member),
+			}
+		}
+		return member ? this.memberValue(member) : UNKNOWN
+	}
+
+	/**
+	 * Check a function body and return the type of its value
+	 */
+	private functionValue(
+		func: FunctionDef | ArrowFunction,
+		outer: Scope,
+		paramTypes: SevalType[],
+	): SevalType {
+		const scope = new Scope(outer)
+		const names = func.rest === undefined ? func.params : [...func.params, func.rest]
+		scope.declare(names, 'param', paramTypes.slice(0, func.params.length))
+		this.returns.push([])
+		const tail = this.body(func.body, scope)
+		const returned = this.returns.pop() ?? []
+		const values = tail ? [...returned, tail] : returned
+		return values.length > 0 ? union(...values) : NULL
+	}
+
+	private functionType(
+		func: FunctionDef | ArrowFunction,
+		outer: Scope,
+		paramTypes: SevalType[] = [],
+	): SevalType {
+		const returns = this.functionValue(func, outer, paramTypes)
+		const max = func.rest === undefined ? func.params.length : Number.POSITIVE_INFINITY
+		return fn(func.params.length, max, returns)
+	}
+
+	/**
+	 * Check a block and return the type of its value (undefined when it always exits)
+	 */
+	private body(node: ASTNode, outer: Scope): SevalType | undefined {
+		const statements = node.kind === 'BlockExpression' ? node.statements : [node]
+		const scope = new Scope(outer)
+		scope.declare(statements.flatMap(declaredNames), 'let')
+		let value: SevalType | undefined = NULL
+		for (const statement of statements) {
+			value = this.statement(statement, scope)
+		}
+		return value
+	}
+
+	private statement(node: ASTNode, scope: Scope): SevalType | undefined {
+		switch (node.kind) {
+			case 'LetDeclaration': {
+				const type = node.value ? this.infer(node.value, scope) : NULL
+				const binding = scope.lookup(node.name)
+				if (binding) binding.type = type
+				return NULL
+			}
+
+			case 'LetPatternDeclaration':
+				this.destructure(node.pattern, this.infer(node.value, scope), scope)
+				return NULL
+
+			case 'ReturnStatement':
+				this.returns.at(-1)?.push(node.value ? this.infer(node.value, scope) : NULL)
+				return undefined
+
+			case 'ThrowStatement':
+				this.infer(node.value, scope)
+				return undefined
+
+			case 'BreakStatement':
+			case 'ContinueStatement':
+				return undefined
+
+			case 'IfStatement': {
+				this.infer(node.condition, scope)
+				const branches = [
+					this.body(node.consequent, scope),
+					node.alternate ? this.body(node.alternate, scope) : NULL,
+				].filter((type) => type !== undefined)
+				return branches.length > 0 ? union(...branches) : undefined
+			}
+
+			case 'ForStatement': {
+				const loopScope = new Scope(scope)
+				if (node.init?.kind === 'LetDeclaration') {
+					loopScope.declare([node.init.name], 'let')
+				}
+				if (node.init) this.statement(node.init, loopScope)
+				this.loopBody(() => {
+					this.infer(node.condition, loopScope)
+					this.body(node.body, loopScope)
+					if (node.update) this.infer(node.update, loopScope)
+				})
+				return NULL
+			}
+
+			case 'ForInStatement': {
+				const iterable = this.infer(node.iterable, scope)
+				const loopScope = new Scope(scope)
+				loopScope.declare(
+					node.variables,
+					'let',
+					this.iterationTypes(iterable, node.variables.length === 2, node),
+				)
+				this.loopBody(() => this.body(node.body, loopScope))
+				return NULL
+			}
+
+			case 'TryStatement': {
+				const values = [this.body(node.block, scope)]
+				if (node.handler) {
+					const handlerScope = new Scope(scope)
+					if (node.param !== undefined) handlerScope.declare([node.param], 'let', [ERROR_VALUE])
+					values.push(this.body(node.handler, handlerScope))
+				}
+				if (node.finalizer) this.body(node.finalizer, scope)
+				const reached = values.filter((type) => type !== undefined)
+				return reached.length > 0 ? union(...reached) : undefined
+			}
+
+			case 'BlockExpression':
+				return this.body(node, scope)
+
+			default:
+				return this.infer(node, scope)
+		}
+	}
+
+	/**
+	 * Check a loop body twice: later iterations see the values let bindings were assigned in
+	 * earlier ones, so only the second pass reports
+	 */
+	private loopBody(check: () => void): void {
+		this.silent++
+		check()
+		this.silent--
+		check()
+	}
+
+	/**
+	 * Types of the variables of `for x in value` (items, or the keys of objects) or of
+	 * `for key, x in value`
+	 */
+	private iterationTypes(iterable: SevalType, pairs: boolean, node: ASTNode): SevalType[] {
+		if (always(iterable, ['number', 'boolean', 'null', 'function'])) {
+			this.report('operand-type', `Cannot iterate over ${typeName(iterable)}`, node)
+			return []
+		}
+		// Iterating null throws, so only the other members matter
+		const iterated = members(withoutNull(iterable))
+		const entries = iterated.map((type): [SevalType, SevalType] => {
+			switch (type.kind) {
+				case 'array':
+					return [NUMBER, type.items]
+				case 'string':
+					return [NUMBER, STRING]
+				case 'object':
+					return [STRING, union(...type.properties.values(), ...(type.rest ? [type.rest] : []))]
+				default:
+					return [UNKNOWN, UNKNOWN]
+			}
+		})
+		const items = union(...entries.map(([, item]) => item))
+		if (pairs) return [union(...entries.map(([key]) => key)), items]
+		return [union(...iterated.map((type, i) => (type.kind === 'object' ? STRING : entries[i][1])))]
+	}
+
+	/**
+	 * Give the let bindings of a pattern the types of the parts of value
+	 */
+	private destructure(pattern: PatternTarget, value: SevalType, scope: Scope): void {
+		switch (pattern.kind) {
+			case 'Identifier': {
+				const binding = scope.lookup(pattern.name)
+				if (binding?.kind === 'let') binding.type = value
+				return
+			}
+			case 'ArrayPattern': {
+				const items = union(
+					...members(value).map((type) => (type.kind === 'array' ? type.items : UNKNOWN)),
+				)
+				for (const element of pattern.elements) this.destructure(element, items, scope)
+				if (pattern.rest) this.destructure(pattern.rest, arrayOf(items), scope)
+				return
+			}
+			case 'ObjectPattern':
+				for (const { key, value: target } of pattern.properties) {
+					const parts = members(value).map((type) => memberOf(type, key) ?? UNKNOWN)
+					this.destructure(target, union(...parts), scope)
+				}
+				if (pattern.rest) this.destructure(pattern.rest, objectOf([], UNKNOWN), scope)
+				return
+			default:
+				return
+		}
+	}
+
+	private infer(node: ASTNode, scope: Scope, paramTypes: SevalType[] = []): SevalType {
+		switch (node.kind) {
+			case 'NumberLiteral':
+				return NUMBER
+			case 'StringLiteral':
+				return STRING
+			case 'BooleanLiteral':
+				return BOOLEAN
+			case 'NullLiteral':
+				return NULL
+
+			case 'TemplateLiteral':
+				for (const expression of node.expressions) this.infer(expression, scope)
+				return STRING
+
+			case 'Identifier': {
+				if (node.name === 'this') return UNKNOWN
+				const local = scope.lookup(node.name)
+				if (local) return local.type
+				if (isPrimitive(node.name)) return PRIMITIVE_TYPES[node.name] ?? UNKNOWN
+				return this.stateType(node.name)
+			}
+
+			case 'MemberExpression': {
+				if (node.object.kind === 'Identifier' && node.object.name === 'this') {
+					if (typeof node.property === 'string') return this.stateType(node.property)
+					this.infer(node.property, scope)
+					return UNKNOWN
+				}
+				const object = this.infer(node.object, scope)
+				if (typeof node.property === 'string') {
+					return this.property(object, node.property, node, node.optional)
+				}
+				const key = node.property
+				this.infer(key, scope)
+				if (key.kind === 'StringLiteral')
+					return this.property(object, key.value, node, node.optional)
+				return this.element(node.optional ? withoutNull(object) : object)
+			}
+
+			case 'BinaryExpression':
+				return this.binary(node.operator, node.left, node.right, scope, node)
+
+			case 'UnaryExpression': {
+				const operand = this.infer(node.operand, scope)
+				if (node.operator === '!') return BOOLEAN
+				return this.expectNumber(node.operator, operand, node) ? UNKNOWN : NUMBER
+			}
+
+			case 'UpdateExpression': {
+				const target = this.infer(node.target, scope)
+				// After a reported operand the result is unknown, so it is not reported again
+				const result = this.expectNumber(node.operator, target, node) ? UNKNOWN : NUMBER
+				this.assign(node.target, result, scope)
+				return result
+			}
+
+			case 'AssignmentStatement': {
+				const target = node.target
+				if (!node.operator) {
+					const value = this.infer(node.value, scope)
+					this.assign(target, value, scope)
+					return value
+				}
+				// x op= value is x = x op value
+				const operator = node.operator.slice(0, -1)
+				const value = this.binary(operator, target, node.value, scope, node)
+				this.assign(target, value, scope)
+				return value
+			}
+
+			case 'TernaryExpression':
+				this.infer(node.condition, scope)
+				return union(this.infer(node.consequent, scope), this.infer(node.alternate, scope))
+
+			case 'MatchExpression': {
+				this.infer(node.subject, scope)
+				const values = node.arms.map((arm) => {
+					if (arm.pattern) this.infer(arm.pattern, scope)
+					if (arm.guard) this.infer(arm.guard, scope)
+					return this.infer(arm.body, scope)
+				})
+				const exhaustive = node.arms.some((arm) => !arm.pattern && !arm.guard)
+				return union(...values, ...(exhaustive ? [] : [NULL]))
+			}
+
+			case 'CallExpression':
+				return this.call(node, scope)
+
+			case 'ArrayLiteral': {
+				const items = node.elements.map((element) => {
+					if (element.kind !== 'SpreadElement') return this.infer(element, scope)
+					return this.element(this.infer(element.argument, scope))
+				})
+				return arrayOf(items.length > 0 ? union(...items) : UNKNOWN)
+			}
+
+			case 'ObjectLiteral': {
+				const properties: [string, SevalType][] = []
+				let open = false
+				for (const property of node.properties) {
+					if ('kind' in property) {
+						this.infer(property.argument, scope)
+						open = true
+						continue
+					}
+					if (typeof property.key !== 'string') {
+						this.infer(property.key, scope)
+						open = true
+					}
+					const value = this.infer(property.value, scope)
+					if (typeof property.key === 'string') properties.push([property.key, value])
+				}
+				return objectOf(properties, open ? UNKNOWN : null)
+			}
+
+			case 'SpreadElement':
+				return this.infer(node.argument, scope)
+
+			case 'ArrowFunction':
+				return this.functionType(node, scope, paramTypes)
+
+			case 'FunctionDef': {
+				// Method shorthand in an object literal: this is the object
+				this.objectMethods++
+				const type = this.functionType(node, scope)
+				this.objectMethods--
+				return type
+			}
+
+			case 'ArrayPattern':
+			case 'ObjectPattern':
+				return UNKNOWN
+
+			default:
+				return this.statement(node, scope) ?? NULL
+		}
+	}
+
+	/**
+	 * The type of object.name, reporting names no member of the object's type has
+	 */
+	private property(object: SevalType, name: string, node: ASTNode, optional = false): SevalType {
+		const type = optional ? withoutNull(object) : object
+		if (members(type).some((member) => member.kind === 'unknown')) return UNKNOWN
+		const found = members(type).map((member) => memberOf(member, name))
+		const defined = found.filter((member) => member !== undefined)
+		if (defined.length === 0) {
+			const message =
+				type.kind === 'null'
+					? `Cannot read property '${name}' of null`
+					: `Property '${name}' does not exist on ${typeName(type)}`
+			this.report('missing-property', message, node)
+			return UNKNOWN
+		}
+		return union(...defined)
+	}
+
+	/**
+	 * The type of value[key] for a key that is not a string literal
+	 */
+	private element(value: SevalType): SevalType {
+		return union(
+			...members(value).map((type) => {
+				switch (type.kind) {
+					case 'array':
+						return type.items
+					case 'string':
+						return STRING
+					case 'object':
+						return union(...type.properties.values(), type.rest ?? UNKNOWN)
+					default:
+						return UNKNOWN
+				}
+			}),
+		)
+	}
+
+	private binary(
+		operator: string,
+		leftNode: ASTNode,
+		rightNode: ASTNode,
+		scope: Scope,
+		node: ASTNode,
+	): SevalType {
+		const left = this.infer(leftNode, scope)
+		const right = this.infer(rightNode, scope)
+		switch (operator) {
+			case '+': {
+				for (const operand of [left, right]) {
+					if (always(operand, ['boolean', 'null', 'array', 'object', 'function'])) {
+						this.report(
+							'operand-type',
+							`Operator '+' expects numbers or strings but got ${typeName(operand)}`,
+							node,
+						)
+						return UNKNOWN
+					}
+				}
+				const literal = (side: ASTNode) =>
+					side.kind === 'StringLiteral' || side.kind === 'TemplateLiteral'
+				if (
+					((always(left, ['string']) && always(right, ['number'])) ||
+						(always(left, ['number']) && always(right, ['string']))) &&
+					!literal(leftNode) &&
+					!literal(rightNode)
+				) {
+					this.report(
+						'concatenation',
+						`Operator '+' on ${typeName(left)} and ${typeName(right)} concatenates; convert with Number() or String()`,
+						node,
+					)
+				}
+				if (always(left, ['number']) && always(right, ['number'])) return NUMBER
+				if (always(left, ['string']) || always(right, ['string'])) return STRING
+				return union(left, right).kind === 'unknown' ? UNKNOWN : union(NUMBER, STRING)
+			}
+			case '-':
+			case '*':
+			case '/':
+			case '%':
+				if (this.expectNumber(operator, left, node) || this.expectNumber(operator, right, node)) {
+					return UNKNOWN
+				}
+				return NUMBER
+			case '<':
+			case '<=':
+			case '>':
+			case '>=':
+				if (
+					(always(left, ['string']) && always(right, ['number'])) ||
+					(always(left, ['number']) && always(right, ['string']))
+				) {
+					this.report(
+						'operand-type',
+						`Operator '${operator}' compares ${typeName(left)} with ${typeName(right)}`,
+						node,
+					)
+				}
+				return BOOLEAN
+			case '&&':
+			case '||':
+				return union(left, right)
+			case '??':
+				return union(withoutNull(left), right)
+			default:
+				return BOOLEAN
+		}
+	}
+
+	/**
+	 * Report an arithmetic operand that is never a number; returns whether it reported
+	 */
+	private expectNumber(operator: string, operand: SevalType, node: ASTNode): boolean {
+		if (!always(operand, ['string', 'boolean', 'null', 'array', 'object', 'function'])) {
+			return false
+		}
+		this.report(
+			'operand-type',
+			`Operator '${operator}' expects numbers but got ${typeName(operand)}`,
+			node,
+		)
+		return true
+	}
+
+	private call(node: ASTNode & { kind: 'CallExpression' }, scope: Scope): SevalType {
+		const callee = node.callee
+		let calleeType: SevalType
+		let receiver: SevalType | null = null
+		let method: string | null = null
+		if (
+			callee.kind === 'MemberExpression' &&
+			typeof callee.property === 'string' &&
+			!(callee.object.kind === 'Identifier' && callee.object.name === 'this')
+		) {
+			receiver = this.infer(callee.object, scope)
+			method = callee.property
+			calleeType = this.property(receiver, method, callee, callee.optional)
+		} else {
+			calleeType = this.infer(callee, scope)
+		}
+
+		// Array callbacks get the item type for their first parameter
+		const items =
+			receiver && method && CALLBACK_METHODS.has(method)
+				? this.element(withoutNull(receiver))
+				: null
+		const args = node.args.map((arg, i) =>
+			this.infer(arg, scope, i === 0 && items ? [items, NUMBER] : []),
+		)
+
+		const type = node.optional ? withoutNull(calleeType) : calleeType
+		if (always(type, ['number', 'string', 'boolean', 'null', 'array', 'object'])) {
+			this.report(
+				'not-callable',
+				`${this.calleeName(callee)} is not a function (${typeName(type)})`,
+				node,
+			)
+			return UNKNOWN
+		}
+		if (type.kind !== 'function') return UNKNOWN
+
+		const spread = node.args.some((arg) => arg.kind === 'SpreadElement')
+		const given = node.args.filter((arg) => arg.kind !== 'SpreadElement').length
+		if (given > type.max || (!spread && given < type.min)) {
+			const expected =
+				type.max === type.min
+					? `${type.min}`
+					: type.max === Number.POSITIVE_INFINITY
+						? `at least ${type.min}`
+						: `${type.min}-${type.max}`
+			const plural = expected.endsWith(' 1') || expected === '1' ? '' : 's'
+			this.report(
+				'arity',
+				`${this.calleeName(callee)} expects ${expected} argument${plural} but got ${given}`,
+				node,
+			)
+		}
+
+		if (method === 'map' && items) {
+			const callback = args[0]
+			return arrayOf(callback?.kind === 'function' ? callback.returns() : UNKNOWN)
+		}
+		return type.returns()
+	}
+
+	private calleeName(callee: ASTNode): string {
+		if (callee.kind === 'Identifier') return `'${callee.name}'`
+		if (callee.kind === 'MemberExpression' && typeof callee.property === 'string') {
+			return `'${callee.property}'`
+		}
+		return 'Callee'
+	}
+
+	/**
+	 * Record an assignment: let bindings take the value's type, data model keys and typed
+	 * object properties must accept it
+	 */
+	private assign(target: ASTNode, value: SevalType, scope: Scope): void {
+		if (target.kind === 'ArrayPattern' || target.kind === 'ObjectPattern') {
+			this.destructure(target, value, scope)
+			return
+		}
+		if (target.kind === 'Identifier') {
+			const binding = scope.lookup(target.name)
+			if (binding?.kind === 'let') {
+				binding.type = union(binding.type, value)
+				return
+			}
+			// Anything else, parameters included, writes this.name
+			this.checkAssignment(target.name, this.stateTypeForWrite(target.name), value, target)
+			return
+		}
+		if (target.kind !== 'MemberExpression' || typeof target.property !== 'string') return
+		if (target.object.kind === 'Identifier' && target.object.name === 'this') {
+			this.checkAssignment(target.property, this.stateTypeForWrite(target.property), value, target)
+			return
+		}
+		const object = this.infer(target.object, scope)
+		if (always(object, ['object'])) {
+			const declared = members(object).map((type) => memberOf(type, target.property as string))
+			if (declared.every((type) => type !== undefined)) {
+				this.checkAssignment(target.property, union(...(declared as SevalType[])), value, target)
+			}
+		}
+	}
+
+	/**
+	 * The type the data model requires for a key, unknown when it does not say
+	 */
+	private stateTypeForWrite(name: string): SevalType {
+		if (this.objectMethods > 0) return UNKNOWN
+		if (name === 'context' && this.options.context) return this.context
+		return this.state.get(name) ?? UNKNOWN
+	}
+
+	private checkAssignment(name: string, target: SevalType, value: SevalType, node: ASTNode): void {
+		if (!assignable(value, target)) {
+			this.report(
+				'assignment-type',
+				`Type ${typeName(value)} is not assignable to '${name}' (${typeName(target)})`,
+				node,
+			)
+		}
+	}
+
+	private report(rule: TypeRule, message: string, node: { loc?: SourceLocation }): void {
+		if (this.silent > 0) return
+		const loc = node.loc ?? this.fallback
+		this.diagnostics.push({
+			...createDiagnostic(message, loc, this.options.source ?? '', TYPE_RULES[rule]),
+			rule,
+		})
+	}
+}
@@ -0,0 +1,234 @@
+/**
+ * Seval AST Traversal
+ *
+ * visit walks a Program or any node, transform rebuilds one. Both reach every node
+ * kind, including imports, computed keys, patterns and the parts of match arms.
+ */
+
+import type {
+	ASTNode,
+	ImportDeclaration,
+	MatchArm,
+	ObjectProperty,
+	PatternTarget,
+	Program,
+	SpreadElement,
+} from './seval-ast'
+
+/**
+ * Any node of a Seval syntax tree: a Program or one of its descendants
+ */
+export type SevalNode = ASTNode | Program | ImportDeclaration
+
+/**
+ * A node that has a parent
+ */
+type ChildNode = Exclude<SevalNode, Program>
+
+type NodeOfKind<K extends SevalNode['kind']> = Extract<SevalNode, { kind: K }>
+
+/**
+ * Callbacks for visit. enter and the handler named after the node's kind run before its
+ * children; either returning false skips the children. leave runs after them.
+ */
+export type Visitor = {
+	enter?: (node: SevalNode, parent: SevalNode | null) => unknown
+	leave?: (node: SevalNode, parent: SevalNode | null) => unknown
+} & {
+	[K in SevalNode['kind']]?: (node: NodeOfKind<K>, parent: SevalNode | null) => unknown
+}
+
+/**
+ * Returns the node to use in place of the given one (the node itself keeps it)
+ */
+export type Transformer = (node: SevalNode) => SevalNode
+
+/**
+ * Walk a tree depth-first in source order
+ */
+export function visit(root: SevalNode, visitor: Visitor): void {
+	const walk = (node: SevalNode, parent: SevalNode | null): void => {
+		const handler = visitor[node.kind] as Visitor['enter']
+		const entered = visitor.enter?.(node, parent)
+		const handled = handler?.(node, parent)
+		if (entered !== false && handled !== false) {
+			for (const child of childNodes(node)) {
+				walk(child, node)
+			}
+		}
+		visitor.leave?.(node, parent)
+	}
+	walk(root, null)
+}
+
+/**
+ * Rebuild a tree bottom-up: fn sees every node after its children were transformed and
+ * returns its replacement. The original tree is never modified, and unchanged subtrees are
+ * shared with it. A replacement must fit where the node was: an assignment target stays a
+ * target and a program member stays a PropertyDef or FunctionDef.
+ */
+export function transform(root: Program, fn: Transformer): Program
+export function transform(root: ASTNode, fn: Transformer): ASTNode
+export function transform(root: SevalNode, fn: Transformer): SevalNode {
+	const rebuild = (node: SevalNode): SevalNode =>
+		fn(mapChildren(node, rebuild as (child: ChildNode) => ChildNode))
+	return rebuild(root)
+}
+
+/**
+ * The direct children of a node, in source order
+ */
+export function childNodes(node: SevalNode): ChildNode[] {
+	const children: ChildNode[] = []
+	mapChildren(node, (child) => {
+		children.push(child)
+		return child
+	})
+	return children
+}
+
+/**
+ * Node with fn applied to each of its direct children: a copy when fn replaced any of them,
+ * otherwise the node itself
+ */
+function mapChildren(node: SevalNode, fn: (child: ChildNode) => ChildNode): SevalNode {
+	let changed = false
+	const map = <N extends ChildNode>(child: N): N => {
+		const result = fn(child)
+		changed ||= result !== child
+		return result as N
+	}
+	const element = (item: ASTNode | SpreadElement) => map(item)
+	const arm = (item: MatchArm): MatchArm => ({
+		...item,
+		...(item.pattern && { pattern: map(item.pattern) }),
+		...(item.guard && { guard: map(item.guard) }),
+		body: map(item.body),
+	})
+	const property = (item: ObjectProperty | SpreadElement): ObjectProperty | SpreadElement => {
+		if ('kind' in item) return map(item)
+		const key = typeof item.key === 'string' ? item.key : map(item.key)
+		return { ...item, key, value: map(item.value) }
+	}
+	const rest = (target: PatternTarget | undefined) => target && { rest: map(target) }
+
+	let copy: SevalNode
+	switch (node.kind) {
+		case 'NumberLiteral':
+		case 'StringLiteral':
+		case 'BooleanLiteral':
+		case 'NullLiteral':
+		case 'Identifier':
+		case 'BreakStatement':
+		case 'ContinueStatement':
+		case 'ImportDeclaration':
+			return node
+		case 'TemplateLiteral':
+			copy = { ...node, expressions: node.expressions.map(element) }
+			break
+		case 'BinaryExpression':
+			copy = { ...node, left: map(node.left), right: map(node.right) }
+			break
+		case 'UnaryExpression':
+			copy = { ...node, operand: map(node.operand) }
+			break
+		case 'UpdateExpression':
+			copy = { ...node, target: map(node.target) }
+			break
+		case 'TernaryExpression':
+			copy = {
+				...node,
+				condition: map(node.condition),
+				consequent: map(node.consequent),
+				alternate: map(node.alternate),
+			}
+			break
+		case 'MatchExpression':
+			copy = { ...node, subject: map(node.subject), arms: node.arms.map(arm) }
+			break
+		case 'CallExpression':
+			copy = { ...node, callee: map(node.callee), args: node.args.map(element) }
+			break
+		case 'ArrowFunction':
+		case 'FunctionDef':
+			copy = { ...node, body: map(node.body) }
+			break
+		case 'ArrayLiteral':
+			copy = { ...node, elements: node.elements.map(element) }
+			break
+		case 'ObjectLiteral':
+			copy = { ...node, properties: node.properties.map(property) }
+			break
+		case 'SpreadElement':
+			copy = { ...node, argument: map(node.argument) }
+			break
+		case 'MemberExpression': {
+			const key = typeof node.property === 'string' ? node.property : map(node.property)
+			copy = { ...node, object: map(node.object), property: key }
+			break
+		}
+		case 'AssignmentStatement':
+			copy = { ...node, target: map(node.target), value: map(node.value) }
+			break
+		case 'ArrayPattern':
+			copy = { ...node, elements: node.elements.map(map), ...rest(node.rest) }
+			break
+		case 'ObjectPattern': {
+			const properties = node.properties.map((item) => ({ ...item, value: map(item.value) }))
+			copy = { ...node, properties, ...rest(node.rest) }
+			break
+		}
+		case 'LetDeclaration':
+		case 'ReturnStatement':
+			copy = { ...node, ...(node.value && { value: map(node.value) }) }
+			break
+		case 'ThrowStatement':
+		case 'PropertyDef':
+			copy = { ...node, value: map(node.value) }
+			break
+		case 'LetPatternDeclaration':
+			copy = { ...node, pattern: map(node.pattern), value: map(node.value) }
+			break
+		case 'TryStatement':
+			copy = {
+				...node,
+				block: map(node.block),
+				...(node.handler && { handler: map(node.handler) }),
+				...(node.finalizer && { finalizer: map(node.finalizer) }),
+			}
+			break
+		case 'IfStatement':
+			copy = {
+				...node,
+				condition: map(node.condition),
+				consequent: map(node.consequent),
+				...(node.alternate && { alternate: map(node.alternate) }),
+			}
+			break
+		case 'ForStatement':
+			copy = {
+				...node,
+				...(node.init && { init: map(node.init) }),
+				condition: map(node.condition),
+				...(node.update && { update: map(node.update) }),
+				body: map(node.body),
+			}
+			break
+		case 'ForInStatement':
+			copy = { ...node, iterable: map(node.iterable), body: map(node.body) }
+			break
+		case 'BlockExpression':
+			copy = { ...node, statements: node.statements.map(element) }
+			break
+		case 'Program':
+			copy = {
+				...node,
+				...(node.imports && { imports: node.imports.map(map) }),
+				members: node.members.map(map),
+			}
+			break
+		default:
+			throw new Error(`Unknown node kind: ${(node as { kind: string }).kind}`)
+	}
+	return changed ? copy : node
+}
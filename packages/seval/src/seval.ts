@@ -5,29 +5,88 @@
  * Compiles to native JavaScript objects for zero-overhead execution.
  */
 
-import { SevalCompiler } from './seval-compiler'
+import type { Program } from './seval-ast'
+import type { ExecutionBudget } from './seval-budget'
+import type { SevalDiagnostic } from './seval-diagnostics'
+import { type ModuleLoader, compileProgram } from './seval-modules'
+import type { SevalOperators } from './seval-operators'
 import { Parser } from './seval-parser'
 import type { Value } from './seval-primitives'
 import { Tokenizer } from './seval-tokenizer'
 
 /**
- * Compile Seval code to native JavaScript object
+ * Execution backend used by compileSeval
+ * - 'compiler': methods are generated with new Function() (fastest)
+ * - 'interpreter': methods walk the AST directly (no eval, CSP-safe)
+ */
+export type SevalBackend = 'compiler' | 'interpreter'
+
+export interface CompileOptions {
+	/** Execution backend (default: 'compiler') */
+	backend?: SevalBackend
+	/** Name reported in runtime error locations, e.g. 'calculator.seval' */
+	filename?: string
+	/** Loop, call depth and time limits per top-level call (default: unlimited) */
+	budget?: ExecutionBudget
+	/** 'decimal' makes number literals, + - * / % and comparisons exact decimals (default: 'float') */
+	arithmetic?: 'float' | 'decimal'
+	/** Operator implementations replacing the defaults, e.g. for unit types (see seval-operators) */
+	operators?: Partial<SevalOperators>
+	/** Modules the program's import declarations load from (see SevalModules) */
+	modules?: ModuleLoader
+}
+
+export interface ParseOptions {
+	/** Collect every syntax error instead of throwing SevalSyntaxError at the first one */
+	recover?: boolean
+}
+
+export interface ParseResult {
+	program: Program
+	/** Syntax errors in source order (always empty unless recovering) */
+	diagnostics: SevalDiagnostic[]
+}
+
+/**
+ * Parse Seval source to a Program AST
  *
  * @param source Seval source code
- * @returns Native JS object with properties and methods
+ * @param options Parse options (recover: report all errors at once)
+ * @returns The (possibly partial) program and its diagnostics
+ * @throws SevalSyntaxError on the first error unless recovering
  */
-export function compileSeval(source: string): Record<string, unknown> {
-	// Tokenize
-	const tokenizer = new Tokenizer(source)
+export function parseSeval(source: string, options: ParseOptions = {}): ParseResult {
+	const recover = options.recover ?? false
+
+	const tokenizer = new Tokenizer(source, { recover })
 	const tokens = tokenizer.tokenize()
 
-	// Parse
-	const parser = new Parser(tokens)
+	const parser = new Parser(tokens, { source, recover })
 	const program = parser.parseProgram()
 
-	// Compile to native JS object
-	const compiler = new SevalCompiler()
-	return compiler.compile(program)
+	const diagnostics = [...tokenizer.diagnostics, ...parser.diagnostics].sort(
+		(a, b) => a.loc.start.line - b.loc.start.line || a.loc.start.column - b.loc.start.column,
+	)
+
+	return { program, diagnostics }
+}
+
+/**
+ * Compile Seval code to native JavaScript object
+ *
+ * @param source Seval source code
+ * @param options Compile options (backend selection, filename for error locations)
+ * @returns Native JS object with properties and methods
+ */
+export function compileSeval(
+	source: string,
+	options: CompileOptions = {},
+): Record<string, unknown> {
+	// Tokenize and parse (throws SevalSyntaxError on the first error)
+	const { program } = parseSeval(source)
+
+	// Resolve imports and compile to native JS object
+	return compileProgram(program, source, options)
 }
 
 /**
@@ -74,8 +133,42 @@ export function executeSeval(
 // Re-export components for testing
 export { Tokenizer } from './seval-tokenizer'
 export { Parser } from './seval-parser'
-export type { Token, TokenType } from './seval-tokenizer'
-export type { ASTNode, Program } from './seval-ast'
+export {
+	SevalSyntaxError,
+	createDiagnostic,
+	formatDiagnostic,
+	renderCodeFrame,
+} from './seval-diagnostics'
+export type { DiagnosticSeverity, SevalDiagnostic } from './seval-diagnostics'
+export { formatSevalErrorLocation, getSevalErrorLocation } from './seval-sourcemap'
+export { DEFAULT_EXECUTION_BUDGET, SevalBudgetExceededError } from './seval-budget'
+export { SevalError } from './seval-errors'
+export { Decimal } from './seval-decimal'
+export { BINARY_OPERATORS, defaultOperators } from './seval-operators'
+export type { BinaryOperator, SevalOperators } from './seval-operators'
+export type { SevalErrorValue } from './seval-errors'
+export type { BudgetLimit, ExecutionBudget } from './seval-budget'
+export type { SevalErrorLocation } from './seval-sourcemap'
+export { SevalCompiler } from './seval-compiler'
+export { SevalInterpreter } from './seval-interpreter'
+export type { Comment, Token, TokenType } from './seval-tokenizer'
+export type { ASTNode, Program, SourceLocation, SourcePosition } from './seval-ast'
+export { childNodes, transform, visit } from './seval-visitor'
+export type { SevalNode, Transformer, Visitor } from './seval-visitor'
+export { formatSeval } from './seval-format'
+export type { FormatOptions } from './seval-format'
+export { LINT_RULES, RUNTIME_STATE_KEYS, lintSeval } from './seval-lint'
+export type { LintDiagnostic, LintOptions, LintRule } from './seval-lint'
+export { SevalModuleError, SevalModules } from './seval-modules'
+export type { ModuleLoader, SevalModulesOptions } from './seval-modules'
+export { TYPE_RULES, checkSeval } from './seval-typecheck'
+export type {
+	CheckOptions,
+	SchemaType,
+	SevalSchema,
+	TypeDiagnostic,
+	TypeRule,
+} from './seval-typecheck'
 export type { Value, PrimitiveValue, ValueArray, ValueObject, SFunction } from './seval-primitives'
 
 // Environment type for compiled seval code
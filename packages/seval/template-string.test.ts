@@ -0,0 +1,119 @@
+/**
+ * Tests for template strings:
+ * - Tokenizing and parsing `text ${expr} text`, including nested braces and templates
+ * - Interpolation converts values like the + primitive on both backends
+ * - Multi-line templates, escapes and syntax errors
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalBackend, SevalSyntaxError, compileSeval, parseSeval } from './src/seval'
+import { defaultOperators } from './src/seval-operators'
+import { TokenType, Tokenizer } from './src/seval-tokenizer'
+import { run } from './test-helpers'
+
+describe('Template tokenizing', () => {
+	test('splits a template around its substitutions', () => {
+		const tokens = new Tokenizer('`a${x}b${y}c`').tokenize()
+		expect(tokens.map((t) => [t.type, t.value])).toEqual([
+			[TokenType.TEMPLATE_HEAD, 'a'],
+			[TokenType.IDENTIFIER, 'x'],
+			[TokenType.TEMPLATE_MIDDLE, 'b'],
+			[TokenType.IDENTIFIER, 'y'],
+			[TokenType.TEMPLATE_TAIL, 'c'],
+			[TokenType.EOF, ''],
+		])
+	})
+
+	test('a template without substitutions is a single token', () => {
+		const [token] = new Tokenizer('`plain`').tokenize()
+		expect(token).toMatchObject({ type: TokenType.TEMPLATE_STRING, value: 'plain' })
+	})
+
+	test('braces inside a substitution do not end it', () => {
+		const types = new Tokenizer('`${ {a: 1}.a }!`').tokenize().map((t) => t.type)
+		expect(types).toEqual([
+			TokenType.TEMPLATE_HEAD,
+			TokenType.LBRACE,
+			TokenType.IDENTIFIER,
+			TokenType.COLON,
+			TokenType.NUMBER,
+			TokenType.RBRACE,
+			TokenType.DOT,
+			TokenType.IDENTIFIER,
+			TokenType.TEMPLATE_TAIL,
+			TokenType.EOF,
+		])
+	})
+
+	test('tracks lines across multi-line templates', () => {
+		const tokens = new Tokenizer('`a\nb${x}`\ny').tokenize()
+		expect(tokens[1]).toMatchObject({ type: TokenType.IDENTIFIER, line: 2, column: 4 })
+		expect(tokens[4]).toMatchObject({ type: TokenType.IDENTIFIER, value: 'y', line: 3 })
+	})
+})
+
+describe('Template parsing', () => {
+	test('parses quasis and expressions', () => {
+		const { program } = parseSeval('{ f() { `Card ${i + 1} of ${words.length}` } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'TemplateLiteral',
+			quasis: ['Card ', ' of ', ''],
+			expressions: [{ kind: 'BinaryExpression' }, { kind: 'MemberExpression' }],
+		})
+	})
+
+	test('reports an unterminated template', () => {
+		expect(() => compileSeval('{ f() { `abc } }')).toThrow('Unterminated template literal')
+	})
+
+	test('reports a substitution that is not closed', () => {
+		expect(() => compileSeval('{ f() { `a${x y}` } }')).toThrow(SevalSyntaxError)
+	})
+
+	test('allows constant templates as property values', () => {
+		expect(compileSeval('{ title: `Hello` }').title).toBe('Hello')
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Template strings (${backend})`, () => {
+		test('interpolates expressions', () => {
+			const state = { currentIndex: 1, words: ['a', 'b', 'c'] }
+			expect(run(backend, '`Card ${currentIndex + 1} of ${words.length}`', state)).toBe(
+				'Card 2 of 3',
+			)
+		})
+
+		test('converts values like the + operator', () => {
+			const values = { n: 1.5, z: null, b: false, list: [1, 2], obj: { a: 1 } }
+			const result = run(backend, '`${n}|${z}|${b}|${list}|${obj}|${missing}`', values)
+			const expected = Object.values({ ...values, missing: undefined })
+				.map((v) => defaultOperators['+']('', v))
+				.join('|')
+			expect(result).toBe(expected)
+		})
+
+		test('supports lets, calls and nested templates', () => {
+			const result = run(
+				backend,
+				'let name = "Ann"\n\t\t`Hi ${name.toUpperCase()}${[1, 2].map(n => `<${n}>`).join("")}`',
+			)
+			expect(result).toBe('Hi ANN<1><2>')
+		})
+
+		test('keeps newlines of multi-line templates', () => {
+			expect(run(backend, '`line 1\nline 2 ${1 + 1}`')).toBe('line 1\nline 2 2')
+		})
+
+		test('decodes escapes', () => {
+			expect(run(backend, '`tick \\` dollar \\${x} tab\\t $ {}`')).toBe(
+				'tick ` dollar ${x} tab\t $ {}',
+			)
+		})
+
+		test('keeps backslashes and carriage returns literal', () => {
+			expect(run(backend, '`a\\\\b\rc`')).toBe('a\\b\rc')
+		})
+	})
+}
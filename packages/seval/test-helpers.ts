@@ -0,0 +1,18 @@
+/**
+ * Helpers shared by the feature tests
+ */
+
+import { type CompileOptions, type SevalBackend, compileSeval } from './src/seval'
+
+/**
+ * Run statements as the body of a method, with this bound to state
+ */
+export function run(
+	backend: SevalBackend,
+	body: string,
+	state: Record<string, unknown> = {},
+	options: Omit<CompileOptions, 'backend'> = {},
+): unknown {
+	const env = compileSeval(`{\n\trun() {\n\t\t${body}\n\t}\n}`, { ...options, backend })
+	return (env.run as () => unknown).call(state)
+}
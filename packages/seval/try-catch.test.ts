@@ -0,0 +1,258 @@
+/**
+ * Tests for error handling:
+ * - try / catch / finally and their values as statements
+ * - throw with strings and { message, code } objects; catch binds { message, code }
+ * - Runtime errors are caught with their message and name; budget errors are not catchable
+ * - Uncaught throws reach the host as SevalError
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+	type SevalBackend,
+	SevalBudgetExceededError,
+	SevalError,
+	compileSeval,
+	parseSeval,
+} from './src/seval'
+import { TokenType, Tokenizer } from './src/seval-tokenizer'
+import { run } from './test-helpers'
+
+describe('Try statement parsing', () => {
+	test('tokenizes try, catch, finally and throw', () => {
+		const types = new Tokenizer('try catch finally throw').tokenize().map((t) => t.type)
+		expect(types).toEqual([
+			TokenType.TRY,
+			TokenType.CATCH,
+			TokenType.FINALLY,
+			TokenType.THROW,
+			TokenType.EOF,
+		])
+	})
+
+	test('parses try, catch with a binding and finally', () => {
+		const { program } = parseSeval('{ f() { try { a() } catch (e) { b(e) } finally { c() } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'TryStatement',
+			block: { kind: 'CallExpression' },
+			param: 'e',
+			handler: { kind: 'CallExpression' },
+			finalizer: { kind: 'CallExpression' },
+		})
+	})
+
+	test('catch and finally can start on the next line, and the binding is optional', () => {
+		const { program } = parseSeval('{ f() {\n\ttry {\n\t\ta()\n\t}\n\tcatch {\n\t\tb()\n\t}\n} }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({ kind: 'TryStatement' })
+		expect(f.kind === 'FunctionDef' && f.body).not.toHaveProperty('param')
+	})
+
+	test('parses throw', () => {
+		const { program } = parseSeval('{ f() { throw { message: "bad", code: "E1" } } }')
+		const f = program.members[0]
+		expect(f.kind === 'FunctionDef' && f.body).toMatchObject({
+			kind: 'ThrowStatement',
+			value: { kind: 'ObjectLiteral' },
+		})
+	})
+
+	test('rejects a try without catch or finally', () => {
+		expect(() => compileSeval('{ f() { try { a() } } }')).toThrow(
+			"'try' needs a catch or finally block",
+		)
+	})
+
+	test('rejects a throw without a value on the same line', () => {
+		expect(() => compileSeval('{ f() { throw\n"x" } }')).toThrow(
+			"'throw' needs a value on the same line",
+		)
+	})
+
+	test('rejects this as a catch binding', () => {
+		expect(() => compileSeval('{ f() { try { a() } catch (this) { b() } } }')).toThrow(
+			"Cannot use 'this' as a catch binding",
+		)
+	})
+})
+
+for (const backend of ['compiler', 'interpreter'] as SevalBackend[]) {
+	describe(`Try and catch (${backend})`, () => {
+		test('has the value of the block when nothing is thrown', () => {
+			expect(run(backend, 'try { 1 } catch (e) { 2 }')).toBe(1)
+		})
+
+		test('has the value of the catch body when the block throws', () => {
+			expect(run(backend, 'try {\n\t\t\tthrow "bad"\n\t\t\t1\n\t\t} catch (e) { e.message }')).toBe(
+				'bad',
+			)
+		})
+
+		test('a thrown string is the message', () => {
+			const result = run(
+				backend,
+				'try { throw "invalid number" } catch (e) { [e.message, e.code] }',
+			)
+			expect(Array.from(result as unknown[])).toEqual(['invalid number', null])
+		})
+
+		test('a thrown object gives the message and code', () => {
+			const result = run(
+				backend,
+				'try { throw { message: "Too long", code: "MAX_LENGTH" } } catch (e) { [e.message, e.code] }',
+			)
+			expect(Array.from(result as unknown[])).toEqual(['Too long', 'MAX_LENGTH'])
+		})
+
+		test('catches runtime errors with their message and name', () => {
+			const result = run(
+				backend,
+				'try { missing.name } catch (e) { [e.message.length > 0, e.code] }',
+			)
+			expect(Array.from(result as unknown[])).toEqual([true, 'TypeError'])
+		})
+
+		test('catches errors thrown by called methods and host functions', () => {
+			const env = compileSeval(
+				`{
+	parse(text) {
+		let n = Number(text)
+		if Number.isNaN(n) { throw { message: "invalid number", code: "NAN" } }
+		n
+	},
+	submit(text) {
+		try {
+			this.value = parse(text)
+			this.error = null
+		} catch (e) {
+			this.error = e.message
+		}
+	},
+	host() { try { fail() } catch (e) { e.message } }
+}`,
+				{ backend },
+			)
+			const state: Record<string, unknown> = {
+				...env,
+				fail: () => {
+					throw new Error('host failed')
+				},
+			}
+			;(env.submit as (t: string) => void).call(state, 'abc')
+			expect(state.error).toBe('invalid number')
+			;(env.submit as (t: string) => void).call(state, '42')
+			expect([state.value, state.error]).toEqual([42, null])
+			expect((env.host as () => unknown).call(state)).toBe('host failed')
+		})
+
+		test('a catch without a binding', () => {
+			expect(run(backend, 'try { throw "x" } catch { "handled" }')).toBe('handled')
+		})
+
+		test('the binding is local to the catch body', () => {
+			const state: Record<string, unknown> = {}
+			const result = run(
+				backend,
+				'let e = "outer"\n\t\ttry { throw "x" } catch (e) { e = "changed" }\n\t\te',
+				state,
+			)
+			expect(result).toBe('outer')
+			expect(state).toEqual({})
+		})
+
+		test('a caught error can be thrown again', () => {
+			const result = run(
+				backend,
+				'try {\n\t\t\ttry { throw { message: "m", code: "C" } } catch (e) { throw e }\n\t\t} catch (outer) { `${outer.code}: ${outer.message}` }',
+			)
+			expect(result).toBe('C: m')
+		})
+
+		test('the error value is sandboxed', () => {
+			const result = run(backend, 'try { throw "x" } catch (e) { [e.constructor, e["__proto__"]] }')
+			expect(Array.from(result as unknown[])).toEqual([undefined, undefined])
+		})
+
+		test('try, catch, finally and throw are still property names and object keys', () => {
+			const source =
+				'let o = { try: 1, catch: 2, finally: 3, throw: 4 }\n\t\to.try + o.catch + o.finally + o?.throw'
+			expect(run(backend, source)).toBe(10)
+		})
+	})
+
+	describe(`Finally (${backend})`, () => {
+		test('runs after the block and after the catch body', () => {
+			const state = { log: [] as string[] }
+			run(backend, 'try { log.push("try") } finally { log.push("finally") }', state)
+			run(
+				backend,
+				'try { throw "x" } catch (e) { log.push("catch") } finally { log.push("finally") }',
+				state,
+			)
+			expect(state.log).toEqual(['try', 'finally', 'catch', 'finally'])
+		})
+
+		test('does not change the value of the try', () => {
+			expect(run(backend, 'try { 1 } finally { 2 }')).toBe(1)
+		})
+
+		test('runs when the error is not caught', () => {
+			const state = { done: false }
+			expect(() => run(backend, 'try { throw "x" } finally { done = true }', state)).toThrow(
+				SevalError,
+			)
+			expect(state.done).toBe(true)
+		})
+
+		test('runs on return, break and continue', () => {
+			const state = { log: [] as number[] }
+			const result = run(
+				backend,
+				`for x in [1, 2, 3] {
+			try {
+				if x == 1 { continue }
+				if x == 3 { break }
+			} finally { log.push(x) }
+		}
+		try { return "returned" } finally { log.push(0) }`,
+				state,
+			)
+			expect(result).toBe('returned')
+			expect(state.log).toEqual([1, 2, 3, 0])
+		})
+	})
+
+	describe(`Throw (${backend})`, () => {
+		test('an uncaught throw reaches the host as SevalError', () => {
+			try {
+				run(backend, 'throw { message: "Bad input", code: "BAD_INPUT" }')
+				throw new Error('did not throw')
+			} catch (error) {
+				expect(error).toBeInstanceOf(SevalError)
+				expect((error as SevalError).message).toBe('Bad input')
+				expect((error as SevalError).code).toBe('BAD_INPUT')
+			}
+		})
+
+		test('return inside try leaves the function', () => {
+			const env = compileSeval('{ f() { try { return 1 } catch (e) { 2 }\n 3 } }', { backend })
+			expect((env.f as () => unknown).call({})).toBe(1)
+		})
+
+		test('works in arrow block bodies', () => {
+			const result = run(
+				backend,
+				'["1", "x", "3"].map(s => {\n\t\t\ttry { if Number.isNaN(Number(s)) { throw "NaN" }\n\t\t\tNumber(s) } catch (e) { 0 }\n\t\t})',
+			)
+			expect(Array.from(result as unknown[])).toEqual([1, 0, 3])
+		})
+
+		test('budget errors cannot be caught', () => {
+			const env = compileSeval(
+				'{ spin() { for true { } }, run() { try { spin() } catch (e) { "caught" } } }',
+				{ backend, budget: { maxLoopIterations: 100 } },
+			)
+			expect(() => (env.run as () => unknown).call({ ...env })).toThrow(SevalBudgetExceededError)
+		})
+	})
+}
@@ -0,0 +1,202 @@
+/**
+ * Tests for the type checker:
+ * - Types come from the data model and context schemas, literals and program members
+ * - Each rule reports with its id, severity and loc span
+ * - Only definite mismatches are reported: unions and unknown values pass
+ * - Locals, array callbacks and for loops carry the types of their values
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { type SevalSchema, checkSeval, formatDiagnostic, parseSeval } from './src/seval'
+
+const dataModel: SevalSchema = {
+	type: 'object',
+	properties: {
+		display: { type: 'string' },
+		count: { type: 'integer' },
+		waiting: { type: 'boolean' },
+		mode: { enum: ['add', 'sub'] },
+		todos: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: { id: { type: 'number' }, text: { type: 'string' }, done: { type: 'boolean' } },
+			},
+		},
+		user: { type: ['object', 'null'], properties: { name: { type: 'string' } } },
+		settings: { type: 'object', additionalProperties: { type: 'number' } },
+	},
+}
+
+const context: SevalSchema = { type: 'object', properties: { value: { type: 'string' } } }
+
+function check(source: string): string[][] {
+	return checkSeval(parseSeval(source).program, { dataModel, context }).map(({ rule, message }) => [
+		rule,
+		message,
+	])
+}
+
+describe('Inference', () => {
+	test('accepts well-typed code', () => {
+		const source = `{
+  limit: 10,
+  label(todo) { \`#\${todo.id} \${todo.text}\` },
+  action_add() {
+    let open = todos.filter(t => !t.done)
+    let texts = open.map(t => t.text.toUpperCase()).join(", ")
+    if count < limit { this.count = count + open.length }
+    this.display = texts + display.trim() + label(todos[0])
+    this.user = null
+    this.mode = "sub"
+    this.waiting = !waiting
+    this.settings.scale = Math.round(settings.scale * 2)
+    let name = user?.name ?? "nobody"
+    name.length + Number(context.value)
+  }
+}`
+		expect(check(source)).toEqual([])
+	})
+
+	test('does not report unknown values, unions or code without a schema', () => {
+		expect(check('{ f(x) { x.y.z(1) - q + set("a", 1) } }')).toEqual([])
+		expect(check('{ f(flag) { let v = flag ? 1 : "a"\n v - 1 } }')).toEqual([])
+		expect(checkSeval(parseSeval('{ f() { display * 2 } }').program)).toEqual([])
+	})
+
+	test('infers program members, locals and method results', () => {
+		expect(check('{ title: "a", f() { title * 2 } }')).toEqual([
+			['operand-type', "Operator '*' expects numbers but got string"],
+		])
+		expect(check('{ f() { let n = "1"\n n - 1 } }')).toEqual([
+			['operand-type', "Operator '-' expects numbers but got string"],
+		])
+		expect(check('{ total() { 1 + 2 }, g() { total().toFixed(2).size } }')).toEqual([
+			['missing-property', "Property 'size' does not exist on string"],
+		])
+	})
+
+	test('gives array callbacks and for loops the item types', () => {
+		expect(check('{ f() { todos.map(t => t.text).map(s => s / 2) } }')).toEqual([
+			['operand-type', "Operator '/' expects numbers but got string"],
+		])
+		expect(check('{ f() { for i, t in todos { t.done - i } } }')).toEqual([
+			['operand-type', "Operator '-' expects numbers but got boolean"],
+		])
+		expect(check('{ f() { for key in user { key * 2 } } }')).toEqual([
+			['operand-type', "Operator '*' expects numbers but got string"],
+		])
+		// The second iteration sees last assigned
+		expect(
+			check('{ f() { let last = null\n for t in todos { if last { last.text } last = t } } }'),
+		).toEqual([])
+	})
+
+	test('types context from its own schema', () => {
+		expect(check('{ action_set() { this.count = context.value } }')).toEqual([
+			['assignment-type', "Type string is not assignable to 'count' (number)"],
+		])
+	})
+})
+
+describe('Rules', () => {
+	test('operand-type is an error at the expression', () => {
+		const source = '{\n  action_inc() {\n    this.count = display - 1\n  }\n}'
+		const [diagnostic] = checkSeval(parseSeval(source).program, { dataModel, source })
+		expect(diagnostic).toMatchObject({
+			rule: 'operand-type',
+			severity: 'error',
+			loc: { start: { line: 3, column: 18 }, end: { line: 3, column: 29 } },
+		})
+		expect(formatDiagnostic(diagnostic, 'counter.seval')).toBe(
+			[
+				"counter.seval:3:18 error: Operator '-' expects numbers but got string",
+				'  1 | {',
+				'  2 |   action_inc() {',
+				'> 3 |     this.count = display - 1',
+				'    |                  ^^^^^^^^^^^',
+				'  4 |   }',
+				'  5 | }',
+			].join('\n'),
+		)
+	})
+
+	test('operand-type covers unary, update, comparison and iteration', () => {
+		expect(check('{ f() { -display; waiting++; display < count; for x in count { x } } }')).toEqual(
+			[
+				['operand-type', "Operator '-' expects numbers but got string"],
+				['operand-type', "Operator '++' expects numbers but got boolean"],
+				['operand-type', "Operator '<' compares string with number"],
+				['operand-type', 'Cannot iterate over number'],
+			],
+		)
+		expect(check('{ f() { todos + 1 } }')).toEqual([
+			['operand-type', "Operator '+' expects numbers or strings but got object[]"],
+		])
+	})
+
+	test('concatenation warns about + on a string and a number unless one is a literal', () => {
+		const { program } = parseSeval('{ f() { display + count; display + 1; "n: " + count } }')
+		expect(
+			checkSeval(program, { dataModel }).map(({ rule, severity }) => [rule, severity]),
+		).toEqual([
+			['concatenation', 'warning'],
+			['concatenation', 'warning'],
+		])
+	})
+
+	test('missing-property reports closed objects, primitives and null', () => {
+		expect(check('{ f() { todos[0].title; display.lenght; user.age; user?.name } }')).toEqual([
+			['missing-property', "Property 'title' does not exist on object"],
+			['missing-property', "Property 'lenght' does not exist on string"],
+			['missing-property', "Property 'age' does not exist on object | null"],
+		])
+		expect(check('{ f() { let u = null\n u.name } }')).toEqual([
+			['missing-property', "Cannot read property 'name' of null"],
+		])
+		expect(check('{ f() { settings.anything + 1 } }')).toEqual([])
+	})
+
+	test('arity reports methods, arrow functions and primitives', () => {
+		expect(check('{ add(a, b) { a + b }, f() { add(1); this.add(1, 2, 3) } }')).toEqual([
+			['arity', "'add' expects 2 arguments but got 1"],
+			['arity', "'add' expects 2 arguments but got 3"],
+		])
+		expect(check('{ f() { let g = (x, ...more) => x\n g(); g(1, 2, 3) } }')).toEqual([
+			['arity', "'g' expects at least 1 argument but got 0"],
+		])
+		expect(check('{ f() { Math.pow(2); Math.max(); get(todos); decimal(1, 2) } }')).toEqual([
+			['arity', "'pow' expects 2 arguments but got 1"],
+			['arity', "'get' expects 2 arguments but got 1"],
+			['arity', "'decimal' expects 1 argument but got 2"],
+		])
+	})
+
+	test('not-callable reports calls of values that are not functions', () => {
+		expect(check('{ limit: 3, f() { display(); limit(); todos.length() } }')).toEqual([
+			['not-callable', "'display' is not a function (string)"],
+			['not-callable', "'limit' is not a function (number)"],
+			['not-callable', "'length' is not a function (number)"],
+		])
+	})
+
+	test('assignment-type checks writes to data model keys and typed properties', () => {
+		expect(
+			check(
+				'{ action_f(waiting) { waiting = "yes"; this.mode = 1; todos[0].done = 0; count += 1 } }',
+			),
+		).toEqual([
+			['assignment-type', "Type string is not assignable to 'waiting' (boolean)"],
+			['assignment-type', "Type number is not assignable to 'mode' (string)"],
+			['assignment-type', "Type number is not assignable to 'done' (boolean)"],
+		])
+	})
+
+	test('reports each mistake once', () => {
+		expect(check('{ f() { this.display -= 1; display++ } }')).toEqual([
+			['operand-type', "Operator '-' expects numbers but got string"],
+			['operand-type', "Operator '++' expects numbers but got string"],
+		])
+		expect(check('{ a() { b() }, b() { display * 2 }, c() { b() } }')).toHaveLength(1)
+	})
+})